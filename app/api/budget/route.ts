@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { spendCaps } from "@/lib/budget";
+
+/** The server's spend caps, so the playground can warn before a run. */
+export function GET() {
+  return NextResponse.json(spendCaps());
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  admitRequest,
+  enforceLimits,
+  fanOutInput,
+  modelChain,
+  readMultiExtractRequest,
+} from "@/lib/extract";
+import type { MultiExtractEvent } from "@/lib/extract-client";
+import {
+  lookupCache,
+  ndjsonResponse,
+  recordCacheHit,
+  streamExtraction,
+} from "@/lib/extract-stream";
+
+/**
+ * Runs one uploaded image across several models in parallel and streams
+ * NDJSON events tagged with `modelId` as each model progresses. The whole
+ * request counts as one unit of quota, and none when every model is cached.
+ */
+export async function POST(req: NextRequest) {
+  const admitted = await admitRequest(req);
+  if (admitted) return admitted;
+
+  const input = await readMultiExtractRequest(req);
+  if (input instanceof NextResponse) return input;
+  const startedAt = Date.now();
+
+  const runs = await Promise.all(
+    input.modelIds.map(async (modelId) => {
+      const modelInput = fanOutInput(input, modelId);
+      return { modelInput, ...(await lookupCache(modelInput)) };
+    })
+  );
+
+  const misses = runs.filter((run) => !run.hit);
+  if (misses.length > 0) {
+    const limited = await enforceLimits(
+      req,
+      input,
+      misses.map((run) => modelChain(run.modelInput))
+    );
+    if (limited) return limited;
+  }
+
+  const partials = input.partials;
+  return ndjsonResponse<MultiExtractEvent>(req.signal, (send) =>
+    Promise.all(
+      runs.map(({ modelInput, key, hit }) => {
+        const modelId = modelInput.modelId;
+        if (hit) {
+          send({ ...hit, modelId });
+          return recordCacheHit(modelInput, hit, startedAt);
+        }
+        return streamExtraction(
+          modelInput,
+          key,
+          (event) => send({ ...event, modelId }),
+          partials
+        );
+      })
+    ).then(() => {})
+  );
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  admitRequest,
+  enforceLimits,
+  modelChain,
+  readExtractRequest,
+} from "@/lib/extract";
+import type { ExtractStreamEvent } from "@/lib/extract-client";
+import {
+  NDJSON_HEADERS,
+  lookupCache,
+  ndjsonResponse,
+  recordCacheHit,
+  streamExtraction,
+} from "@/lib/extract-stream";
+
+export async function POST(req: NextRequest) {
+  const admitted = await admitRequest(req);
+  if (admitted) return admitted;
+
+  const input = await readExtractRequest(req);
+  if (input instanceof NextResponse) return input;
+  const startedAt = Date.now();
+
+  // A cache hit is sent as a single `done` event, without spending quota
+  const { key, hit } = await lookupCache(input);
+  if (hit) {
+    await recordCacheHit(input, hit, startedAt);
+    return new Response(JSON.stringify(hit) + "\n", {
+      headers: NDJSON_HEADERS,
+    });
+  }
+
+  const limited = await enforceLimits(req, input, [modelChain(input)]);
+  if (limited) return limited;
+
+  return ndjsonResponse<ExtractStreamEvent>(req.signal, (send) =>
+    streamExtraction(input, key, send)
+  );
+}
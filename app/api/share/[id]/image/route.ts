@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadShareImage } from "@/lib/share-store";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const image = await loadShareImage((await params).id);
+  if (!image) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return new NextResponse(image.bytes as BodyInit, {
+    headers: {
+      "Content-Type": image.type,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clientIp } from "@/lib/client-ip";
+import { MAX_IMAGE_BYTES, sniffImageType } from "@/lib/image-input";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  SHARE_POLICY,
+} from "@/lib/ratelimit";
+import { saveShare, type SharedImage } from "@/lib/share-store";
+import {
+  createShareId,
+  MAX_SNAPSHOT_BYTES,
+  sharePath,
+  shareRequestSchema,
+} from "@/lib/share";
+
+/** Stores a finished run and returns its permalink. */
+export async function POST(req: NextRequest) {
+  const rateLimit = await checkRateLimit(
+    `share:${clientIp(req)}`,
+    SHARE_POLICY,
+    { requests: 1, tokens: 0, cost: 0 }
+  );
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      {
+        error: "Too many shared runs. Please wait a moment.",
+        code: "rate_limited",
+      },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const formData = await req.formData();
+  const rawSnapshot = formData.get("snapshot") as string | null;
+  const file = formData.get("image") as File | null;
+
+  if (!rawSnapshot || rawSnapshot.length > MAX_SNAPSHOT_BYTES) {
+    return NextResponse.json(
+      { error: "Missing or oversized snapshot" },
+      { status: 400 }
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(rawSnapshot);
+  } catch {
+    return NextResponse.json(
+      { error: "Snapshot is not valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = shareRequestSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid snapshot" }, { status: 400 });
+  }
+
+  let image: SharedImage | null = null;
+  if (file) {
+    if (file.size > MAX_IMAGE_BYTES) {
+      return NextResponse.json({ error: "Image is too large" }, { status: 400 });
+    }
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const type = sniffImageType(bytes);
+    if (!type) {
+      return NextResponse.json(
+        { error: "Unsupported image type" },
+        { status: 400 }
+      );
+    }
+    image = { bytes, type };
+  }
+
+  const id = createShareId();
+  try {
+    await saveShare(
+      {
+        ...parsed.data,
+        id,
+        createdAt: Date.now(),
+        ...(image && { imageType: image.type }),
+      },
+      image
+    );
+  } catch (error: unknown) {
+    console.error("[share] save error:", error);
+    return NextResponse.json(
+      { error: "Failed to save the run" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ id, url: sharePath(id) }, { status: 201 });
+}
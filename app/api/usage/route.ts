@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseUsageRange, toUsageCsv, utcDay } from "@/lib/usage";
+import { canViewUsage, loadUsage } from "@/lib/usage-store";
+
+/**
+ * Recorded extractions between `from` and `to` (inclusive UTC days) as
+ * JSON, or as a CSV download with `format=csv`.
+ */
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  if (!canViewUsage(params.get("token"))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const range = parseUsageRange(
+    params.get("from") ?? undefined,
+    params.get("to") ?? undefined
+  );
+  const records = await loadUsage(range);
+
+  if (params.get("format") !== "csv") {
+    return NextResponse.json({ records });
+  }
+
+  const name = `usage-${utcDay(range.from)}-${utcDay(range.to - 1)}.csv`;
+  return new Response(toUsageCsv(records), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${name}"`,
+    },
+  });
+}
@@ -0,0 +1,294 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticate, quotaFor } from "@/lib/api-keys";
+import { checkRunCap, reserveSpend } from "@/lib/budget";
+import {
+  consumeQuota,
+  estimateRun,
+  extractMetadata,
+  prepareImage,
+  worstCaseCost,
+} from "@/lib/extract";
+import { withRecovery } from "@/lib/extract-recovery";
+import {
+  MAX_IMAGE_BYTES,
+  decodeBase64Image,
+  fetchImage,
+} from "@/lib/image-input";
+import {
+  localizeExtraction,
+  parseLocales,
+  type Locale,
+} from "@/lib/locales";
+import { MODELS, calculateCost, isExtractable } from "@/lib/models";
+import {
+  parsePreprocessOptions,
+  preprocessOptionsSchema,
+  type PreprocessOptions,
+} from "@/lib/preprocess";
+import { DEFAULT_PROMPT } from "@/lib/prompts";
+import { recordExtraction } from "@/lib/usage-store";
+import { rateLimitHeaders } from "@/lib/ratelimit";
+import {
+  DEFAULT_SCHEMA,
+  extractionSchemaSchema,
+  parseExtractionSchema,
+  type ExtractionSchema,
+} from "@/lib/schema";
+
+const MAX_PROMPT_LENGTH = 4000;
+
+const jsonBodySchema = z
+  .object({
+    image: z.string().min(1).optional(),
+    imageUrl: z.string().url().optional(),
+    models: z.array(z.string()).min(1).max(MODELS.length),
+    prompt: z.string().max(MAX_PROMPT_LENGTH).optional(),
+    schema: extractionSchemaSchema.optional(),
+    preprocess: preprocessOptionsSchema.optional(),
+    locales: z.array(z.string()).optional(),
+  })
+  .refine((body) => !body.image !== !body.imageUrl, {
+    message: "Provide exactly one of image or imageUrl",
+    path: ["image"],
+  });
+
+type ApiRequest = {
+  imageBytes: Uint8Array;
+  models: string[];
+  prompt: string;
+  schema: ExtractionSchema;
+  preprocess: PreprocessOptions | null;
+  locales: Locale[];
+};
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+async function readJsonBody(req: NextRequest): Promise<ApiRequest | NextResponse> {
+  const parsed = jsonBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return badRequest(`${issue.path.join(".") || "body"}: ${issue.message}`);
+  }
+
+  const locales = parseLocales(parsed.data.locales ?? []);
+  if (!locales.success) return badRequest(`locales: ${locales.error}`);
+
+  const image = parsed.data.imageUrl
+    ? await fetchImage(parsed.data.imageUrl)
+    : decodeBase64Image(parsed.data.image!);
+  if (!image.success) return badRequest(image.error);
+
+  return {
+    imageBytes: image.bytes,
+    models: [...new Set(parsed.data.models)],
+    prompt: parsed.data.prompt || DEFAULT_PROMPT,
+    schema: parsed.data.schema ?? DEFAULT_SCHEMA,
+    preprocess: parsed.data.preprocess ?? null,
+    locales: locales.locales,
+  };
+}
+
+async function readMultipartBody(
+  req: NextRequest
+): Promise<ApiRequest | NextResponse> {
+  const formData = await req.formData();
+  const image = formData.get("image");
+  const imageUrl = formData.get("imageUrl") as string | null;
+  const models = [
+    ...new Set(
+      formData
+        .getAll("models")
+        .flatMap((v) => String(v).split(","))
+        .map((v) => v.trim())
+        .filter(Boolean)
+    ),
+  ];
+  const prompt = (formData.get("prompt") as string | null) || DEFAULT_PROMPT;
+  const rawSchema = formData.get("schema") as string | null;
+  const rawPreprocess = formData.get("preprocess") as string | null;
+  const locales = parseLocales(
+    String(formData.get("locales") ?? "").split(",")
+  );
+
+  if (!(image instanceof File) && !imageUrl) {
+    return badRequest("image: Required");
+  }
+  if (image instanceof File && image.size > MAX_IMAGE_BYTES) {
+    return badRequest("Image exceeds the 10MB limit");
+  }
+  if (models.length === 0) return badRequest("models: Required");
+  if (models.length > MODELS.length) {
+    return badRequest(`models: At most ${MODELS.length} models`);
+  }
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    return badRequest(`prompt: Must be at most ${MAX_PROMPT_LENGTH} characters`);
+  }
+  if (!locales.success) return badRequest(`locales: ${locales.error}`);
+
+  let schema = DEFAULT_SCHEMA;
+  if (rawSchema) {
+    const parsed = parseExtractionSchema(rawSchema);
+    if (!parsed.success) return badRequest(parsed.error);
+    schema = parsed.schema;
+  }
+
+  let preprocess: PreprocessOptions | null = null;
+  if (rawPreprocess) {
+    const parsed = parsePreprocessOptions(rawPreprocess);
+    if (!parsed.success) return badRequest(parsed.error);
+    preprocess = parsed.options;
+  }
+
+  let imageBytes: Uint8Array;
+  if (image instanceof File) {
+    imageBytes = new Uint8Array(await image.arrayBuffer());
+  } else {
+    const fetched = await fetchImage(imageUrl!);
+    if (!fetched.success) return badRequest(fetched.error);
+    imageBytes = fetched.bytes;
+  }
+
+  return {
+    imageBytes,
+    models,
+    prompt,
+    schema,
+    preprocess,
+    locales: locales.locales,
+  };
+}
+
+/**
+ * Extracts metadata from one image with one or more models. Accepts JSON
+ * (base64, data URL or remote image URL) or multipart form data,
+ * authenticated by API key. Each model counts as one unit against the key's quota.
+ */
+export async function POST(req: NextRequest) {
+  const apiKey = authenticate(req);
+  if (!apiKey) {
+    return NextResponse.json(
+      { error: "Missing or invalid API key" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+    );
+  }
+
+  const isMultipart = req.headers
+    .get("content-type")
+    ?.startsWith("multipart/form-data");
+  const body = isMultipart
+    ? await readMultipartBody(req)
+    : await readJsonBody(req);
+  if (body instanceof NextResponse) return body;
+
+  const unsupported = body.models.filter(
+    (id) => !MODELS.some((m) => m.id === id && isExtractable(m))
+  );
+  if (unsupported.length > 0) {
+    return badRequest(
+      `Unknown or unsupported models: ${unsupported.join(", ")}`
+    );
+  }
+
+  const localized = localizeExtraction(body.prompt, body.schema, body.locales);
+  if (!localized.success) return badRequest(localized.error);
+  const { prompt, schema } = localized;
+
+  const image = await prepareImage(body.imageBytes, body.preprocess);
+  if (image instanceof NextResponse) return image;
+
+  const runs = await estimateRun({ ...image, prompt, schema }, body.models);
+  const cost = await worstCaseCost(
+    { ...image, prompt, schema },
+    body.models.map((modelId) => [modelId])
+  );
+  const runCap = checkRunCap(cost);
+  if (!runCap.success) {
+    return NextResponse.json(
+      { error: runCap.error, code: "budget_exceeded" },
+      { status: 402 }
+    );
+  }
+
+  const { result: rateLimit, modelId: limitedModel } = await consumeQuota(
+    `key:${apiKey.id}`,
+    quotaFor(apiKey),
+    runs,
+    body.models.length
+  );
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      {
+        error: limitedModel
+          ? `Quota exceeded for ${limitedModel} on this API key`
+          : "Quota exceeded for this API key",
+        code: "rate_limited",
+      },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const spend = await reserveSpend(cost, apiKey);
+  if (!spend.success) {
+    return NextResponse.json(
+      { error: spend.error, code: "budget_exceeded" },
+      { status: 402, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const context = {
+    source: "api" as const,
+    apiKey: apiKey.id,
+    startedAt: Date.now(),
+  };
+  const results = await Promise.all(
+    body.models.map(async (modelId) => {
+      const outcome = await withRecovery([modelId], (id, signal) =>
+        extractMetadata(
+          { ...image, modelId: id, prompt, schema },
+          signal
+        )
+      );
+      if (!outcome.success) {
+        const { code, message } = outcome.failure;
+        console.error(`[v1/extract] ${apiKey.id} ${modelId} ${code}:`, message);
+        await recordExtraction(
+          { ...image, modelId },
+          { status: "error", code, spent: outcome.spent },
+          context
+        );
+        return {
+          model: modelId,
+          status: "error" as const,
+          error: message,
+          code,
+        };
+      }
+
+      const { value: result, spent } = outcome;
+      await recordExtraction(
+        { ...image, modelId },
+        { status: "success", model: modelId, usage: result.usage, spent },
+        context
+      );
+      const config = MODELS.find((m) => m.id === modelId)!;
+      return {
+        model: modelId,
+        status: "success" as const,
+        ...result,
+        cost: calculateCost(
+          config,
+          result.usage.promptTokens,
+          result.usage.completionTokens
+        ),
+      };
+    })
+  );
+
+  return NextResponse.json(
+    { results },
+    { headers: rateLimitHeaders(rateLimit) }
+  );
+}
@@ -4,10 +4,16 @@ import { useState, useCallback, useRef, useEffect } from "react";
 import Image from "next/image";
 import {
   MODELS,
-  PROVIDER_COLORS,
+  providerColor,
   calculateCost,
-  formatCost,
+  isExtractable,
+  type ModelConfig,
 } from "@/lib/models";
+import {
+  buildRegistry,
+  loadCustomModels,
+  saveCustomModels,
+} from "@/lib/model-registry";
 import {
   Upload,
   X,
@@ -18,46 +24,181 @@ import {
   Sparkles,
   ChevronDown,
   ChevronUp,
-  Calculator,
   RotateCcw,
+  History,
+  Link2,
+  Settings2,
+  Route,
+  BookMarked,
 } from "lucide-react";
-import { type MetadataResult, DEFAULT_PROMPT } from "./api/extract/route";
+import {
+  DEFAULT_PROMPT,
+  PRESET_PROMPTS,
+  findPromptRef,
+  findVersion,
+  loadPromptLibrary,
+  missingVariables,
+  renderPrompt,
+  savePromptLibrary,
+  templateVariables,
+  type PromptRef,
+  type SavedPrompt,
+} from "@/lib/prompts";
+import {
+  DEFAULT_FIELDS,
+  fieldsToJsonSchema,
+  validateFields,
+  type MetadataResult,
+  type SchemaField,
+} from "@/lib/schema";
+import { hashImage } from "@/lib/hash";
+import { DEFAULT_PREPROCESS, type PreprocessOptions } from "@/lib/preprocess";
+import {
+  deleteRun,
+  getImage,
+  listRuns,
+  saveRun,
+  type HistoryEntry,
+  type HistoryRun,
+} from "@/lib/history";
+import {
+  deleteGroundTruth,
+  loadGroundTruth,
+  saveGroundTruth,
+  scoreAgainstGroundTruth,
+  type GroundTruth,
+} from "@/lib/ground-truth";
+import {
+  errorState,
+  extractWithModels,
+  type ExtractionResult,
+  type ModelExtractionState,
+} from "@/lib/extract-client";
+import { toShareRequest } from "@/lib/share";
 import { CrafterStationLogo } from "@/components/logos/crafter-station";
+import { SchemaBuilder } from "@/components/schema-builder";
+import { ConsensusPanel } from "@/components/consensus-panel";
+import {
+  GroundTruthPanel,
+  type GroundTruthDraft,
+} from "@/components/ground-truth-panel";
+import { HistorySidebar } from "@/components/history-sidebar";
+import { ResultCard } from "@/components/result-card";
+import { CostProjection } from "@/components/cost-projection";
+import { RunDiff } from "@/components/run-diff";
+import { ExperimentResults, PromptVariants } from "@/components/experiment";
+import { ConsistencyPanel } from "@/components/consistency-panel";
+import { ExportBar } from "@/components/export-bar";
+import { ShareButton } from "@/components/share-button";
+import { ModelRegistryEditor } from "@/components/model-registry";
+import { FallbackChainsEditor } from "@/components/fallback-chains";
+import {
+  PromptLibrary,
+  describePromptRef,
+} from "@/components/prompt-library";
+import {
+  PreprocessSettings,
+  describePreprocess,
+} from "@/components/preprocess-settings";
+import { BatchDropzone } from "@/components/batch-dropzone";
+import { BatchResults } from "@/components/batch-results";
+import {
+  CONCURRENCY_OPTIONS,
+  DEFAULT_CONCURRENCY,
+  MAX_BATCH_IMAGES,
+  runWithConcurrency,
+  type BatchImage,
+  type BatchRuns,
+} from "@/lib/batch";
+import {
+  MAX_TEMPERATURE,
+  REPEAT_OPTIONS,
+  type SampleSet,
+  type SamplingOptions,
+} from "@/lib/consistency";
+import {
+  createVariant,
+  type ExperimentRuns,
+  type PromptVariant,
+} from "@/lib/experiment";
+import {
+  loadFallbackChains,
+  saveFallbackChains,
+  type FallbackChains,
+} from "@/lib/fallbacks";
+import type { SpendCaps } from "@/lib/budget";
+import { preprocessedSize, type ImageSize } from "@/lib/estimate";
+import { CostEstimate } from "@/components/cost-estimate";
+import {
+  ALT_TEXT_FIELDS,
+  altTextLanguageOf,
+  altTextPrompt,
+} from "@/lib/alt-text";
+import { LOCALES, type Locale } from "@/lib/locales";
+import { AltTextReview } from "@/components/alt-text-review";
+import { LocalePicker } from "@/components/locale-picker";
 
-type ExtractionResult = {
-  metadata: MetadataResult;
-  usage: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
-  duration: number;
-  model: string;
-  cost: number;
+const HTTP_URL_PATTERN = /^https?:\/\/\S+$/i;
+const DEFAULT_PROMPT_REF: PromptRef = {
+  promptId: PRESET_PROMPTS[0].id,
+  name: PRESET_PROMPTS[0].name,
+  version: 1,
 };
 
-type ModelExtractionState = {
-  status: "idle" | "loading" | "success" | "error";
-  result?: ExtractionResult;
-  error?: string;
-};
+const MODES = ["single", "batch", "experiment", "alt-text"] as const;
+type Mode = (typeof MODES)[number];
 
-const VOLUME_TIERS = [1, 100, 1_000, 10_000, 100_000] as const;
-
-function formatNumber(n: number): string {
-  return n >= 1000 ? `${(n / 1000).toFixed(0)}K` : `${n}`;
-}
-
-function formatDuration(ms: number): string {
-  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
-}
+type RunPrompt = Pick<
+  HistoryRun,
+  "prompt" | "promptTemplate" | "promptVariables" | "promptRef" | "locales"
+>;
 
 export default function PlaygroundPage() {
   const [file, setFile] = useState<File | null>(null);
+  const [imageUrl, setImageUrl] = useState("");
+  const [urlDraft, setUrlDraft] = useState("");
   const [preview, setPreview] = useState<string>("");
+  const [imageSize, setImageSize] = useState<ImageSize | null>(null);
+  const [spendCaps, setSpendCaps] = useState<SpendCaps | null>(null);
   const [prompt, setPrompt] = useState(DEFAULT_PROMPT);
+  const [promptRef, setPromptRef] = useState<PromptRef | null>(
+    DEFAULT_PROMPT_REF
+  );
+  const [promptValues, setPromptValues] = useState<Record<string, string>>({});
+  const [savedPrompts, setSavedPrompts] = useState<SavedPrompt[]>([]);
+  const [showPromptLibrary, setShowPromptLibrary] = useState(false);
+  const [fields, setFields] = useState<SchemaField[]>(DEFAULT_FIELDS);
+  const [runFields, setRunFields] = useState<SchemaField[]>(DEFAULT_FIELDS);
+  const [runPromptText, setRunPromptText] = useState(DEFAULT_PROMPT);
+  const [altTextLanguage, setAltTextLanguage] = useState<Locale>("en");
+  const [locales, setLocales] = useState<Locale[]>([]);
+  const [runLocales, setRunLocales] = useState<string[]>([]);
+  const [showSchema, setShowSchema] = useState(false);
+  const [showSchemaJson, setShowSchemaJson] = useState(false);
+  const [streaming, setStreaming] = useState(true);
+  const [refreshCache, setRefreshCache] = useState(false);
+  const [repeat, setRepeat] = useState(1);
+  const [temperature, setTemperature] = useState("");
+  const [seed, setSeed] = useState("");
+  const [samples, setSamples] = useState<Record<string, SampleSet>>({});
+  const [isSampling, setIsSampling] = useState(false);
+  const [preprocess, setPreprocess] =
+    useState<PreprocessOptions>(DEFAULT_PREPROCESS);
+  const [showPreprocess, setShowPreprocess] = useState(false);
+  const [imageHash, setImageHash] = useState("");
+  const [groundTruth, setGroundTruth] = useState<GroundTruth | null>(null);
+  const [truthDraft, setTruthDraft] = useState<GroundTruthDraft | null>(null);
+  const [historyRuns, setHistoryRuns] = useState<HistoryRun[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [compareRuns, setCompareRuns] = useState<
+    [HistoryRun, HistoryRun] | null
+  >(null);
+  const [customModels, setCustomModels] = useState<ModelConfig[]>([]);
+  const [showRegistry, setShowRegistry] = useState(false);
+  const [fallbackChains, setFallbackChains] = useState<FallbackChains>({});
+  const [showFallbacks, setShowFallbacks] = useState(false);
   const [selectedModels, setSelectedModels] = useState<Set<string>>(
-    new Set(MODELS.map((m) => m.id))
+    new Set(MODELS.filter(isExtractable).map((m) => m.id))
   );
   const [extractions, setExtractions] = useState<
     Record<string, ModelExtractionState>
@@ -66,6 +207,121 @@ export default function PlaygroundPage() {
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   const [jsonViewCards, setJsonViewCards] = useState<Set<string>>(new Set());
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<Mode>("single");
+  const [batchImages, setBatchImages] = useState<BatchImage[]>([]);
+  const [batchRuns, setBatchRuns] = useState<BatchRuns>({});
+  const [batchModelIds, setBatchModelIds] = useState<string[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [variants, setVariants] = useState<PromptVariant[]>([]);
+  const [experimentRuns, setExperimentRuns] = useState<ExperimentRuns>({});
+  const [experimentModelIds, setExperimentModelIds] = useState<string[]>([]);
+  const [isExperimentRunning, setIsExperimentRunning] = useState(false);
+
+  useEffect(() => {
+    setCustomModels(loadCustomModels());
+    setSavedPrompts(loadPromptLibrary());
+    setFallbackChains(loadFallbackChains());
+    fetch("/api/budget")
+      .then((res) => res.json())
+      .then(setSpendCaps)
+      .catch(() => {});
+  }, []);
+
+  const models = buildRegistry(customModels);
+  const extractableModels = models.filter(isExtractable);
+  const runnableModels = extractableModels.filter((m) =>
+    selectedModels.has(m.id)
+  );
+
+  /** Configured fallbacks for a model, skipping ones no longer runnable. */
+  const fallbacksFor = (model: ModelConfig) =>
+    (fallbackChains[model.id] ?? []).flatMap((id) =>
+      extractableModels.filter((m) => m.id === id)
+    );
+
+  const fallbackMap = (selected: ModelConfig[]) =>
+    Object.fromEntries(selected.map((m) => [m.id, fallbacksFor(m)]));
+
+  const updateFallbackChains = (next: FallbackChains) => {
+    saveFallbackChains(next);
+    setFallbackChains(next);
+  };
+
+  const updateCustomModels = (next: ModelConfig[]) => {
+    const added = next.filter(
+      (m) => !models.some((existing) => existing.id === m.id)
+    );
+    saveCustomModels(next);
+    setCustomModels(next);
+    if (added.length > 0) {
+      setSelectedModels((prev) => new Set([...prev, ...added.map((m) => m.id)]));
+    }
+  };
+
+  const promptLibrary = [...PRESET_PROMPTS, ...savedPrompts];
+  const loadedVersion = promptRef && findVersion(promptLibrary, promptRef);
+  const promptEdited = !loadedVersion || loadedVersion.text !== prompt;
+  // Alt-text mode runs its own prompt and schema on a single image
+  const singleImage = mode === "single" || mode === "alt-text";
+  const activeFields = mode === "alt-text" ? ALT_TEXT_FIELDS : fields;
+  // Experiments share one form for the variables of every variant
+  const promptTemplate =
+    mode === "experiment"
+      ? variants.map((v) => v.prompt).join("\n")
+      : mode === "alt-text"
+        ? ""
+        : prompt;
+  const promptVariables = templateVariables(promptTemplate);
+  const missingPromptValues = missingVariables(promptTemplate, promptValues);
+  const promptError =
+    missingPromptValues.length > 0
+      ? `Fill in ${missingPromptValues.map((v) => `{{${v}}}`).join(", ")}`
+      : null;
+
+  const loadPrompt = (ref: PromptRef, text: string) => {
+    setPromptRef(ref);
+    setPrompt(text);
+  };
+
+  const savePrompt = (saved: SavedPrompt) => {
+    const next = savedPrompts.some((p) => p.id === saved.id)
+      ? savedPrompts.map((p) => (p.id === saved.id ? saved : p))
+      : [...savedPrompts, saved];
+    savePromptLibrary(next);
+    setSavedPrompts(next);
+  };
+
+  const deletePrompt = (id: string) => {
+    const next = savedPrompts.filter((p) => p.id !== id);
+    savePromptLibrary(next);
+    setSavedPrompts(next);
+    if (promptRef?.promptId === id) setPromptRef(null);
+  };
+
+  /** The prompt as sent plus what it was built from, for history. */
+  const runPrompt = (text: string, ref: PromptRef | null): RunPrompt => {
+    const names = templateVariables(text);
+    const values = Object.fromEntries(
+      names.map((name) => [name, promptValues[name].trim()])
+    );
+    return {
+      prompt: renderPrompt(text, values),
+      ...(names.length > 0 && {
+        promptTemplate: text,
+        promptVariables: values,
+      }),
+      ...(ref && { promptRef: ref }),
+      ...(locales.length > 0 && { locales }),
+    };
+  };
+
+  const changeMode = (next: typeof mode) => {
+    if (next === "experiment" && variants.length === 0) {
+      setVariants([createVariant(prompt), createVariant(prompt)]);
+    }
+    setMode(next);
+  };
 
   // Load sample image on mount
   useEffect(() => {
@@ -79,19 +335,169 @@ export default function PlaygroundPage() {
       .catch(() => {});
   }, []);
 
+  // Either an uploaded file or a remote URL the server fetches
+  const image: File | string | null = file ?? (imageUrl || null);
+
+  // Ground truth is keyed by the image content, so it survives re-uploads
+  useEffect(() => {
+    if (!image) return;
+    let cancelled = false;
+    hashImage(image).then((hash) => {
+      if (cancelled) return;
+      setImageHash(hash);
+      setGroundTruth(loadGroundTruth(hash));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  const saveTruth = (metadata: MetadataResult, sourceModel?: string) => {
+    if (!imageHash) return;
+    const truth: GroundTruth = {
+      imageHash,
+      metadata,
+      sourceModel,
+      updatedAt: Date.now(),
+    };
+    saveGroundTruth(truth);
+    setGroundTruth(truth);
+    setTruthDraft(null);
+  };
+
+  const deleteTruth = () => {
+    if (!imageHash) return;
+    deleteGroundTruth(imageHash);
+    setGroundTruth(null);
+  };
+
+  useEffect(() => {
+    listRuns()
+      .then(setHistoryRuns)
+      .catch(() => {});
+  }, []);
+
+  const recordRun = async (
+    runImage: File | string,
+    runPrompt: RunPrompt,
+    runSchema: SchemaField[],
+    entries: HistoryEntry[]
+  ) => {
+    const isUrl = typeof runImage === "string";
+    try {
+      await saveRun(
+        {
+          id: crypto.randomUUID(),
+          imageHash: await hashImage(runImage),
+          imageName: isUrl ? runImage : runImage.name,
+          ...(isUrl && { imageUrl: runImage }),
+          ...runPrompt,
+          fields: runSchema,
+          entries,
+          createdAt: Date.now(),
+        },
+        isUrl ? undefined : runImage
+      );
+      setHistoryRuns(await listRuns());
+    } catch {
+      // History is best-effort (e.g. IndexedDB unavailable in private mode)
+    }
+  };
+
+  const openRun = async (run: HistoryRun) => {
+    if (preview.startsWith("blob:")) URL.revokeObjectURL(preview);
+    if (run.imageUrl) {
+      setFile(null);
+      setImageUrl(run.imageUrl);
+      setPreview(run.imageUrl);
+    } else {
+      const blob = await getImage(run.imageHash).catch(() => null);
+      if (!blob) return;
+
+      const f = new File([blob], run.imageName, { type: blob.type });
+      setFile(f);
+      setImageUrl("");
+      setPreview(URL.createObjectURL(f));
+    }
+    setImageHash("");
+    setGroundTruth(null);
+    setTruthDraft(null);
+    // Alt-text runs reopen in their mode, leaving the prompt and schema be
+    const altTextRun = altTextLanguageOf(run.prompt);
+    if (altTextRun) {
+      setMode("alt-text");
+      setAltTextLanguage(altTextRun);
+    } else {
+      setMode("single");
+      setPrompt(run.promptTemplate ?? run.prompt);
+      setPromptValues((prev) => ({ ...prev, ...run.promptVariables }));
+      setPromptRef(run.promptRef ?? null);
+      setFields(run.fields);
+      setLocales((run.locales ?? []) as Locale[]);
+    }
+    setRunPromptText(run.prompt);
+    setRunLocales(run.locales ?? []);
+    setRunFields(run.fields);
+    setSelectedModels(new Set(run.entries.map((e) => e.modelId)));
+    setExtractions(
+      Object.fromEntries(
+        run.entries.map(({ modelId, ...state }) => [modelId, state])
+      )
+    );
+    setSamples({});
+    setExpandedCards(new Set());
+    setJsonViewCards(new Set());
+    setShowHistory(false);
+  };
+
+  const removeRun = async (id: string) => {
+    await deleteRun(id).catch(() => {});
+    setHistoryRuns(await listRuns().catch(() => []));
+    setCompareRuns((prev) =>
+      prev && prev.some((r) => r.id === id) ? null : prev
+    );
+  };
+
   const handleFile = useCallback((f: File) => {
     setFile(f);
+    setImageUrl("");
     setPreview(URL.createObjectURL(f));
+    setImageHash("");
+    setGroundTruth(null);
+    setTruthDraft(null);
     setExtractions({});
+    setSamples({});
     setExpandedCards(new Set());
     setJsonViewCards(new Set());
   }, []);
 
+  const loadUrl = () => {
+    const url = urlDraft.trim();
+    if (!HTTP_URL_PATTERN.test(url)) return;
+    setFile(null);
+    setImageUrl(url);
+    setPreview(url);
+    setUrlDraft("");
+    setImageHash("");
+    setGroundTruth(null);
+    setTruthDraft(null);
+    setExtractions({});
+    setSamples({});
+    setExpandedCards(new Set());
+    setJsonViewCards(new Set());
+  };
+
   const clearFile = useCallback(() => {
     setFile(null);
+    setImageUrl("");
     if (preview && preview.startsWith("blob:")) URL.revokeObjectURL(preview);
     setPreview("");
+    setImageSize(null);
+    setImageHash("");
+    setGroundTruth(null);
+    setTruthDraft(null);
     setExtractions({});
+    setSamples({});
     setExpandedCards(new Set());
     setJsonViewCards(new Set());
   }, [preview]);
@@ -133,65 +539,326 @@ export default function PlaygroundPage() {
     });
   };
 
+  const schemaError = validateFields(activeFields);
+
   const extractAll = async () => {
-    if (!file || selectedModels.size === 0) return;
+    if (!image || runnableModels.length === 0 || schemaError || promptError)
+      return;
 
     const initial: Record<string, ModelExtractionState> = {};
-    selectedModels.forEach((id) => {
-      initial[id] = { status: "loading" };
+    runnableModels.forEach((m) => {
+      initial[m.id] = { status: "loading" };
     });
     setExtractions(initial);
+    setSamples({});
+    setRunFields(activeFields);
     setExpandedCards(new Set());
     setJsonViewCards(new Set());
+    setIsSampling(repeat > 1);
 
-    const promises = Array.from(selectedModels).map(async (modelId) => {
-      try {
-        const formData = new FormData();
-        formData.append("image", file);
-        formData.append("model", modelId);
-        formData.append("prompt", prompt);
-
-        const res = await fetch("/api/extract", {
-          method: "POST",
-          body: formData,
-        });
-
-        if (!res.ok) {
-          const err = await res.json();
-          throw new Error(err.error || `HTTP ${res.status}`);
-        }
+    const schema = fieldsToJsonSchema(activeFields);
+    const sent =
+      mode === "alt-text"
+        ? { prompt: altTextPrompt(altTextLanguage) }
+        : runPrompt(prompt, promptEdited ? null : promptRef);
+    setRunPromptText(sent.prompt);
+    setRunLocales(sent.locales ?? []);
+    const sampling: SamplingOptions = {
+      ...(temperature !== "" && { temperature: Number(temperature) }),
+      ...(seed !== "" && { seed: Number(seed) }),
+    };
+    const shared = {
+      image,
+      prompt: sent.prompt,
+      schema,
+      preprocess,
+      sampling,
+      locales: sent.locales,
+    };
+    const entries: HistoryEntry[] = [];
+    const firsts: Record<string, ExtractionResult | undefined> = {};
 
-        const data = await res.json();
-        const config = MODELS.find((m) => m.id === modelId)!;
-        const cost = calculateCost(
-          config,
-          data.usage.promptTokens,
-          data.usage.completionTokens
+    // The cards show the first sample; the rest only feed the stability
+    // report. Repeats go out in rounds of one request for every model that
+    // still needs a sample. Samples must reach the model itself: a cache
+    // hit or a fallback's answer says nothing about its consistency, so
+    // such first results are re-run
+    const sampleModels = async () => {
+      const sets: Record<string, SampleSet> = {};
+      const remaining: Record<string, number> = {};
+      for (const model of runnableModels) {
+        const first = firsts[model.id];
+        const fresh =
+          first && first.model === model.id && first.cachedAt === undefined;
+        sets[model.id] = {
+          results: fresh ? [first] : [],
+          failed: first ? 0 : 1,
+        };
+        remaining[model.id] = first && !fresh ? repeat : repeat - 1;
+      }
+      const publish = () =>
+        setSamples(
+          Object.fromEntries(
+            Object.entries(sets).map(([id, set]) => [
+              id,
+              { results: [...set.results], failed: set.failed },
+            ])
+          )
         );
+      publish();
 
-        setExtractions((prev) => ({
-          ...prev,
-          [modelId]: { status: "success", result: { ...data, cost } },
-        }));
+      let due = runnableModels.filter((m) => remaining[m.id] > 0);
+      while (due.length > 0) {
+        due.forEach((m) => remaining[m.id]--);
+        try {
+          await extractWithModels(
+            { ...shared, models: due, refresh: true },
+            {
+              onResult: (modelId, result) => {
+                sets[modelId].results.push(result);
+                publish();
+              },
+              onError: (modelId) => {
+                sets[modelId].failed++;
+                publish();
+              },
+            }
+          );
+        } catch {
+          // A rejected round, e.g. by the rate limit, ends the sampling
+          due.forEach((m) => (sets[m.id].failed += remaining[m.id] + 1));
+          publish();
+          break;
+        }
+        due = due.filter((m) => remaining[m.id] > 0);
+      }
+    };
+
+    const finish = (modelId: string, state: Omit<HistoryEntry, "modelId">) => {
+      entries.push({ modelId, ...state });
+      setExtractions((prev) => ({ ...prev, [modelId]: state }));
+      firsts[modelId] = state.result;
+    };
+
+    // One upload for every model; results arrive as each one finishes
+    try {
+      await extractWithModels(
+        {
+          ...shared,
+          models: runnableModels,
+          refresh: refreshCache,
+          fallbacks: fallbackMap(runnableModels),
+        },
+        {
+          onPartial: streaming
+            ? (modelId, partial) =>
+                setExtractions((prev) => ({
+                  ...prev,
+                  [modelId]: { status: "loading", partial },
+                }))
+            : undefined,
+          onResult: (modelId, result) =>
+            finish(modelId, { status: "success", result }),
+          onError: (modelId, err) => finish(modelId, errorState(err)),
+        }
+      );
+    } catch (err: unknown) {
+      // The whole request was rejected, e.g. by the rate limit
+      runnableModels.forEach((m) => finish(m.id, errorState(err)));
+    }
+
+    if (repeat > 1) await sampleModels();
+    setIsSampling(false);
+    await recordRun(image, sent, activeFields, entries);
+  };
+
+  const addBatchFiles = useCallback((files: File[]) => {
+    setBatchImages((prev) =>
+      [
+        ...prev,
+        ...files.map((f) => ({ id: crypto.randomUUID(), file: f })),
+      ].slice(0, MAX_BATCH_IMAGES)
+    );
+  }, []);
+
+  const clearBatch = useCallback(() => {
+    setBatchImages([]);
+    setBatchRuns({});
+  }, []);
+
+  const setBatchCell = (
+    imageId: string,
+    modelId: string,
+    state: ModelExtractionState
+  ) => {
+    setBatchRuns((prev) => ({
+      ...prev,
+      [imageId]: { ...prev[imageId], [modelId]: state },
+    }));
+  };
+
+  const runBatch = async () => {
+    if (
+      batchImages.length === 0 ||
+      runnableModels.length === 0 ||
+      schemaError ||
+      promptError
+    )
+      return;
+
+    const modelIds = runnableModels.map((m) => m.id);
+    const initial: BatchRuns = {};
+    for (const img of batchImages) {
+      initial[img.id] = Object.fromEntries(
+        modelIds.map((id) => [id, { status: "idle" as const }])
+      );
+    }
+    setBatchRuns(initial);
+    setBatchModelIds(modelIds);
+    setRunFields(fields);
+    setIsBatchRunning(true);
+
+    const schema = fieldsToJsonSchema(fields);
+    const sent = runPrompt(prompt, promptEdited ? null : promptRef);
+    // Each image is one request across every model, and its own history run
+    const tasks = batchImages.map((img) => async () => {
+      const row: HistoryEntry[] = [];
+      const finish = (
+        modelId: string,
+        state: Omit<HistoryEntry, "modelId">
+      ) => {
+        row.push({ modelId, ...state });
+        setBatchCell(img.id, modelId, state);
+      };
+      modelIds.forEach((id) => setBatchCell(img.id, id, { status: "loading" }));
+      try {
+        await extractWithModels(
+          {
+            image: img.file,
+            models: runnableModels,
+            prompt: sent.prompt,
+            schema,
+            preprocess,
+            refresh: refreshCache,
+            fallbacks: fallbackMap(runnableModels),
+            locales: sent.locales,
+          },
+          {
+            onResult: (modelId, result) =>
+              finish(modelId, { status: "success", result }),
+            onError: (modelId, err) => finish(modelId, errorState(err)),
+          }
+        );
       } catch (err: unknown) {
-        const message =
-          err instanceof Error ? err.message : "Unknown error";
-        setExtractions((prev) => ({
-          ...prev,
-          [modelId]: { status: "error", error: message },
-        }));
+        modelIds.forEach((id) => finish(id, errorState(err)));
       }
+      await recordRun(img.file, sent, fields, row);
     });
 
-    await Promise.allSettled(promises);
+    await runWithConcurrency(tasks, concurrency);
+    setIsBatchRunning(false);
+  };
+
+  const setExperimentCell = (
+    variantId: string,
+    modelId: string,
+    state: ModelExtractionState
+  ) => {
+    setExperimentRuns((prev) => ({
+      ...prev,
+      [variantId]: { ...prev[variantId], [modelId]: state },
+    }));
+  };
+
+  /** Every variant against the same image and models; each is its own run. */
+  const runExperiment = async () => {
+    if (!image || runnableModels.length === 0 || schemaError || promptError)
+      return;
+
+    const modelIds = runnableModels.map((m) => m.id);
+    setExperimentRuns(
+      Object.fromEntries(
+        variants.map((v) => [
+          v.id,
+          Object.fromEntries(
+            modelIds.map((id) => [id, { status: "loading" as const }])
+          ),
+        ])
+      )
+    );
+    setExperimentModelIds(modelIds);
+    setRunFields(fields);
+    setIsExperimentRunning(true);
+
+    const schema = fieldsToJsonSchema(fields);
+    await Promise.allSettled(
+      variants.map(async (variant) => {
+        const sent = runPrompt(
+          variant.prompt,
+          findPromptRef(promptLibrary, variant.prompt) ?? null
+        );
+        const entries: HistoryEntry[] = [];
+        const finish = (
+          modelId: string,
+          state: Omit<HistoryEntry, "modelId">
+        ) => {
+          entries.push({ modelId, ...state });
+          setExperimentCell(variant.id, modelId, state);
+        };
+        try {
+          await extractWithModels(
+            {
+              image,
+              models: runnableModels,
+              prompt: sent.prompt,
+              schema,
+              preprocess,
+              refresh: refreshCache,
+              fallbacks: fallbackMap(runnableModels),
+              locales: sent.locales,
+            },
+            {
+              onResult: (modelId, result) =>
+                finish(modelId, { status: "success", result }),
+              onError: (modelId, err) => finish(modelId, errorState(err)),
+            }
+          );
+        } catch (err: unknown) {
+          modelIds.forEach((id) => finish(id, errorState(err)));
+        }
+        await recordRun(image, sent, fields, entries);
+      })
+    );
+    setIsExperimentRunning(false);
   };
 
   const isExtracting = Object.values(extractions).some(
     (e) => e.status === "loading"
   );
-  const completedResults = Object.entries(extractions)
-    .filter(([, e]) => e.status === "success" && e.result)
-    .map(([id, e]) => ({ modelId: id, ...e.result! }));
+  const canExtract =
+    runnableModels.length > 0 &&
+    !schemaError &&
+    !promptError &&
+    (mode === "batch" ? batchImages.length > 0 : !!image) &&
+    (mode !== "experiment" || variants.every((v) => v.prompt.trim()));
+  const isRunning =
+    isExtracting || isSampling || isBatchRunning || isExperimentRunning;
+  const runAltTextLanguage = altTextLanguageOf(runPromptText);
+  // Costs follow the registry, so pricing edits apply to finished runs too
+  const completedResults = models.flatMap((model) => {
+    const e = extractions[model.id];
+    if (e?.status !== "success" || !e.result) return [];
+    const { promptTokens, completionTokens } = e.result.usage;
+    // A fallback's answer is priced as the fallback
+    const answered = models.find((m) => m.id === e.result!.model) ?? model;
+    return [
+      {
+        modelId: model.id,
+        ...e.result,
+        cost: calculateCost(answered, promptTokens, completionTokens),
+      },
+    ];
+  });
 
   const cheapestCost =
     completedResults.length > 0
@@ -227,6 +894,18 @@ export default function PlaygroundPage() {
               className="h-5 opacity-60 hover:opacity-100 transition-opacity invert"
             />
           </a>
+          <button
+            onClick={() => setShowHistory(true)}
+            className="ml-auto flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <History className="w-3.5 h-3.5" />
+            History
+            {historyRuns.length > 0 && (
+              <span className="font-mono text-muted-foreground/50">
+                {historyRuns.length}
+              </span>
+            )}
+          </button>
         </div>
         <h1 className="text-5xl sm:text-7xl font-black tracking-tighter mb-4 leading-[0.9]">
           Meta<br />Playground
@@ -241,52 +920,121 @@ export default function PlaygroundPage() {
       <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 mb-8">
         {/* Upload Zone */}
         <div className="lg:col-span-2">
-          <label className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground mb-3 block">
-            Image
-          </label>
+          <div className="flex items-center justify-between mb-3">
+            <label className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+              {mode === "batch" ? "Images" : "Image"}
+            </label>
+            <div className="flex items-center gap-3">
+              {mode === "batch" && (
+                <label className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                  Concurrency
+                  <select
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(Number(e.target.value))}
+                    disabled={isBatchRunning}
+                    className="border border-border bg-card px-1 py-0.5 font-mono text-[10px] focus:outline-none"
+                  >
+                    {CONCURRENCY_OPTIONS.map((n) => (
+                      <option key={n} value={n}>
+                        {n}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <div className="flex items-center gap-0 border border-border">
+                {MODES.map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => changeMode(m)}
+                    disabled={isRunning}
+                    className={`px-2 py-0.5 text-[10px] font-medium capitalize transition-colors ${
+                      mode === m
+                        ? "bg-foreground text-background"
+                        : "text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {m.replace("-", " ")}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
 
-          {!file ? (
-            <div
-              onDrop={handleDrop}
-              onDragOver={(e) => {
-                e.preventDefault();
-                setIsDragging(true);
-              }}
-              onDragLeave={() => setIsDragging(false)}
-              onClick={() => fileInputRef.current?.click()}
-              className={`
-                relative flex flex-col items-center justify-center
-                h-64 border border-dashed cursor-pointer
-                transition-all duration-200
-                ${
-                  isDragging
-                    ? "border-foreground/20 bg-accent"
-                    : "border-border hover:border-foreground/15 hover:bg-accent/50"
-                }
-              `}
-            >
-              <Upload
-                className="w-6 h-6 text-muted-foreground/40 mb-3"
-                strokeWidth={1}
-              />
-              <p className="text-xs text-muted-foreground">
-                Drop an image here or{" "}
-                <span className="underline underline-offset-2">browse</span>
-              </p>
-              <p className="text-[10px] text-muted-foreground/40 mt-1">
-                PNG, JPG, WebP up to 10MB
-              </p>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/*"
-                className="hidden"
-                onChange={(e) => {
-                  const f = e.target.files?.[0];
-                  if (f) handleFile(f);
+          {mode === "batch" ? (
+            <BatchDropzone
+              images={batchImages}
+              onAdd={addBatchFiles}
+              onClear={clearBatch}
+              disabled={isBatchRunning}
+            />
+          ) : !image ? (
+            <>
+              <div
+                onDrop={handleDrop}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
                 }}
-              />
-            </div>
+                onDragLeave={() => setIsDragging(false)}
+                onClick={() => fileInputRef.current?.click()}
+                className={`
+                  relative flex flex-col items-center justify-center
+                  h-64 border border-dashed cursor-pointer
+                  transition-all duration-200
+                  ${
+                    isDragging
+                      ? "border-foreground/20 bg-accent"
+                      : "border-border hover:border-foreground/15 hover:bg-accent/50"
+                  }
+                `}
+              >
+                <Upload
+                  className="w-6 h-6 text-muted-foreground/40 mb-3"
+                  strokeWidth={1}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Drop an image here or{" "}
+                  <span className="underline underline-offset-2">browse</span>
+                </p>
+                <p className="text-[10px] text-muted-foreground/40 mt-1">
+                  PNG, JPG, WebP up to 10MB
+                </p>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    if (f) handleFile(f);
+                  }}
+                />
+              </div>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  loadUrl();
+                }}
+                className="flex items-center gap-2 mt-2 border border-border bg-card px-3 py-1.5"
+              >
+                <Link2 className="w-3 h-3 text-muted-foreground/60 flex-shrink-0" />
+                <input
+                  type="url"
+                  value={urlDraft}
+                  onChange={(e) => setUrlDraft(e.target.value)}
+                  placeholder="or paste an image URL"
+                  className="flex-1 min-w-0 bg-transparent text-xs placeholder:text-muted-foreground/40 focus:outline-none"
+                />
+                <button
+                  type="submit"
+                  disabled={!HTTP_URL_PATTERN.test(urlDraft.trim())}
+                  className="text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+                >
+                  Load
+                </button>
+              </form>
+            </>
           ) : (
             <div className="relative h-64 overflow-hidden border border-border bg-muted/50">
               <Image
@@ -295,6 +1043,12 @@ export default function PlaygroundPage() {
                 fill
                 className="object-contain"
                 unoptimized
+                onLoad={(e) =>
+                  setImageSize({
+                    width: e.currentTarget.naturalWidth,
+                    height: e.currentTarget.naturalHeight,
+                  })
+                }
               />
               <button
                 onClick={clearFile}
@@ -304,10 +1058,16 @@ export default function PlaygroundPage() {
               </button>
               <div className="absolute bottom-3 left-3 right-3">
                 <div className="px-3 py-1.5 bg-background/80 backdrop-blur-sm border border-border text-[10px] font-mono text-muted-foreground truncate">
-                  {file.name}{" "}
-                  <span className="text-muted-foreground/50">
-                    ({(file.size / 1024).toFixed(0)} KB)
-                  </span>
+                  {file ? (
+                    <>
+                      {file.name}{" "}
+                      <span className="text-muted-foreground/50">
+                        ({(file.size / 1024).toFixed(0)} KB)
+                      </span>
+                    </>
+                  ) : (
+                    <span title={imageUrl}>{imageUrl}</span>
+                  )}
                 </div>
               </div>
             </div>
@@ -320,33 +1080,59 @@ export default function PlaygroundPage() {
             <label className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
               Models
             </label>
-            <button
-              onClick={() => {
-                if (selectedModels.size === MODELS.length) {
-                  setSelectedModels(new Set());
-                } else {
-                  setSelectedModels(new Set(MODELS.map((m) => m.id)));
-                }
-              }}
-              className="text-xs text-muted-foreground hover:text-foreground transition-colors"
-            >
-              {selectedModels.size === MODELS.length
-                ? "Deselect all"
-                : "Select all"}
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowFallbacks((v) => !v)}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                title="Models to try when a selected model fails"
+              >
+                <Route className="w-3 h-3" />
+                {showFallbacks ? "Done" : "Fallbacks"}
+              </button>
+              <button
+                onClick={() => setShowRegistry((v) => !v)}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Settings2 className="w-3 h-3" />
+                {showRegistry ? "Done" : "Manage"}
+              </button>
+              <button
+                onClick={() => {
+                  if (runnableModels.length === extractableModels.length) {
+                    setSelectedModels(new Set());
+                  } else {
+                    setSelectedModels(
+                      new Set(extractableModels.map((m) => m.id))
+                    );
+                  }
+                }}
+                className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {runnableModels.length === extractableModels.length
+                  ? "Deselect all"
+                  : "Select all"}
+              </button>
+            </div>
           </div>
 
           <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-2">
-            {MODELS.map((model) => {
-              const selected = selectedModels.has(model.id);
-              const color = PROVIDER_COLORS[model.provider];
+            {models.map((model) => {
+              const supported = isExtractable(model);
+              const selected = supported && selectedModels.has(model.id);
+              const color = providerColor(model.provider);
               return (
                 <button
                   key={model.id}
                   onClick={() => toggleModel(model.id)}
+                  disabled={!supported}
+                  title={
+                    supported
+                      ? undefined
+                      : "Needs vision and structured output support"
+                  }
                   className={`
                     group flex items-start gap-3 p-3 border text-left
-                    transition-all duration-150
+                    transition-all duration-150 disabled:opacity-40 disabled:cursor-not-allowed
                     ${
                       selected
                         ? "border-foreground/15 bg-card"
@@ -392,21 +1178,241 @@ export default function PlaygroundPage() {
               );
             })}
           </div>
+          {showFallbacks && (
+            <div className="mt-3 border border-border bg-card px-4 py-3 animate-fade-in">
+              <FallbackChainsEditor
+                selected={runnableModels}
+                candidates={extractableModels}
+                chains={fallbackChains}
+                onChange={updateFallbackChains}
+              />
+            </div>
+          )}
+          {showRegistry && (
+            <div className="mt-3 border border-border bg-card px-4 py-3 animate-fade-in">
+              <ModelRegistryEditor
+                models={models}
+                custom={customModels}
+                onChange={updateCustomModels}
+              />
+            </div>
+          )}
           <p className="text-[10px] text-muted-foreground/50 mt-2">
             Cost shown as input/output per 1M tokens (USD)
           </p>
         </div>
       </div>
 
+      {/* Alt Text */}
+      {mode === "alt-text" && (
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+              Alt Text
+            </span>
+            <label className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+              Language
+              <select
+                value={altTextLanguage}
+                onChange={(e) =>
+                  setAltTextLanguage(e.target.value as Locale)
+                }
+                disabled={isRunning}
+                className="border border-border bg-card px-1 py-0.5 font-mono text-[10px] focus:outline-none"
+              >
+                {LOCALES.map((l) => (
+                  <option key={l.code} value={l.code}>
+                    {l.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-muted-foreground border border-border bg-card px-4 py-3">
+            Each model writes short alt text and, for complex images, a long
+            description, decides whether the image is decorative and
+            transcribes any text in it. Results are checked against WCAG
+            1.1.1 and shown as a screen reader would announce them.
+          </p>
+        </div>
+      )}
+
       {/* Prompt */}
-      <div className="mb-6">
+      <div className={`mb-6 ${mode === "alt-text" ? "hidden" : ""}`}>
         <div className="flex items-center justify-between mb-3">
           <label className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
             Prompt
+            <span className="normal-case tracking-normal font-mono text-muted-foreground/50 ml-2">
+              {mode === "experiment"
+                ? `${variants.length} variants · A is the baseline`
+                : describePromptRef(promptRef, promptEdited)}
+            </span>
           </label>
-          {prompt !== DEFAULT_PROMPT && (
+          <div
+            className={`flex items-center gap-3 ${
+              mode === "experiment" ? "hidden" : ""
+            }`}
+          >
             <button
-              onClick={() => setPrompt(DEFAULT_PROMPT)}
+              onClick={() => setShowPromptLibrary((v) => !v)}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <BookMarked className="w-3 h-3" />
+              {showPromptLibrary ? "Hide library" : "Library"}
+            </button>
+            {prompt !== DEFAULT_PROMPT && (
+              <button
+                onClick={() => loadPrompt(DEFAULT_PROMPT_REF, DEFAULT_PROMPT)}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+        {showPromptLibrary && mode !== "experiment" && (
+          <div className="mb-3 border border-border bg-card px-4 py-3 animate-fade-in">
+            <PromptLibrary
+              prompts={promptLibrary}
+              active={promptRef}
+              text={prompt}
+              onUse={loadPrompt}
+              onSave={savePrompt}
+              onDelete={deletePrompt}
+            />
+          </div>
+        )}
+        {mode === "experiment" ? (
+          <PromptVariants
+            variants={variants}
+            onChange={setVariants}
+            disabled={isExperimentRunning}
+          />
+        ) : (
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            rows={3}
+            className="w-full border border-border bg-card px-4 py-3 text-xs leading-relaxed text-card-foreground placeholder:text-muted-foreground/30 focus:outline-none focus:border-foreground/15 resize-y font-mono"
+            placeholder="Describe what metadata to extract from the image..."
+          />
+        )}
+        <div className="mt-2">
+          <LocalePicker
+            locales={locales}
+            onChange={setLocales}
+            disabled={isRunning}
+          />
+        </div>
+        {promptVariables.length > 0 && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-2">
+            {promptVariables.map((name) => (
+              <label
+                key={name}
+                className="flex items-center gap-1.5 text-[10px] font-mono text-muted-foreground"
+              >
+                {`{{${name}}}`}
+                <input
+                  value={promptValues[name] ?? ""}
+                  onChange={(e) =>
+                    setPromptValues((prev) => ({
+                      ...prev,
+                      [name]: e.target.value,
+                    }))
+                  }
+                  className="border border-border bg-card px-2 py-1 text-xs text-card-foreground focus:outline-none focus:border-foreground/15 w-36"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        {promptError && (
+          <p className="flex items-center gap-1 text-[10px] text-red-500/80 mt-2">
+            <AlertCircle className="w-3 h-3" />
+            {promptError}
+          </p>
+        )}
+      </div>
+
+      {/* Schema */}
+      <div className={`mb-6 ${mode === "alt-text" ? "hidden" : ""}`}>
+        <div className="flex items-center justify-between mb-3">
+          <button
+            onClick={() => setShowSchema((v) => !v)}
+            className="flex items-center gap-1 text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {showSchema ? (
+              <ChevronUp className="w-3 h-3" />
+            ) : (
+              <ChevronDown className="w-3 h-3" />
+            )}
+            Schema
+            <span className="normal-case tracking-normal font-mono text-muted-foreground/50 ml-1">
+              {fields.length} field{fields.length === 1 ? "" : "s"}
+            </span>
+          </button>
+          <div className="flex items-center gap-3">
+            {showSchema && (
+              <button
+                onClick={() => setShowSchemaJson((v) => !v)}
+                className="text-xs font-mono text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {showSchemaJson ? "Builder" : "JSON Schema"}
+              </button>
+            )}
+            {fields !== DEFAULT_FIELDS && (
+              <button
+                onClick={() => setFields(DEFAULT_FIELDS)}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+        {showSchema && (
+          <div className="border border-border bg-card px-4 py-3 animate-fade-in">
+            {showSchemaJson ? (
+              <pre className="text-[11px] font-mono leading-relaxed text-card-foreground overflow-x-auto whitespace-pre-wrap break-words max-h-96">
+                <code>
+                  {JSON.stringify(fieldsToJsonSchema(fields), null, 2)}
+                </code>
+              </pre>
+            ) : (
+              <SchemaBuilder fields={fields} onChange={setFields} />
+            )}
+          </div>
+        )}
+        {schemaError && (
+          <p className="flex items-center gap-1 text-[10px] text-red-500/80 mt-2">
+            <AlertCircle className="w-3 h-3" />
+            {schemaError}
+          </p>
+        )}
+      </div>
+
+      {/* Preprocessing */}
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <button
+            onClick={() => setShowPreprocess((v) => !v)}
+            className="flex items-center gap-1 text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {showPreprocess ? (
+              <ChevronUp className="w-3 h-3" />
+            ) : (
+              <ChevronDown className="w-3 h-3" />
+            )}
+            Preprocessing
+            <span className="normal-case tracking-normal font-mono text-muted-foreground/50 ml-1">
+              {describePreprocess(preprocess)}
+            </span>
+          </button>
+          {preprocess !== DEFAULT_PREPROCESS && (
+            <button
+              onClick={() => setPreprocess(DEFAULT_PREPROCESS)}
               className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
             >
               <RotateCcw className="w-3 h-3" />
@@ -414,65 +1420,231 @@ export default function PlaygroundPage() {
             </button>
           )}
         </div>
-        <textarea
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          rows={3}
-          className="w-full border border-border bg-card px-4 py-3 text-xs leading-relaxed text-card-foreground placeholder:text-muted-foreground/30 focus:outline-none focus:border-foreground/15 resize-y font-mono"
-          placeholder="Describe what metadata to extract from the image..."
-        />
+        {showPreprocess && (
+          <div className="border border-border bg-card px-4 py-3 animate-fade-in">
+            <PreprocessSettings
+              options={preprocess}
+              onChange={setPreprocess}
+              disabled={isRunning}
+            />
+            <p className="text-[10px] text-muted-foreground/50 mt-3">
+              Images are resized and re-encoded on the server before reaching
+              the models. Input tokens depend on pixel dimensions, so the max
+              edge drives cost; format and quality mostly shrink the upload.
+            </p>
+          </div>
+        )}
       </div>
 
       {/* Extract Button */}
       <div className="mb-16">
+        <div className="flex flex-wrap items-center justify-end gap-x-4 gap-y-2 mb-3 text-[10px] text-muted-foreground">
+          {singleImage && (
+            <>
+              <label className="flex items-center gap-1.5">
+                Repeat
+                <select
+                  value={repeat}
+                  onChange={(e) => setRepeat(Number(e.target.value))}
+                  disabled={isRunning}
+                  className="border border-border bg-card px-1 py-0.5 font-mono text-[10px] focus:outline-none"
+                >
+                  {REPEAT_OPTIONS.map((n) => (
+                    <option key={n} value={n}>
+                      {n}×
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-1.5">
+                Temperature
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_TEMPERATURE}
+                  step="0.1"
+                  value={temperature}
+                  onChange={(e) => setTemperature(e.target.value)}
+                  disabled={isRunning}
+                  placeholder="default"
+                  className="border border-border bg-card px-1 py-0.5 font-mono text-[10px] w-16 focus:outline-none"
+                />
+              </label>
+              <label className="flex items-center gap-1.5">
+                Seed
+                <input
+                  type="number"
+                  step="1"
+                  value={seed}
+                  onChange={(e) => setSeed(e.target.value)}
+                  disabled={isRunning}
+                  placeholder="none"
+                  className="border border-border bg-card px-1 py-0.5 font-mono text-[10px] w-16 focus:outline-none"
+                />
+              </label>
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={streaming}
+                  onChange={(e) => setStreaming(e.target.checked)}
+                  disabled={isRunning}
+                />
+                Stream partial results
+              </label>
+            </>
+          )}
+          <label
+            className="flex items-center gap-1.5"
+            title="Skip cached responses for identical image, model, prompt and schema"
+          >
+            <input
+              type="checkbox"
+              checked={refreshCache}
+              onChange={(e) => setRefreshCache(e.target.checked)}
+              disabled={isRunning}
+            />
+            Force refresh
+          </label>
+        </div>
+        {mode !== "batch" &&
+          imageSize &&
+          runnableModels.length > 0 &&
+          !schemaError && (
+            <CostEstimate
+              models={runnableModels}
+              size={preprocessedSize(imageSize, preprocess)}
+              prompts={
+                mode === "experiment"
+                  ? variants.map((v) => v.prompt)
+                  : mode === "alt-text"
+                    ? [altTextPrompt(altTextLanguage)]
+                    : [prompt]
+              }
+              schema={fieldsToJsonSchema(activeFields)}
+              repeat={singleImage ? repeat : 1}
+              caps={spendCaps}
+            />
+          )}
         <button
-          onClick={extractAll}
-          disabled={!file || selectedModels.size === 0 || isExtracting}
+          onClick={
+            mode === "batch"
+              ? runBatch
+              : mode === "experiment"
+                ? runExperiment
+                : extractAll
+          }
+          disabled={!canExtract || isRunning}
           className={`
             w-full py-3.5 px-6 text-xs font-semibold uppercase tracking-[0.15em]
             transition-all duration-200 flex items-center justify-center gap-2
             ${
-              !file || selectedModels.size === 0
+              !canExtract
                 ? "bg-muted text-muted-foreground/50 cursor-not-allowed"
-                : isExtracting
+                : isRunning
                   ? "bg-foreground/90 text-background cursor-wait"
                   : "bg-foreground text-background hover:bg-foreground/85 active:scale-[0.99]"
             }
           `}
         >
-          {isExtracting ? (
+          {isRunning ? (
             <>
               <Loader2 className="w-4 h-4 animate-spin" />
-              Extracting with {selectedModels.size} model
-              {selectedModels.size > 1 ? "s" : ""}...
+              Extracting with {runnableModels.length} model
+              {runnableModels.length > 1 ? "s" : ""}...
             </>
           ) : (
             <>
               <Sparkles className="w-4 h-4" />
               Extract Metadata
-              {selectedModels.size > 0 &&
-                ` with ${selectedModels.size} model${selectedModels.size > 1 ? "s" : ""}`}
+              {mode === "batch" &&
+                batchImages.length > 0 &&
+                ` from ${batchImages.length} image${batchImages.length > 1 ? "s" : ""}`}
+              {mode === "experiment" && ` for ${variants.length} variants`}
+              {runnableModels.length > 0 &&
+                ` with ${runnableModels.length} model${runnableModels.length > 1 ? "s" : ""}`}
             </>
           )}
         </button>
       </div>
 
+      {/* Run Diff */}
+      {compareRuns && (
+        <RunDiff
+          key={compareRuns.map((r) => r.id).join(":")}
+          runs={compareRuns}
+          models={models}
+          onClose={() => setCompareRuns(null)}
+        />
+      )}
+
+      {/* Batch Results */}
+      {mode === "batch" && Object.keys(batchRuns).length > 0 && (
+        <BatchResults
+          images={batchImages}
+          runs={batchRuns}
+          models={models.filter((m) => batchModelIds.includes(m.id))}
+          fields={runFields}
+        />
+      )}
+
+      {/* Experiment Results */}
+      {mode === "experiment" && Object.keys(experimentRuns).length > 0 && (
+        <ExperimentResults
+          variants={variants}
+          runs={experimentRuns}
+          models={models.filter((m) => experimentModelIds.includes(m.id))}
+          fields={runFields}
+        />
+      )}
+
       {/* Results */}
-      {Object.keys(extractions).length > 0 && (
+      {singleImage && Object.keys(extractions).length > 0 && (
         <section className="mb-12 animate-fade-in">
-          <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground mb-4">
-            Results
-          </h2>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+              Results
+            </h2>
+            {completedResults.length > 0 && (
+              <div className="flex flex-wrap items-center justify-end gap-3">
+                <ExportBar
+                  results={completedResults}
+                  models={models}
+                  context={{
+                    imageName: file?.name ?? imageUrl,
+                    prompt: runPromptText,
+                    fields: runFields,
+                    locales: runLocales,
+                  }}
+                  image={image}
+                />
+                <span className="w-px h-3 bg-border" />
+                <ShareButton
+                  request={() =>
+                    toShareRequest({
+                      image: image!,
+                      prompt: runPromptText,
+                      fields: runFields,
+                      locales: runLocales,
+                      models,
+                      extractions,
+                    })
+                  }
+                  image={file}
+                  disabled={isRunning || !image}
+                />
+              </div>
+            )}
+          </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
-            {MODELS.filter((m) => extractions[m.id]).map((model) => {
+            {models.filter((m) => extractions[m.id]).map((model) => {
               const state = extractions[model.id];
-              const color = PROVIDER_COLORS[model.provider];
-              const isExpanded = expandedCards.has(model.id);
-              const isJsonView = jsonViewCards.has(model.id);
+              const cost = completedResults.find(
+                (r) => r.modelId === model.id
+              )?.cost;
               const isCheapest =
                 state.status === "success" &&
-                state.result?.cost === cheapestCost &&
+                cost === cheapestCost &&
                 completedResults.length > 1;
               const isFastest =
                 state.status === "success" &&
@@ -480,364 +1652,99 @@ export default function PlaygroundPage() {
                 completedResults.length > 1;
 
               return (
-                <div
+                <ResultCard
                   key={model.id}
-                  className={`
-                    border bg-card overflow-hidden
-                    transition-all duration-300
-                    ${state.status === "success" ? "animate-fade-in" : ""}
-                    ${state.status === "error" ? "border-red-500/20" : "border-border"}
-                  `}
-                >
-                  {/* Card Header */}
-                  <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
-                    <span
-                      className="w-2 h-2 rounded-full flex-shrink-0"
-                      style={{ backgroundColor: color }}
-                    />
-                    <span className="text-sm font-medium">{model.name}</span>
-
-                    {/* Formatted / JSON tabs */}
-                    {state.status === "success" && (
-                      <div className="flex items-center gap-0 ml-auto mr-2 border border-border">
-                        <button
-                          onClick={() => {
-                            if (isJsonView) toggleJsonView(model.id);
-                          }}
-                          className={`px-2 py-0.5 text-[10px] font-medium transition-colors ${
-                            !isJsonView
-                              ? "bg-foreground text-background"
-                              : "text-muted-foreground hover:text-foreground"
-                          }`}
-                        >
-                          Formatted
-                        </button>
-                        <button
-                          onClick={() => {
-                            if (!isJsonView) toggleJsonView(model.id);
-                          }}
-                          className={`px-2 py-0.5 text-[10px] font-mono font-medium transition-colors ${
-                            isJsonView
-                              ? "bg-foreground text-background"
-                              : "text-muted-foreground hover:text-foreground"
-                          }`}
-                        >
-                          JSON
-                        </button>
-                      </div>
-                    )}
-
-                    <span className={`text-xs text-muted-foreground font-mono flex items-center ${state.status !== "success" ? "ml-auto" : ""}`}>
-                      {state.status === "loading" && (
-                        <Loader2 className="w-3 h-3 animate-spin" />
-                      )}
-                      {state.status === "success" &&
-                        formatDuration(state.result!.duration)}
-                      {state.status === "error" && (
-                        <AlertCircle className="w-3 h-3 text-red-500" />
-                      )}
-                    </span>
-                  </div>
-
-                  {/* Card Body */}
-                  <div className="p-4">
-                    {state.status === "loading" && (
-                      <div className="space-y-3">
-                        <div className="h-4 animate-shimmer" />
-                        <div className="h-4 animate-shimmer w-4/5" />
-                        <div className="h-3 animate-shimmer w-3/5" />
-                        <div className="flex gap-1.5 mt-3">
-                          {[1, 2, 3, 4].map((i) => (
-                            <div
-                              key={i}
-                              className="h-5 w-14 animate-shimmer"
-                            />
-                          ))}
-                        </div>
-                      </div>
-                    )}
-
-                    {state.status === "error" && (
-                      <div className="text-sm text-red-500/80">
-                        <p className="font-medium mb-1">Extraction failed</p>
-                        <p className="text-xs font-mono break-all opacity-70">
-                          {state.error}
-                        </p>
-                      </div>
-                    )}
-
-                    {state.status === "success" && state.result && !isJsonView && (
-                      <div className="space-y-3">
-                        {/* Title */}
-                        <h3 className="text-sm font-semibold leading-snug">
-                          {state.result.metadata.title}
-                        </h3>
-
-                        {/* Description */}
-                        <p className="text-xs text-muted-foreground leading-relaxed">
-                          {state.result.metadata.description}
-                        </p>
-
-                        {/* Tags */}
-                        <div className="flex flex-wrap gap-1">
-                          {state.result.metadata.tags
-                            .slice(0, isExpanded ? undefined : 5)
-                            .map((tag) => (
-                              <span
-                                key={tag}
-                                className="px-2 py-0.5 text-[10px] bg-accent text-accent-foreground"
-                              >
-                                {tag}
-                              </span>
-                            ))}
-                          {!isExpanded &&
-                            state.result.metadata.tags.length > 5 && (
-                              <span className="px-2 py-0.5 text-[10px] text-muted-foreground">
-                                +{state.result.metadata.tags.length - 5}
-                              </span>
-                            )}
-                        </div>
-
-                        {/* Colors */}
-                        <div className="flex items-center gap-1.5">
-                          {state.result.metadata.colors.map((c, i) => (
-                            <div
-                              key={i}
-                              title={`${c.name} (${c.hex})`}
-                            >
-                              <div
-                                className="w-5 h-5 rounded-full border border-border"
-                                style={{ backgroundColor: c.hex }}
-                              />
-                            </div>
-                          ))}
-                          <span className="text-[10px] text-muted-foreground ml-1">
-                            {state.result.metadata.mood} ·{" "}
-                            {state.result.metadata.style}
-                          </span>
-                        </div>
-
-                        {/* Expressions & Emotions */}
-                        {(state.result.metadata.expressions ||
-                          state.result.metadata.emotions.length > 0) && (
-                          <div className="space-y-1.5 pt-2 border-t border-border">
-                            {state.result.metadata.expressions && (
-                              <MetaRow label="Expression">
-                                {state.result.metadata.expressions}
-                              </MetaRow>
-                            )}
-                            {state.result.metadata.emotions.length > 0 && (
-                              <div className="flex flex-wrap gap-1">
-                                {state.result.metadata.emotions.map((e) => (
-                                  <span
-                                    key={e}
-                                    className="px-2 py-0.5 text-[10px] bg-emerald-500/10 text-emerald-400"
-                                  >
-                                    {e}
-                                  </span>
-                                ))}
-                              </div>
-                            )}
-                            {state.result.metadata.focusLevel && (
-                              <MetaRow label="Focus">
-                                {state.result.metadata.focusLevel}
-                              </MetaRow>
-                            )}
-                          </div>
-                        )}
-
-                        {/* Expanded Details */}
-                        {isExpanded && (
-                          <div className="space-y-2 pt-2 border-t border-border animate-fade-in">
-                            <MetaRow label="Category">
-                              {state.result.metadata.category}
-                            </MetaRow>
-                            {state.result.metadata.bodyLanguage && (
-                              <MetaRow label="Body language">
-                                {state.result.metadata.bodyLanguage}
-                              </MetaRow>
-                            )}
-                            <MetaRow label="Objects">
-                              {state.result.metadata.objects.join(", ")}
-                            </MetaRow>
-                            {state.result.metadata.textContent && (
-                              <MetaRow label="Text">
-                                {state.result.metadata.textContent}
-                              </MetaRow>
-                            )}
-                            <MetaRow label="Alt text">
-                              {state.result.metadata.altText}
-                            </MetaRow>
-                            <MetaRow label="Tokens">
-                              {state.result.usage.promptTokens.toLocaleString()}{" "}
-                              in /{" "}
-                              {state.result.usage.completionTokens.toLocaleString()}{" "}
-                              out
-                            </MetaRow>
-                          </div>
-                        )}
-
-                        {/* Toggle */}
-                        <button
-                          onClick={() => toggleExpanded(model.id)}
-                          className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground transition-colors"
-                        >
-                          {isExpanded ? (
-                            <>
-                              <ChevronUp className="w-3 h-3" /> Less
-                            </>
-                          ) : (
-                            <>
-                              <ChevronDown className="w-3 h-3" /> More details
-                            </>
-                          )}
-                        </button>
-
-                        {/* Stats Footer */}
-                        <div className="flex items-center gap-3 pt-2 border-t border-border text-[10px] font-mono text-muted-foreground">
-                          <span
-                            className={
-                              isFastest
-                                ? "text-emerald-400"
-                                : ""
-                            }
-                          >
-                            {formatDuration(state.result.duration)}
-                            {isFastest && " (fastest)"}
-                          </span>
-                          <span>
-                            {state.result.usage.totalTokens.toLocaleString()}{" "}
-                            tok
-                          </span>
-                          <span
-                            className={`ml-auto ${
-                              isCheapest
-                                ? "text-emerald-400 font-semibold"
-                                : ""
-                            }`}
-                          >
-                            {formatCost(state.result.cost)}
-                            {isCheapest && " (cheapest)"}
-                          </span>
-                        </div>
-                      </div>
-                    )}
-
-                    {/* JSON View */}
-                    {state.status === "success" && state.result && isJsonView && (
-                      <div className="animate-fade-in">
-                        <pre className="text-[11px] font-mono leading-relaxed text-card-foreground overflow-x-auto whitespace-pre-wrap break-words">
-                          <code>
-                            {JSON.stringify(state.result.metadata, null, 2)}
-                          </code>
-                        </pre>
-                        <div className="flex items-center gap-3 pt-3 mt-3 border-t border-border text-[10px] font-mono text-muted-foreground">
-                          <span>
-                            {formatDuration(state.result.duration)}
-                          </span>
-                          <span>
-                            {state.result.usage.totalTokens.toLocaleString()}{" "}
-                            tok
-                          </span>
-                          <span className="ml-auto">
-                            {formatCost(state.result.cost)}
-                          </span>
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                </div>
+                  model={model}
+                  state={state}
+                  fields={runFields}
+                  locales={runLocales}
+                  cost={cost}
+                  isCheapest={isCheapest}
+                  isFastest={isFastest}
+                  expanded={expandedCards.has(model.id)}
+                  jsonView={jsonViewCards.has(model.id)}
+                  onToggleExpanded={() => toggleExpanded(model.id)}
+                  onToggleJsonView={() => toggleJsonView(model.id)}
+                  onSetTruth={() =>
+                    setTruthDraft({
+                      sourceModel: model.id,
+                      text: JSON.stringify(state.result!.metadata, null, 2),
+                    })
+                  }
+                  truthDisabled={!imageHash}
+                />
               );
             })}
           </div>
         </section>
       )}
 
-      {/* Cost Projection Table */}
-      {completedResults.length > 0 && (
-        <section className="animate-fade-in">
-          <div className="flex items-center gap-2 mb-4">
-            <Calculator className="w-3.5 h-3.5 text-muted-foreground/60" />
-            <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
-              Cost Projection
-            </h2>
-          </div>
+      {/* Accessibility Review */}
+      {singleImage && runAltTextLanguage && completedResults.length > 0 && (
+        <AltTextReview
+          results={completedResults}
+          models={models}
+          language={runAltTextLanguage}
+        />
+      )}
 
-          <div className="border border-border bg-card overflow-x-auto">
-            <table className="w-full text-sm">
-              <thead>
-                <tr className="border-b border-border">
-                  <th className="text-left px-4 py-3 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em]">
-                    Model
-                  </th>
-                  {VOLUME_TIERS.map((vol) => (
-                    <th
-                      key={vol}
-                      className="text-right px-4 py-3 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em] whitespace-nowrap"
-                    >
-                      {vol === 1 ? "1 img" : `${formatNumber(vol)} imgs`}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {completedResults
-                  .sort((a, b) => a.cost - b.cost)
-                  .map((result, idx) => {
-                    const model = MODELS.find(
-                      (m) => m.id === result.modelId
-                    )!;
-                    const color = PROVIDER_COLORS[model.provider];
-                    const isCheapestRow =
-                      idx === 0 && completedResults.length > 1;
-                    return (
-                      <tr
-                        key={result.modelId}
-                        className={`
-                          border-b border-border last:border-0
-                          ${isCheapestRow ? "bg-emerald-500/[0.04]" : ""}
-                        `}
-                      >
-                        <td className="px-4 py-3">
-                          <div className="flex items-center gap-2">
-                            <span
-                              className="w-1.5 h-1.5 rounded-full flex-shrink-0"
-                              style={{ backgroundColor: color }}
-                            />
-                            <span className="font-medium text-sm whitespace-nowrap">
-                              {model.name}
-                            </span>
-                            {isCheapestRow && (
-                              <span className="text-[10px] px-1.5 py-0.5 bg-emerald-500/10 text-emerald-400 whitespace-nowrap">
-                                cheapest
-                              </span>
-                            )}
-                          </div>
-                        </td>
-                        {VOLUME_TIERS.map((vol) => (
-                          <td
-                            key={vol}
-                            className="px-4 py-3 text-right font-mono text-sm tabular-nums whitespace-nowrap"
-                          >
-                            {formatCost(result.cost * vol)}
-                          </td>
-                        ))}
-                      </tr>
-                    );
-                  })}
-              </tbody>
-            </table>
-          </div>
+      {/* Consistency */}
+      {singleImage && Object.keys(samples).length > 0 && (
+        <ConsistencyPanel
+          fields={runFields}
+          samples={samples}
+          models={models}
+          running={isSampling}
+        />
+      )}
 
-          <p className="text-[10px] text-muted-foreground/50 mt-3 text-center">
-            Projections based on actual token usage from the extraction above.
-            Real costs may vary with image size and content complexity.
-          </p>
-        </section>
+      {/* Consensus */}
+      {singleImage && completedResults.length > 1 && (
+        <ConsensusPanel
+          fields={runFields}
+          results={completedResults}
+          models={models}
+        />
+      )}
+
+      {/* Ground Truth */}
+      {singleImage && (completedResults.length > 0 || truthDraft) && (
+        <GroundTruthPanel
+          fields={runFields}
+          truth={groundTruth}
+          draft={truthDraft}
+          results={completedResults}
+          models={models}
+          onDraftChange={setTruthDraft}
+          onSave={saveTruth}
+          onDelete={deleteTruth}
+        />
+      )}
+
+      {/* Cost Projection Table */}
+      {singleImage && completedResults.length > 0 && (
+        <CostProjection
+          results={completedResults}
+          models={models}
+          accuracy={
+            groundTruth
+              ? Object.fromEntries(
+                  completedResults.map((r) => [
+                    r.modelId,
+                    scoreAgainstGroundTruth(
+                      runFields,
+                      r.metadata,
+                      groundTruth.metadata
+                    ).accuracy,
+                  ])
+                )
+              : undefined
+          }
+        />
       )}
 
       {/* Empty State */}
-      {Object.keys(extractions).length === 0 && !file && (
+      {singleImage && Object.keys(extractions).length === 0 && !image && (
         <div className="flex flex-col items-center justify-center py-24 text-center">
           <ImageIcon
             className="w-10 h-10 text-muted-foreground/20 mb-4"
@@ -849,6 +1756,21 @@ export default function PlaygroundPage() {
         </div>
       )}
 
+      {showHistory && (
+        <HistorySidebar
+          runs={historyRuns}
+          models={models}
+          onOpen={openRun}
+          onDelete={removeRun}
+          onCompare={(a, b) => {
+            // Show the older run on the left
+            setCompareRuns(a.createdAt <= b.createdAt ? [a, b] : [b, a]);
+            setShowHistory(false);
+          }}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="mt-20 pb-8 text-center">
         <p className="text-[10px] text-muted-foreground/30 tracking-wide">
@@ -859,18 +1781,3 @@ export default function PlaygroundPage() {
     </main>
   );
 }
-
-function MetaRow({
-  label,
-  children,
-}: {
-  label: string;
-  children: React.ReactNode;
-}) {
-  return (
-    <div className="text-xs">
-      <span className="text-muted-foreground font-medium">{label}: </span>
-      <span className="text-card-foreground">{children}</span>
-    </div>
-  );
-}
@@ -0,0 +1,24 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { loadShare } from "@/lib/share-store";
+import { SharedRun } from "@/components/shared-run";
+
+type Props = { params: Promise<{ id: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const snapshot = await loadShare((await params).id);
+  if (!snapshot) return { title: "Run not found · Metadata Playground" };
+
+  const names = snapshot.models.map((m) => m.name).join(", ");
+  return {
+    title: "Shared run · Metadata Playground",
+    description: `${snapshot.imageName} compared across ${names}.`,
+  };
+}
+
+export default async function SharedRunPage({ params }: Props) {
+  const snapshot = await loadShare((await params).id);
+  if (!snapshot) notFound();
+
+  return <SharedRun snapshot={snapshot} />;
+}
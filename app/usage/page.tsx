@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { parseUsageRange, summarizeUsage, utcDay } from "@/lib/usage";
+import { canViewUsage, loadUsage } from "@/lib/usage-store";
+import { UsageDashboard } from "@/components/usage-dashboard";
+
+export const metadata: Metadata = {
+  title: "Usage · Metadata Playground",
+};
+
+type Props = {
+  searchParams: Promise<{ from?: string; to?: string; token?: string }>;
+};
+
+export default async function UsagePage({ searchParams }: Props) {
+  const { from, to, token } = await searchParams;
+  if (!canViewUsage(token)) notFound();
+
+  const range = parseUsageRange(from, to);
+  const summary = summarizeUsage(await loadUsage(range), range);
+
+  return (
+    <UsageDashboard
+      summary={summary}
+      from={utcDay(range.from)}
+      to={utcDay(range.to - 1)}
+      token={token}
+    />
+  );
+}
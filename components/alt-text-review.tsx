@@ -0,0 +1,148 @@
+"use client";
+
+import { AlertTriangle, Check, Accessibility, Volume2, X } from "lucide-react";
+import { providerColor, type ModelConfig } from "@/lib/models";
+import {
+  checkAltText,
+  readAltText,
+  screenReaderAnnouncement,
+  type AltTextCheck,
+} from "@/lib/alt-text";
+import type { Locale } from "@/lib/locales";
+import type { MetadataResult } from "@/lib/schema";
+
+const CHECK_STYLES: Record<
+  AltTextCheck["status"],
+  { icon: typeof Check; className: string }
+> = {
+  pass: { icon: Check, className: "text-emerald-400" },
+  warn: { icon: AlertTriangle, className: "text-amber-400" },
+  fail: { icon: X, className: "text-red-500/80" },
+};
+
+function speak(lines: string[], language: string) {
+  speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(lines.join(". "));
+  utterance.lang = language;
+  speechSynthesis.speak(utterance);
+}
+
+/**
+ * Each model's alt text side by side: what a screen reader would announce
+ * and the automatic checks it passed.
+ */
+export function AltTextReview({
+  results,
+  models,
+  language,
+}: {
+  results: { modelId: string; metadata: MetadataResult }[];
+  models: ModelConfig[];
+  language: Locale;
+}) {
+  const canSpeak = typeof window !== "undefined" && "speechSynthesis" in window;
+
+  return (
+    <section className="mb-12 animate-fade-in">
+      <div className="flex items-center gap-2 mb-4">
+        <Accessibility className="w-3.5 h-3.5 text-muted-foreground/60" />
+        <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+          Accessibility Review
+        </h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {results.map(({ modelId, metadata }) => {
+          const model = models.find((m) => m.id === modelId);
+          const alt = readAltText(metadata);
+          const checks = checkAltText(alt, language);
+          const announced = screenReaderAnnouncement(alt);
+          const passed = checks.filter((c) => c.status === "pass").length;
+          return (
+            <div key={modelId} className="border border-border bg-card">
+              <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border">
+                <span className="flex items-center gap-2 min-w-0">
+                  <span
+                    className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+                    style={{
+                      backgroundColor: providerColor(
+                        model?.provider ?? modelId
+                      ),
+                    }}
+                  />
+                  <span className="font-medium text-sm truncate">
+                    {model?.name ?? modelId}
+                  </span>
+                </span>
+                <span className="font-mono text-[10px] text-muted-foreground tabular-nums">
+                  {passed}/{checks.length} checks
+                </span>
+              </div>
+
+              <div className="px-4 py-3 border-b border-border">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-[10px] uppercase tracking-[0.2em] text-muted-foreground">
+                    Screen reader
+                  </span>
+                  {canSpeak && announced.length > 0 && (
+                    <button
+                      onClick={() => speak(announced, alt.language ?? language)}
+                      className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                      <Volume2 className="w-3 h-3" />
+                      Listen
+                    </button>
+                  )}
+                </div>
+                <div
+                  lang={alt.language ?? language}
+                  className="bg-foreground/[0.04] px-3 py-2 font-mono text-xs leading-relaxed space-y-1"
+                >
+                  {announced.length === 0 ? (
+                    <p className="text-muted-foreground italic">
+                      Skipped as decorative
+                    </p>
+                  ) : (
+                    announced.map((line, idx) => <p key={idx}>{line}</p>)
+                  )}
+                </div>
+                {alt.textContent && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Text in image:{" "}
+                    <span className="text-foreground">{alt.textContent}</span>
+                  </p>
+                )}
+              </div>
+
+              <ul className="px-4 py-3 space-y-1.5">
+                {checks.map((check) => {
+                  const { icon: Icon, className } = CHECK_STYLES[check.status];
+                  return (
+                    <li key={check.id} className="flex gap-2 text-xs">
+                      <Icon
+                        className={`w-3.5 h-3.5 flex-shrink-0 mt-px ${className}`}
+                      />
+                      <span>
+                        {check.label}
+                        {check.detail && (
+                          <span className="block text-muted-foreground/70">
+                            {check.detail}
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-[10px] text-muted-foreground/50 mt-3 text-center">
+        Automatic checks catch common mistakes against WCAG 1.1.1. Whether alt
+        text fits the image and the page around it still needs a person.
+      </p>
+    </section>
+  );
+}
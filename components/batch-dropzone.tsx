@@ -0,0 +1,166 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { FolderOpen, Loader2, Upload, X } from "lucide-react";
+import {
+  MAX_BATCH_IMAGES,
+  collectDroppedFiles,
+  expandBatchFiles,
+  type BatchImage,
+} from "@/lib/batch";
+
+export function BatchDropzone({
+  images,
+  onAdd,
+  onClear,
+  disabled,
+}: {
+  images: BatchImage[];
+  onAdd: (files: File[]) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = async (files: File[]) => {
+    setIsReading(true);
+    setError("");
+    try {
+      const expanded = await expandBatchFiles(files);
+      if (expanded.length === 0) setError("No images found");
+      else onAdd(expanded);
+    } catch {
+      setError("Could not read the dropped files");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const totalBytes = images.reduce((sum, img) => sum + img.file.size, 0);
+
+  return (
+    <div>
+      <div
+        onDrop={async (e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          if (disabled) return;
+          await addFiles(await collectDroppedFiles(e.dataTransfer));
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        className={`
+          relative flex flex-col h-64 border border-dashed
+          transition-all duration-200
+          ${
+            isDragging
+              ? "border-foreground/20 bg-accent"
+              : "border-border hover:border-foreground/15"
+          }
+        `}
+      >
+        {images.length === 0 ? (
+          <div className="flex flex-col items-center justify-center flex-1">
+            {isReading ? (
+              <Loader2 className="w-6 h-6 text-muted-foreground/40 mb-3 animate-spin" />
+            ) : (
+              <Upload
+                className="w-6 h-6 text-muted-foreground/40 mb-3"
+                strokeWidth={1}
+              />
+            )}
+            <p className="text-xs text-muted-foreground">
+              Drop images, a folder or a ZIP here
+            </p>
+            <div className="flex items-center gap-3 mt-2 text-xs text-muted-foreground">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="underline underline-offset-2 hover:text-foreground"
+              >
+                browse files
+              </button>
+              <button
+                onClick={() => folderInputRef.current?.click()}
+                className="flex items-center gap-1 underline underline-offset-2 hover:text-foreground"
+              >
+                <FolderOpen className="w-3 h-3" />
+                folder
+              </button>
+            </div>
+            <p className="text-[10px] text-muted-foreground/40 mt-1">
+              Up to {MAX_BATCH_IMAGES} images
+            </p>
+          </div>
+        ) : (
+          <>
+            <ul className="flex-1 overflow-y-auto px-3 py-2 space-y-0.5">
+              {images.map((img) => (
+                <li
+                  key={img.id}
+                  className="text-[10px] font-mono text-muted-foreground truncate"
+                >
+                  {img.file.name}
+                </li>
+              ))}
+            </ul>
+            <div className="flex items-center gap-2 px-3 py-2 border-t border-border text-[10px] font-mono text-muted-foreground">
+              <span>
+                {images.length} image{images.length === 1 ? "" : "s"}
+              </span>
+              <span className="text-muted-foreground/50">
+                ({(totalBytes / 1024 / 1024).toFixed(1)} MB)
+              </span>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled}
+                className="ml-auto hover:text-foreground transition-colors disabled:opacity-40"
+              >
+                Add more
+              </button>
+              <button
+                onClick={onClear}
+                disabled={disabled}
+                className="p-1 hover:text-foreground transition-colors disabled:opacity-40"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          </>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,.zip,application/zip"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = "";
+            if (files.length > 0) addFiles(files);
+          }}
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          {...{ webkitdirectory: "" }}
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = "";
+            if (files.length > 0) addFiles(files);
+          }}
+        />
+      </div>
+      {error && <p className="text-[10px] text-red-500/80 mt-2">{error}</p>}
+    </div>
+  );
+}
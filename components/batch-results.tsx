@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import {
+  providerColor,
+  formatCost,
+  formatDuration,
+  type ModelConfig,
+} from "@/lib/models";
+import {
+  aggregateByModel,
+  type BatchImage,
+  type BatchRuns,
+  type ModelAggregate,
+} from "@/lib/batch";
+import type { SchemaField } from "@/lib/schema";
+import { MetadataView } from "@/components/metadata-view";
+
+const FOOTER_ROWS: [string, (a: ModelAggregate) => string][] = [
+  ["Total cost", (a) => formatCost(a.totalCost)],
+  ["Avg cost / img", (a) => formatCost(a.avgCost)],
+  ["Avg latency", (a) => formatDuration(a.avgDuration)],
+  ["Succeeded", (a) => `${a.completed}/${a.completed + a.failed + a.pending}`],
+];
+
+const headerClass =
+  "px-3 py-2 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em] whitespace-nowrap";
+
+export function BatchResults({
+  images,
+  runs,
+  models,
+  fields,
+}: {
+  images: BatchImage[];
+  runs: BatchRuns;
+  models: ModelConfig[];
+  fields: SchemaField[];
+}) {
+  const [selected, setSelected] = useState<{
+    imageId: string;
+    modelId: string;
+  } | null>(null);
+
+  const rows = images.filter((img) => runs[img.id]);
+  const aggregates = aggregateByModel(
+    runs,
+    models.map((m) => m.id)
+  );
+  const total = rows.length * models.length;
+  const done = aggregates.reduce((sum, a) => sum + a.completed + a.failed, 0);
+  const totalCost = aggregates.reduce((sum, a) => sum + a.totalCost, 0);
+  const selectedState = selected
+    ? runs[selected.imageId]?.[selected.modelId]
+    : undefined;
+
+  return (
+    <section className="mb-12 animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+          Batch Results
+        </h2>
+        <span className="text-[10px] font-mono text-muted-foreground">
+          {done}/{total} · {formatCost(totalCost)}
+        </span>
+      </div>
+
+      <div className="h-0.5 bg-muted mb-4">
+        <div
+          className="h-full bg-foreground/60 transition-all duration-300"
+          style={{ width: total > 0 ? `${(done / total) * 100}%` : "0%" }}
+        />
+      </div>
+
+      <div className="border border-border bg-card overflow-x-auto max-h-[32rem] overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-card">
+            <tr className="border-b border-border">
+              <th className={`${headerClass} text-left`}>Image</th>
+              {models.map((model) => (
+                <th key={model.id} className={`${headerClass} text-right`}>
+                  <span className="inline-flex items-center gap-1.5">
+                    <span
+                      className="w-1.5 h-1.5 rounded-full"
+                      style={{
+                        backgroundColor: providerColor(model.provider),
+                      }}
+                    />
+                    {model.name}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((img) => {
+              const row = runs[img.id];
+              const finished = models.filter(
+                (m) =>
+                  row[m.id]?.status === "success" ||
+                  row[m.id]?.status === "error"
+              ).length;
+              return (
+                <tr key={img.id} className="border-b border-border">
+                  <td className="px-3 py-2 max-w-48">
+                    <div className="text-[10px] font-mono truncate">
+                      {img.file.name}
+                    </div>
+                    <div className="text-[10px] font-mono text-muted-foreground/60">
+                      {finished}/{models.length}
+                    </div>
+                  </td>
+                  {models.map((model) => {
+                    const state = row[model.id];
+                    const isSelected =
+                      selected?.imageId === img.id &&
+                      selected?.modelId === model.id;
+                    return (
+                      <td
+                        key={model.id}
+                        onClick={() =>
+                          state?.status === "success" &&
+                          setSelected(
+                            isSelected
+                              ? null
+                              : { imageId: img.id, modelId: model.id }
+                          )
+                        }
+                        className={`
+                          px-3 py-2 text-right font-mono text-[10px] tabular-nums whitespace-nowrap
+                          ${state?.status === "success" ? "cursor-pointer hover:bg-accent/50" : ""}
+                          ${isSelected ? "bg-accent" : ""}
+                        `}
+                      >
+                        {(!state || state.status === "idle") && (
+                          <span className="text-muted-foreground/30">
+                            queued
+                          </span>
+                        )}
+                        {state?.status === "loading" && (
+                          <Loader2 className="w-3 h-3 animate-spin inline" />
+                        )}
+                        {state?.status === "error" && (
+                          <span title={state.error}>
+                            <AlertCircle className="w-3 h-3 text-red-500 inline" />
+                          </span>
+                        )}
+                        {state?.status === "success" && state.result && (
+                          <>
+                            <div>{formatCost(state.result.cost)}</div>
+                            <div className="text-muted-foreground">
+                              {formatDuration(state.result.duration)}
+                            </div>
+                          </>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot className="sticky bottom-0 bg-card">
+            {FOOTER_ROWS.map(([label, format]) => (
+              <tr key={label} className="border-t border-border">
+                <td className="px-3 py-2 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em] whitespace-nowrap">
+                  {label}
+                </td>
+                {aggregates.map((a) => (
+                  <td
+                    key={a.modelId}
+                    className="px-3 py-2 text-right font-mono text-xs tabular-nums whitespace-nowrap"
+                  >
+                    {a.completed > 0 ? format(a) : "—"}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tfoot>
+        </table>
+      </div>
+
+      {selected && selectedState?.result && (
+        <div className="border border-border bg-card p-4 mt-4 animate-fade-in">
+          <div className="text-[10px] font-mono text-muted-foreground mb-3">
+            {images.find((img) => img.id === selected.imageId)?.file.name} ·{" "}
+            {models.find((m) => m.id === selected.modelId)?.name}
+          </div>
+          <MetadataView
+            fields={fields}
+            metadata={selectedState.result.metadata}
+            expanded
+          />
+        </div>
+      )}
+    </section>
+  );
+}
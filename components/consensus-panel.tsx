@@ -0,0 +1,150 @@
+"use client";
+
+import { GitCompare } from "lucide-react";
+import { providerColor, type ModelConfig } from "@/lib/models";
+import { buildConsensus } from "@/lib/consensus";
+import {
+  humanizeFieldName,
+  type MetadataResult,
+  type SchemaField,
+} from "@/lib/schema";
+import { FieldValue } from "@/components/metadata-view";
+
+const headerClass =
+  "px-3 py-2 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em] whitespace-nowrap";
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/** Tints agreement cells from red (0) through neutral to green (1). */
+function agreementColor(value: number): string {
+  return value >= 0.75
+    ? "text-emerald-400"
+    : value >= 0.4
+      ? "text-muted-foreground"
+      : "text-red-500/80";
+}
+
+export function ConsensusPanel({
+  fields,
+  results,
+  models,
+}: {
+  fields: SchemaField[];
+  results: { modelId: string; metadata: MetadataResult }[];
+  models: ModelConfig[];
+}) {
+  const report = buildConsensus(fields, results);
+  const columns = results
+    .map((r) => models.find((m) => m.id === r.modelId))
+    .filter((m): m is ModelConfig => !!m);
+
+  return (
+    <section className="mb-12 animate-fade-in">
+      <div className="flex items-center gap-2 mb-4">
+        <GitCompare className="w-3.5 h-3.5 text-muted-foreground/60" />
+        <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+          Consensus
+        </h2>
+      </div>
+
+      <div className="border border-border bg-card overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border">
+              <th className={`${headerClass} text-left`}>Field</th>
+              <th className={`${headerClass} text-left`}>Consensus</th>
+              <th className={`${headerClass} text-right`}>Confidence</th>
+              {columns.map((model) => {
+                const isOutlier = report.outliers.includes(model.id);
+                return (
+                  <th
+                    key={model.id}
+                    className={`${headerClass} text-right ${isOutlier ? "text-red-500/80" : ""}`}
+                    title={isOutlier ? "Outlier: disagrees with most models" : undefined}
+                  >
+                    <span className="inline-flex items-center gap-1.5">
+                      <span
+                        className="w-1.5 h-1.5 rounded-full"
+                        style={{
+                          backgroundColor: providerColor(model.provider),
+                        }}
+                      />
+                      {model.name}
+                      {isOutlier && " ⚠"}
+                    </span>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {report.fields.map((f) => {
+              const field = fields.find((s) => s.name === f.field)!;
+              return (
+                <tr key={f.field} className="border-b border-border align-top">
+                  <td className="px-3 py-2 text-xs font-medium text-muted-foreground whitespace-nowrap">
+                    {humanizeFieldName(f.field)}
+                    <div className="text-[10px] font-mono text-muted-foreground/50 font-normal">
+                      {f.kind}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 min-w-64">
+                    {f.value === null ? (
+                      <span className="text-xs text-muted-foreground/50">—</span>
+                    ) : (
+                      <FieldValue field={field} value={f.value} expanded />
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right font-mono text-xs tabular-nums whitespace-nowrap">
+                    <span className={agreementColor(f.confidence)}>
+                      {formatPercent(f.confidence)}
+                    </span>
+                    {f.meanDeltaE !== undefined && (
+                      <div className="text-[10px] text-muted-foreground/60">
+                        ΔE {f.meanDeltaE.toFixed(1)}
+                      </div>
+                    )}
+                  </td>
+                  {columns.map((model) => (
+                    <td
+                      key={model.id}
+                      className={`px-3 py-2 text-right font-mono text-xs tabular-nums ${agreementColor(f.perModel[model.id])}`}
+                    >
+                      {formatPercent(f.perModel[model.id])}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr className="border-t border-border">
+              <td
+                colSpan={3}
+                className="px-3 py-2 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em]"
+              >
+                Overall agreement
+              </td>
+              {columns.map((model) => (
+                <td
+                  key={model.id}
+                  className={`px-3 py-2 text-right font-mono text-xs font-semibold tabular-nums ${agreementColor(report.modelScores[model.id])}`}
+                >
+                  {formatPercent(report.modelScores[model.id])}
+                </td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <p className="text-[10px] text-muted-foreground/50 mt-3 text-center">
+        Agreement compares each model with the merged record: votes for short
+        labels, Jaccard overlap for lists, edit similarity for text and ΔE in
+        Lab space for color palettes.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { Loader2, Repeat } from "lucide-react";
+import {
+  providerColor,
+  formatCost,
+  formatDuration,
+  type ModelConfig,
+} from "@/lib/models";
+import {
+  measureConsistency,
+  type FieldStability,
+  type SampleSet,
+} from "@/lib/consistency";
+import { humanizeFieldName, type SchemaField } from "@/lib/schema";
+
+const headerClass =
+  "px-3 py-2 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em] whitespace-nowrap";
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function stabilityColor(value: number): string {
+  return value >= 0.9
+    ? "text-emerald-400"
+    : value >= 0.6
+      ? "text-muted-foreground"
+      : "text-red-500/80";
+}
+
+/** The kind-specific figure under each stability score. */
+function stabilityDetail(f: FieldStability): string {
+  if (f.meanDeltaE !== undefined) return `ΔE ${f.meanDeltaE.toFixed(1)}`;
+  if (f.totalItems !== undefined) {
+    return `${f.stableItems}/${f.totalItems} items kept`;
+  }
+  return `changed ${formatPercent(f.changeRate)}`;
+}
+
+/**
+ * Stability of each model across repeated identical extractions. Scores
+ * are mean pairwise similarity between samples, so 100% means every
+ * sample returned the same value.
+ */
+export function ConsistencyPanel({
+  fields,
+  samples,
+  models,
+  running,
+}: {
+  fields: SchemaField[];
+  samples: Record<string, SampleSet>;
+  models: ModelConfig[];
+  running: boolean;
+}) {
+  const columns = models.filter((m) => samples[m.id]);
+  const reports = Object.fromEntries(
+    columns.map((m) => [m.id, measureConsistency(fields, m.id, samples[m.id])])
+  );
+
+  const footer: [string, (id: string) => string][] = [
+    [
+      "Samples",
+      (id) =>
+        `${reports[id].samples}${reports[id].failed ? ` · ${reports[id].failed} failed` : ""}`,
+    ],
+    [
+      "Latency range",
+      (id) =>
+        `${formatDuration(reports[id].minDuration)}–${formatDuration(reports[id].maxDuration)}`,
+    ],
+    ["Total cost", (id) => formatCost(reports[id].totalCost)],
+    ["Repetition cost", (id) => formatCost(reports[id].repeatCost)],
+  ];
+
+  return (
+    <section className="mb-12 animate-fade-in">
+      <div className="flex items-center gap-2 mb-4">
+        <Repeat className="w-3.5 h-3.5 text-muted-foreground/60" />
+        <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+          Consistency
+        </h2>
+        {running && (
+          <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      <div className="border border-border bg-card overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border">
+              <th className={`${headerClass} text-left`}>Field</th>
+              {columns.map((model) => (
+                <th key={model.id} className={`${headerClass} text-right`}>
+                  <span className="inline-flex items-center gap-1.5">
+                    <span
+                      className="w-1.5 h-1.5 rounded-full"
+                      style={{ backgroundColor: providerColor(model.provider) }}
+                    />
+                    {model.name}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field, i) => (
+              <tr key={field.name} className="border-b border-border align-top">
+                <td className="px-3 py-2 text-xs font-medium text-muted-foreground whitespace-nowrap">
+                  {humanizeFieldName(field.name)}
+                </td>
+                {columns.map((model) => {
+                  const f = reports[model.id].fields[i];
+                  return (
+                    <td
+                      key={model.id}
+                      className="px-3 py-2 text-right font-mono text-xs tabular-nums whitespace-nowrap"
+                    >
+                      <span className={stabilityColor(f.stability)}>
+                        {formatPercent(f.stability)}
+                      </span>
+                      <div className="text-[10px] text-muted-foreground/60">
+                        {stabilityDetail(f)}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t border-border">
+              <td className="px-3 py-2 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em]">
+                Overall stability
+              </td>
+              {columns.map((model) => (
+                <td
+                  key={model.id}
+                  className={`px-3 py-2 text-right font-mono text-xs font-semibold tabular-nums ${stabilityColor(reports[model.id].stability)}`}
+                >
+                  {formatPercent(reports[model.id].stability)}
+                </td>
+              ))}
+            </tr>
+            {footer.map(([label, format]) => (
+              <tr key={label} className="border-t border-border">
+                <td className="px-3 py-2 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em] whitespace-nowrap">
+                  {label}
+                </td>
+                {columns.map((model) => (
+                  <td
+                    key={model.id}
+                    className="px-3 py-2 text-right font-mono text-xs tabular-nums whitespace-nowrap"
+                  >
+                    {format(model.id)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tfoot>
+        </table>
+      </div>
+
+      <p className="text-[10px] text-muted-foreground/50 mt-3 text-center">
+        Each model ran the same image, prompt and schema repeatedly. Stability
+        is the mean similarity between samples; changed is how often a value
+        differs from its most common form.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronUp } from "lucide-react";
+import type { SpendCaps } from "@/lib/budget";
+import { estimateExtraction, type ImageSize } from "@/lib/estimate";
+import { formatCost, providerColor, type ModelConfig } from "@/lib/models";
+import type { ExtractionSchema } from "@/lib/schema";
+
+/**
+ * Pre-flight estimate of what the run will cost, per model and in total,
+ * from the image dimensions the models will see and the prompt length.
+ */
+export function CostEstimate({
+  models,
+  size,
+  prompts,
+  schema,
+  repeat,
+  caps,
+}: {
+  models: ModelConfig[];
+  size: ImageSize;
+  /** One prompt per request, e.g. each experiment variant. */
+  prompts: string[];
+  schema: ExtractionSchema;
+  /** Extractions per model and prompt. */
+  repeat: number;
+  caps: SpendCaps | null;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  if (prompts.length === 0) return null;
+
+  const rows = models.map((model) => {
+    const estimates = prompts.map((p) =>
+      estimateExtraction(model, size, p, schema)
+    );
+    const sum = (pick: (e: (typeof estimates)[number]) => number) =>
+      estimates.reduce((total, e) => total + pick(e), 0);
+    return {
+      model,
+      imageTokens: estimates[0]?.imageTokens ?? 0,
+      inputTokens: sum((e) => e.inputTokens) / prompts.length,
+      outputTokens: sum((e) => e.outputTokens) / prompts.length,
+      cost: sum((e) => e.cost) * repeat,
+    };
+  });
+  const total = rows.reduce((sum, row) => sum + row.cost, 0);
+  // The server caps each request, and a request is one prompt across every
+  // model; repeats are sent as separate requests
+  const perRequest = Math.max(
+    ...prompts.map((p) =>
+      models.reduce(
+        (sum, m) => sum + estimateExtraction(m, size, p, schema).cost,
+        0
+      )
+    )
+  );
+  const overRunCap = caps?.perRun != null && perRequest > caps.perRun;
+
+  return (
+    <div className="mb-3 text-[10px] text-muted-foreground">
+      <button
+        onClick={() => setExpanded((v) => !v)}
+        className="flex items-center gap-1.5 ml-auto hover:text-foreground transition-colors"
+      >
+        {expanded ? (
+          <ChevronUp className="w-3 h-3" />
+        ) : (
+          <ChevronDown className="w-3 h-3" />
+        )}
+        Estimated cost
+        <span className="font-mono text-foreground/80">
+          ~{formatCost(total)}
+        </span>
+        <span className="text-muted-foreground/50">
+          · {size.width}×{size.height}px
+        </span>
+      </button>
+
+      {overRunCap && (
+        <p className="flex items-center justify-end gap-1 mt-1.5 text-amber-500/90">
+          <AlertTriangle className="w-3 h-3" />
+          Each request is estimated at {formatCost(perRequest)}, over the{" "}
+          {formatCost(caps!.perRun!)} per-run cap, and will be rejected.
+        </p>
+      )}
+
+      {expanded && (
+        <div className="mt-2 border border-border bg-card overflow-x-auto animate-fade-in">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border uppercase tracking-[0.15em]">
+                <th className="text-left font-medium px-3 py-2">Model</th>
+                <th className="text-right font-medium px-3 py-2">Image tok</th>
+                <th className="text-right font-medium px-3 py-2">Input tok</th>
+                <th className="text-right font-medium px-3 py-2">Output tok</th>
+                <th className="text-right font-medium px-3 py-2">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono tabular-nums">
+              {rows.map((row) => (
+                <tr
+                  key={row.model.id}
+                  className="border-b border-border last:border-0"
+                >
+                  <td className="px-3 py-1.5 font-sans">
+                    <span className="flex items-center gap-1.5">
+                      <span
+                        className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+                        style={{
+                          backgroundColor: providerColor(row.model.provider),
+                        }}
+                      />
+                      {row.model.name}
+                    </span>
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    {row.imageTokens.toLocaleString()}
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    {Math.round(row.inputTokens).toLocaleString()}
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    {Math.round(row.outputTokens).toLocaleString()}
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    {formatCost(row.cost)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="px-3 py-2 border-t border-border text-muted-foreground/50">
+            Image tokens follow each provider&apos;s sizing rules; text is
+            counted at ~4 characters per token and output is budgeted per field.
+            Cached responses cost nothing.
+            {prompts.length > 1 || repeat > 1
+              ? ` Totals cover ${prompts.length * repeat} extractions per model.`
+              : ""}
+            {caps?.perDay != null &&
+              ` The server caps total spend at ${formatCost(caps.perDay)} a day.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,681 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { Calculator, Plus, X } from "lucide-react";
+import { providerColor, formatCost, type ModelConfig } from "@/lib/models";
+import {
+  BATCH_RATE,
+  CADENCES,
+  DEFAULT_PROJECTION,
+  MAX_STAGES,
+  breakEven,
+  cachedInputRate,
+  defaultScenario,
+  discountedCost,
+  formatVolume,
+  loadProjectionSettings,
+  monthlyCost,
+  monthlyImages,
+  parseVolumes,
+  saveProjectionSettings,
+  scenarioUnitCost,
+  type Cadence,
+  type CostLine,
+  type MeasuredRun,
+  type ProjectionSettings,
+  type Scenario,
+} from "@/lib/projection";
+
+const headerClass =
+  "text-right px-4 py-3 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em] whitespace-nowrap";
+const cellClass =
+  "px-4 py-3 text-right font-mono text-sm tabular-nums whitespace-nowrap";
+const labelClass =
+  "text-[10px] uppercase tracking-[0.2em] text-muted-foreground";
+const inputClass =
+  "border border-border bg-transparent px-2 py-1 font-mono text-xs tabular-nums focus:outline-none focus:border-foreground/30";
+
+const CADENCE_LABELS: Record<Cadence, string> = {
+  once: "One-off",
+  day: "Per day",
+  week: "Per week",
+  month: "Per month",
+};
+
+const CADENCE_SUFFIX: Record<Cadence, string> = {
+  once: "",
+  day: "/day",
+  week: "/wk",
+  month: "/mo",
+};
+
+const SCENARIO_COLORS = ["#34d399", "#60a5fa", "#f472b6", "#fbbf24", "#a78bfa"];
+
+// Settings are shared by every projection on the page and kept in
+// localStorage; the server renders the defaults.
+let _settings: ProjectionSettings | undefined;
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function currentSettings(): ProjectionSettings {
+  return (_settings ??= loadProjectionSettings());
+}
+
+function setSettings(settings: ProjectionSettings): void {
+  saveProjectionSettings(settings);
+  _settings = settings;
+  for (const listener of listeners) listener();
+}
+
+/** Reads a number input, clamped to a range; NaN becomes `min`. */
+function clamp(value: string, min: number, max: number): number {
+  const n = Number(value);
+  return Number.isNaN(n) ? min : Math.min(max, Math.max(min, n));
+}
+
+function VolumeInput({
+  volumes,
+  onChange,
+}: {
+  volumes: number[];
+  onChange: (volumes: number[]) => void;
+}) {
+  const [invalid, setInvalid] = useState(false);
+  return (
+    <label className="flex flex-col gap-1">
+      <span className={labelClass}>Volumes</span>
+      <input
+        key={volumes.join()}
+        defaultValue={volumes.map(formatVolume).join(", ")}
+        onBlur={(e) => {
+          const parsed = parseVolumes(e.target.value);
+          setInvalid(!parsed);
+          if (parsed) onChange(parsed);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        title="Comma-separated image counts, e.g. 500, 2k, 1.5M"
+        className={`${inputClass} w-56 ${invalid ? "border-red-500/50" : ""}`}
+      />
+    </label>
+  );
+}
+
+/**
+ * Monthly cost of each scenario against image volume, on a log scale,
+ * with the points where two scenarios cost the same.
+ */
+function BreakEvenChart({
+  lines,
+  range,
+}: {
+  lines: { scenario: Scenario; line: CostLine; color: string }[];
+  /** Monthly images at the chart's edges. */
+  range: [number, number];
+}) {
+  const width = 600;
+  const height = 200;
+  const [lo, hi] = range[0] < range[1] ? range : [range[0], range[0] * 10];
+  const logLo = Math.log10(lo);
+  const logHi = Math.log10(hi);
+  const maxCost = Math.max(...lines.map(({ line }) => monthlyCost(line, hi)));
+  const x = (images: number) =>
+    ((Math.log10(images) - logLo) / (logHi - logLo)) * width;
+  const y = (cost: number) =>
+    height - (maxCost > 0 ? (cost / maxCost) * height : 0);
+
+  const crossings = lines.flatMap((a, i) =>
+    lines.slice(i + 1).flatMap((b) => {
+      const images = breakEven(a.line, b.line);
+      if (images === null || images < lo || images > hi) return [];
+      const [cheaper, pricier] = a.line.unit < b.line.unit ? [a, b] : [b, a];
+      return [{ images, cost: monthlyCost(a.line, images), cheaper, pricier }];
+    })
+  );
+
+  return (
+    <div className="border border-border bg-card px-4 pt-4 pb-3">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-48 overflow-visible"
+        preserveAspectRatio="none"
+      >
+        {lines.map(({ scenario, line, color }) => (
+          <polyline
+            key={scenario.id}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            points={Array.from({ length: 33 }, (_, i) => {
+              const images = 10 ** (logLo + ((logHi - logLo) * i) / 32);
+              return `${x(images)},${y(monthlyCost(line, images))}`;
+            }).join(" ")}
+          />
+        ))}
+        {crossings.map(({ images, cost }, idx) => (
+          <line
+            key={idx}
+            x1={x(images)}
+            x2={x(images)}
+            y1={0}
+            y2={height}
+            stroke="currentColor"
+            strokeOpacity={0.25}
+            strokeDasharray="4 4"
+            vectorEffect="non-scaling-stroke"
+          >
+            <title>
+              {formatVolume(Math.round(images))} imgs/mo · {formatCost(cost)}
+            </title>
+          </line>
+        ))}
+      </svg>
+      <div className="flex justify-between mt-2 text-[10px] font-mono text-muted-foreground/60">
+        <span>{formatVolume(Math.round(lo))} imgs/mo</span>
+        <span>max {formatCost(maxCost)}/mo</span>
+        <span>{formatVolume(Math.round(hi))} imgs/mo</span>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs">
+        {lines.map(({ scenario, color }) => (
+          <span key={scenario.id} className="flex items-center gap-1.5">
+            <span className="w-2.5 h-0.5" style={{ backgroundColor: color }} />
+            {scenario.name || "Untitled"}
+          </span>
+        ))}
+      </div>
+      <ul className="mt-3 space-y-1 text-xs text-muted-foreground">
+        {crossings.length === 0 ? (
+          <li>No break-even point in this range.</li>
+        ) : (
+          crossings.map(({ images, cheaper, pricier }, idx) => (
+            <li key={idx}>
+              {cheaper.scenario.name || "Untitled"} beats{" "}
+              {pricier.scenario.name || "Untitled"} above{" "}
+              <span className="font-mono text-foreground">
+                {formatVolume(Math.round(images))}
+              </span>{" "}
+              images a month
+            </li>
+          ))
+        )}
+      </ul>
+    </div>
+  );
+}
+
+function ScenarioEditor({
+  scenario,
+  color,
+  runs,
+  models,
+  unitCost,
+  onChange,
+  onRemove,
+}: {
+  scenario: Scenario;
+  color: string;
+  runs: MeasuredRun[];
+  models: ModelConfig[];
+  unitCost: number | null;
+  onChange: (scenario: Scenario) => void;
+  onRemove: () => void;
+}) {
+  const nameOf = (id: string) => models.find((m) => m.id === id)?.name ?? id;
+  const setStage = (idx: number, patch: Partial<Scenario["stages"][number]>) =>
+    onChange({
+      ...scenario,
+      stages: scenario.stages.map((s, i) =>
+        i === idx ? { ...s, ...patch } : s
+      ),
+    });
+
+  return (
+    <div className="border border-border bg-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <span
+          className="w-2 h-2 rounded-full flex-shrink-0"
+          style={{ backgroundColor: color }}
+        />
+        <input
+          value={scenario.name}
+          onChange={(e) => onChange({ ...scenario, name: e.target.value })}
+          placeholder="Scenario name"
+          className="flex-1 min-w-0 bg-transparent text-sm font-medium focus:outline-none"
+        />
+        <span className="font-mono text-xs tabular-nums text-muted-foreground">
+          {unitCost === null ? "—" : `${formatCost(unitCost)}/img`}
+        </span>
+        <button
+          onClick={onRemove}
+          className="text-muted-foreground/50 hover:text-foreground transition-colors"
+          title="Remove scenario"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      <ol className="space-y-2">
+        {scenario.stages.map((stage, idx) => {
+          const measured = runs.some((r) => r.modelId === stage.modelId);
+          return (
+            <li key={idx} className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="font-mono text-muted-foreground/50 w-3">
+                {idx + 1}
+              </span>
+              {idx > 0 && (
+                <label className="flex items-center gap-1 text-muted-foreground">
+                  escalate
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={stage.escalatePercent}
+                    onChange={(e) =>
+                      setStage(idx, {
+                        escalatePercent: clamp(e.target.value, 0, 100),
+                      })
+                    }
+                    className={`${inputClass} w-14`}
+                  />
+                  % to
+                </label>
+              )}
+              <select
+                value={stage.modelId}
+                onChange={(e) => setStage(idx, { modelId: e.target.value })}
+                className={`${inputClass} ${measured ? "" : "border-amber-500/50"}`}
+              >
+                {!measured && (
+                  <option value={stage.modelId}>
+                    {nameOf(stage.modelId)} (not in this run)
+                  </option>
+                )}
+                {runs.map((r) => (
+                  <option key={r.modelId} value={r.modelId}>
+                    {nameOf(r.modelId)}
+                  </option>
+                ))}
+              </select>
+              {idx > 0 && (
+                <button
+                  onClick={() =>
+                    onChange({
+                      ...scenario,
+                      stages: scenario.stages.filter((_, i) => i !== idx),
+                    })
+                  }
+                  className="text-muted-foreground/50 hover:text-foreground transition-colors"
+                  title="Remove stage"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        {scenario.stages.length < MAX_STAGES ? (
+          <button
+            onClick={() =>
+              onChange({
+                ...scenario,
+                stages: [
+                  ...scenario.stages,
+                  {
+                    modelId: runs[runs.length - 1].modelId,
+                    escalatePercent: 10,
+                  },
+                ],
+              })
+            }
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            Escalation
+          </button>
+        ) : (
+          <span />
+        )}
+        <label className="flex items-center gap-1 text-muted-foreground">
+          Fixed $
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={scenario.fixedMonthly}
+            onChange={(e) =>
+              onChange({
+                ...scenario,
+                fixedMonthly: clamp(e.target.value, 0, Infinity),
+              })
+            }
+            className={`${inputClass} w-20`}
+          />
+          /mo
+        </label>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Per-image cost of each model and of user-defined pipelines, scaled to
+ * editable volumes. Costs come from the measured token usage, with
+ * optional batch and cached-input discounts per provider.
+ */
+export function CostProjection({
+  results,
+  models,
+  accuracy,
+}: {
+  results: {
+    modelId: string;
+    cost: number;
+    /** The model that answered, when it was a fallback. */
+    model?: string;
+    usage: { promptTokens: number; completionTokens: number };
+  }[];
+  models: ModelConfig[];
+  /** Ground-truth accuracy per model (0-1), shown when available. */
+  accuracy?: Record<string, number>;
+}) {
+  const settings = useSyncExternalStore(
+    subscribe,
+    currentSettings,
+    () => DEFAULT_PROJECTION
+  );
+
+  const update = (patch: Partial<ProjectionSettings>) =>
+    setSettings({ ...settings, ...patch });
+
+  const { volumes, cadence, discounts, scenarios } = settings;
+
+  const runs: MeasuredRun[] = results.map((r) => ({
+    modelId: r.modelId,
+    cost: r.cost,
+    promptTokens: r.usage.promptTokens,
+    completionTokens: r.usage.completionTokens,
+    pricing:
+      models.find((m) => m.id === r.model) ??
+      models.find((m) => m.id === r.modelId),
+  }));
+  const unitCosts = Object.fromEntries(
+    runs.map((r) => [r.modelId, discountedCost(r, discounts)])
+  );
+  const rows = [...runs].sort(
+    (a, b) => unitCosts[a.modelId] - unitCosts[b.modelId]
+  );
+  const providers = [
+    ...new Set(runs.flatMap((r) => (r.pricing ? [r.pricing.provider] : []))),
+  ];
+
+  const lines = scenarios.flatMap((scenario, idx) => {
+    const unit = scenarioUnitCost(scenario, unitCosts);
+    if (unit === null) return [];
+    return [
+      {
+        scenario,
+        line: { unit, fixed: scenario.fixedMonthly },
+        color: SCENARIO_COLORS[idx % SCENARIO_COLORS.length],
+      },
+    ];
+  });
+
+  const setScenario = (next: Scenario) =>
+    update({
+      scenarios: scenarios.map((s) => (s.id === next.id ? next : s)),
+    });
+
+  const addScenario = () => {
+    const scenario = defaultScenario(unitCosts);
+    if (!scenario) return;
+    update({
+      scenarios: [
+        ...scenarios,
+        { ...scenario, name: `${scenario.name} ${scenarios.length + 1}` },
+      ],
+    });
+  };
+
+  const volumeLabel = (vol: number) =>
+    `${formatVolume(vol)} ${vol === 1 ? "img" : "imgs"}${CADENCE_SUFFIX[cadence]}`;
+  const costAt = (line: CostLine, vol: number) =>
+    formatCost(monthlyCost(line, monthlyImages(vol, cadence)));
+
+  return (
+    <section className="animate-fade-in">
+      <div className="flex items-center gap-2 mb-4">
+        <Calculator className="w-3.5 h-3.5 text-muted-foreground/60" />
+        <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+          Cost Projection
+        </h2>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-x-6 gap-y-3 mb-4">
+        <VolumeInput
+          volumes={volumes}
+          onChange={(next) => update({ volumes: next })}
+        />
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>Cadence</span>
+          <select
+            value={cadence}
+            onChange={(e) => update({ cadence: e.target.value as Cadence })}
+            className={inputClass}
+          >
+            {CADENCES.map((c) => (
+              <option key={c} value={c}>
+                {CADENCE_LABELS[c]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {providers.map((provider) => {
+          const discount = discounts[provider] ?? {
+            batch: false,
+            cachedInputPercent: 0,
+          };
+          const setDiscount = (patch: Partial<typeof discount>) =>
+            update({
+              discounts: {
+                ...discounts,
+                [provider]: { ...discount, ...patch },
+              },
+            });
+          return (
+            <div key={provider} className="flex flex-col gap-1">
+              <span className={`${labelClass} flex items-center gap-1.5`}>
+                <span
+                  className="w-1.5 h-1.5 rounded-full"
+                  style={{ backgroundColor: providerColor(provider) }}
+                />
+                {provider}
+              </span>
+              <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                <label
+                  className="flex items-center gap-1.5"
+                  title={`Batch API, billed at ${BATCH_RATE * 100}% of list price`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={discount.batch}
+                    onChange={(e) => setDiscount({ batch: e.target.checked })}
+                  />
+                  Batch
+                </label>
+                <label
+                  className="flex items-center gap-1"
+                  title={`Cached input is billed at ${cachedInputRate(provider) * 100}% of the input price`}
+                >
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={discount.cachedInputPercent}
+                    onChange={(e) =>
+                      setDiscount({
+                        cachedInputPercent: clamp(e.target.value, 0, 100),
+                      })
+                    }
+                    className={`${inputClass} w-14`}
+                  />
+                  % cached input
+                </label>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="border border-border bg-card overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="text-left px-4 py-3 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em]">
+                Model
+              </th>
+              {accuracy && <th className={headerClass}>Accuracy</th>}
+              {volumes.map((vol) => (
+                <th key={vol} className={headerClass}>
+                  {volumeLabel(vol)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((run, idx) => {
+              const model = models.find((m) => m.id === run.modelId);
+              if (!model) return null;
+              const isCheapestRow = idx === 0 && rows.length > 1;
+              return (
+                <tr
+                  key={run.modelId}
+                  className={`
+                    border-b border-border last:border-0
+                    ${isCheapestRow ? "bg-emerald-500/[0.04]" : ""}
+                  `}
+                >
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+                        style={{
+                          backgroundColor: providerColor(model.provider),
+                        }}
+                      />
+                      <span className="font-medium text-sm whitespace-nowrap">
+                        {model.name}
+                      </span>
+                      {isCheapestRow && (
+                        <span className="text-[10px] px-1.5 py-0.5 bg-emerald-500/10 text-emerald-400 whitespace-nowrap">
+                          cheapest
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  {accuracy && (
+                    <td className={cellClass}>
+                      {accuracy[run.modelId] !== undefined
+                        ? `${Math.round(accuracy[run.modelId] * 100)}%`
+                        : "—"}
+                    </td>
+                  )}
+                  {volumes.map((vol) => (
+                    <td key={vol} className={cellClass}>
+                      {costAt({ unit: unitCosts[run.modelId], fixed: 0 }, vol)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+            {lines.map(({ scenario, line, color }) => (
+              <tr
+                key={scenario.id}
+                className="border-b border-border last:border-0 bg-foreground/[0.02]"
+              >
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="w-2.5 h-0.5 flex-shrink-0"
+                      style={{ backgroundColor: color }}
+                    />
+                    <span className="font-medium text-sm whitespace-nowrap">
+                      {scenario.name || "Untitled"}
+                    </span>
+                  </div>
+                </td>
+                {accuracy && <td className={cellClass}>—</td>}
+                {volumes.map((vol) => (
+                  <td key={vol} className={cellClass}>
+                    {costAt(line, vol)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between mt-8 mb-3">
+        <h3 className={labelClass}>Scenarios</h3>
+        <button
+          onClick={addScenario}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Add scenario
+        </button>
+      </div>
+      {scenarios.length === 0 ? (
+        <p className="text-xs text-muted-foreground/50">
+          Model a pipeline, e.g. a cheap model on every image that escalates a
+          share of them to a stronger one, plus any fixed monthly costs.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            {scenarios.map((scenario, idx) => (
+              <ScenarioEditor
+                key={scenario.id}
+                scenario={scenario}
+                color={SCENARIO_COLORS[idx % SCENARIO_COLORS.length]}
+                runs={runs}
+                models={models}
+                unitCost={scenarioUnitCost(scenario, unitCosts)}
+                onChange={setScenario}
+                onRemove={() =>
+                  update({
+                    scenarios: scenarios.filter((s) => s.id !== scenario.id),
+                  })
+                }
+              />
+            ))}
+          </div>
+          {lines.length > 0 && (
+            <BreakEvenChart
+              lines={lines}
+              range={[
+                monthlyImages(volumes[0], cadence),
+                monthlyImages(volumes[volumes.length - 1], cadence),
+              ]}
+            />
+          )}
+        </div>
+      )}
+
+      <p className="text-[10px] text-muted-foreground/50 mt-3 text-center">
+        Projections based on actual token usage from the extraction above.
+        {cadence !== "once" && " Costs are per month."} Real costs may vary with
+        image size and content complexity.
+      </p>
+    </section>
+  );
+}
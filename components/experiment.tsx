@@ -0,0 +1,355 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  providerColor,
+  formatCost,
+  formatDuration,
+  type ModelConfig,
+} from "@/lib/models";
+import type { DiffStatus } from "@/lib/diff";
+import {
+  MAX_VARIANTS,
+  comparableModels,
+  createVariant,
+  diffVariants,
+  summarizeVariant,
+  variantLabel,
+  type ExperimentRuns,
+  type PromptVariant,
+  type VariantSummary,
+} from "@/lib/experiment";
+import { humanizeFieldName, type SchemaField } from "@/lib/schema";
+import { FieldValue } from "@/components/metadata-view";
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  same: "text-muted-foreground/50",
+  changed: "text-amber-400",
+  added: "text-emerald-400",
+  removed: "text-red-500/80",
+};
+
+const headerClass =
+  "px-3 py-2 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em] whitespace-nowrap";
+
+/** Relative change against the baseline; lower is better for every metric. */
+function Delta({ value, baseline }: { value: number; baseline: number }) {
+  if (baseline === 0 || value === baseline) return null;
+  const change = (value - baseline) / baseline;
+  return (
+    <span className={change < 0 ? "text-emerald-400" : "text-red-500/80"}>
+      {" "}
+      {change > 0 ? "+" : "−"}
+      {Math.abs(change * 100).toFixed(0)}%
+    </span>
+  );
+}
+
+/** Prompt textareas for the variants, A being the baseline. */
+export function PromptVariants({
+  variants,
+  onChange,
+  disabled,
+}: {
+  variants: PromptVariant[];
+  onChange: (variants: PromptVariant[]) => void;
+  disabled?: boolean;
+}) {
+  const update = (id: string, prompt: string) =>
+    onChange(variants.map((v) => (v.id === id ? { ...v, prompt } : v)));
+
+  return (
+    <div className="space-y-2">
+      {variants.map((variant, i) => (
+        <div key={variant.id} className="flex gap-2">
+          <span className="pt-3 w-4 text-[10px] font-mono text-muted-foreground">
+            {variantLabel(i)}
+          </span>
+          <textarea
+            value={variant.prompt}
+            onChange={(e) => update(variant.id, e.target.value)}
+            disabled={disabled}
+            rows={3}
+            className="flex-1 border border-border bg-card px-4 py-3 text-xs leading-relaxed text-card-foreground placeholder:text-muted-foreground/30 focus:outline-none focus:border-foreground/15 resize-y font-mono"
+            placeholder={i === 0 ? "Baseline prompt..." : "Variant prompt..."}
+          />
+          {variants.length > 2 && (
+            <button
+              onClick={() =>
+                onChange(variants.filter((v) => v.id !== variant.id))
+              }
+              disabled={disabled}
+              className="self-start p-1 mt-2 text-muted-foreground hover:text-red-500 transition-colors"
+              title="Remove variant"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+      {variants.length < MAX_VARIANTS && (
+        <button
+          onClick={() =>
+            onChange([
+              ...variants,
+              createVariant(variants[variants.length - 1]?.prompt ?? ""),
+            ])
+          }
+          disabled={disabled}
+          className="ml-6 flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+        >
+          <Plus className="w-3 h-3" />
+          Add variant
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Side-by-side results of prompt variants on one image: totals with deltas
+ * against variant A, per-model cells, and field differences for one model.
+ */
+export function ExperimentResults({
+  variants,
+  runs,
+  models,
+  fields,
+}: {
+  variants: PromptVariant[];
+  runs: ExperimentRuns;
+  models: ModelConfig[];
+  fields: SchemaField[];
+}) {
+  const variantIds = variants.map((v) => v.id).filter((id) => runs[id]);
+  const modelIds = models.map((m) => m.id);
+  const comparable = comparableModels(runs, variantIds, modelIds);
+  const [diffModel, setDiffModel] = useState<string | null>(null);
+  const selectedModel =
+    diffModel && comparable.includes(diffModel) ? diffModel : comparable[0];
+
+  const overall = variantIds.map((id) => summarizeVariant(runs, id, modelIds));
+  const totals = variantIds.map((id) =>
+    summarizeVariant(runs, id, comparable)
+  );
+  const total = variantIds.length * modelIds.length;
+  const done = overall.reduce((sum, s) => sum + s.completed + s.failed, 0);
+  const diffs = selectedModel
+    ? diffVariants(runs, variantIds, selectedModel, fields)
+    : {};
+  const label = (id: string) =>
+    variantLabel(variants.findIndex((v) => v.id === id));
+
+  const metrics: [string, (s: VariantSummary) => number, (n: number) => string][] =
+    [
+      ["Tokens", (s) => s.totalTokens, (n) => n.toLocaleString()],
+      ["Cost", (s) => s.totalCost, formatCost],
+      ["Avg latency", (s) => s.avgDuration, formatDuration],
+    ];
+
+  return (
+    <section className="mb-12 animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+          Experiment
+        </h2>
+        <span className="text-[10px] font-mono text-muted-foreground">
+          {done}/{total} · {comparable.length} model
+          {comparable.length === 1 ? "" : "s"} comparable
+        </span>
+      </div>
+
+      <div className="border border-border bg-card overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border">
+              <th className={`${headerClass} text-left`}>Variant</th>
+              <th className={`${headerClass} text-right`}>Succeeded</th>
+              {metrics.map(([name]) => (
+                <th key={name} className={`${headerClass} text-right`}>
+                  {name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {variantIds.map((id, i) => (
+              <tr key={id} className="border-b border-border last:border-0">
+                <td className="px-3 py-2 max-w-md">
+                  <div className="flex gap-2 text-[10px] font-mono">
+                    <span className="font-medium">{label(id)}</span>
+                    <span
+                      className="text-muted-foreground/60 truncate"
+                      title={variants.find((v) => v.id === id)?.prompt}
+                    >
+                      {variants.find((v) => v.id === id)?.prompt}
+                    </span>
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-right font-mono text-xs tabular-nums">
+                  {overall[i].completed}/{modelIds.length}
+                </td>
+                {metrics.map(([name, value, format]) => (
+                  <td
+                    key={name}
+                    className="px-3 py-2 text-right font-mono text-xs tabular-nums whitespace-nowrap"
+                  >
+                    {totals[i].completed > 0 ? format(value(totals[i])) : "—"}
+                    {i > 0 && totals[i].completed > 0 && (
+                      <Delta
+                        value={value(totals[i])}
+                        baseline={value(totals[0])}
+                      />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="border border-border bg-card overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border">
+              <th className={`${headerClass} text-left`}>Model</th>
+              {variantIds.map((id) => (
+                <th key={id} className={`${headerClass} text-right`}>
+                  {label(id)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {models.map((model) => (
+              <tr key={model.id} className="border-b border-border last:border-0">
+                <td className="px-3 py-2 text-xs whitespace-nowrap">
+                  <span className="inline-flex items-center gap-1.5">
+                    <span
+                      className="w-1.5 h-1.5 rounded-full"
+                      style={{ backgroundColor: providerColor(model.provider) }}
+                    />
+                    {model.name}
+                  </span>
+                </td>
+                {variantIds.map((id) => {
+                  const state = runs[id]?.[model.id];
+                  return (
+                    <td
+                      key={id}
+                      className="px-3 py-2 text-right font-mono text-[10px] tabular-nums whitespace-nowrap"
+                    >
+                      {state?.status === "loading" && (
+                        <Loader2 className="w-3 h-3 animate-spin inline" />
+                      )}
+                      {state?.status === "error" && (
+                        <span title={state.error}>
+                          <AlertCircle className="w-3 h-3 text-red-500 inline" />
+                        </span>
+                      )}
+                      {state?.status === "success" && state.result && (
+                        <>
+                          <div>
+                            {formatCost(state.result.cost)} ·{" "}
+                            {formatDuration(state.result.duration)}
+                          </div>
+                          <div className="text-muted-foreground">
+                            {state.result.usage.totalTokens.toLocaleString()}{" "}
+                            tok
+                          </div>
+                        </>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedModel && variantIds.length > 1 && (
+        <div className="border border-border bg-card overflow-x-auto">
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+            <span className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+              Field differences
+            </span>
+            <select
+              value={selectedModel}
+              onChange={(e) => setDiffModel(e.target.value)}
+              className="border border-border bg-card px-1 py-0.5 text-xs focus:outline-none"
+            >
+              {comparable.map((id) => (
+                <option key={id} value={id}>
+                  {models.find((m) => m.id === id)?.name ?? id}
+                </option>
+              ))}
+            </select>
+            <span className="ml-auto text-[10px] font-mono text-muted-foreground/60">
+              {variantIds
+                .slice(1)
+                .map(
+                  (id) =>
+                    `${label(id)}: ${
+                      diffs[id]?.filter((d) => d.status !== "same").length ?? 0
+                    } differ`
+                )
+                .join(" · ")}
+            </span>
+          </div>
+          <table className="w-full text-sm">
+            <tbody>
+              {fields.map((field) => {
+                const base = runs[variantIds[0]][selectedModel]?.result;
+                return (
+                  <tr
+                    key={field.name}
+                    className="border-b border-border last:border-0 align-top"
+                  >
+                    <td className="px-4 py-2 text-xs font-medium text-muted-foreground whitespace-nowrap w-40">
+                      {humanizeFieldName(field.name)}
+                    </td>
+                    {variantIds.map((id, i) => {
+                      const diff = diffs[id]?.find(
+                        (d) => d.field.name === field.name
+                      );
+                      const value =
+                        i === 0 ? base?.metadata[field.name] : diff?.after;
+                      return (
+                        <td
+                          key={id}
+                          className={`px-4 py-2 ${
+                            diff && diff.status !== "same" ? "bg-amber-400/5" : ""
+                          }`}
+                        >
+                          {value === undefined || value === null ? (
+                            <span className="text-xs text-muted-foreground/50">
+                              —
+                            </span>
+                          ) : (
+                            <FieldValue field={field} value={value} expanded />
+                          )}
+                          {diff && (
+                            <div
+                              className={`text-[10px] font-mono mt-1 ${STATUS_STYLES[diff.status]}`}
+                            >
+                              {diff.status}
+                              {diff.status === "changed" &&
+                                ` · ${Math.round(diff.similarity * 100)}% similar`}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
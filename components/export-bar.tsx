@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import type { ModelConfig } from "@/lib/models";
+import { embedMetadata, type EmbedResult } from "@/lib/embed-metadata";
+import {
+  downloadFile,
+  embeddableMetadata,
+  exportBaseName,
+  toCsvExport,
+  toJsonExport,
+  toXmp,
+  type ExportContext,
+  type ExportResult,
+} from "@/lib/export";
+
+const buttonClass =
+  "flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40";
+
+/**
+ * Downloads for the current results: every model as JSON or CSV, and one
+ * model's metadata as an XMP sidecar or embedded into the original image.
+ */
+export function ExportBar({
+  results,
+  models,
+  context,
+  image,
+}: {
+  results: ExportResult[];
+  models: ModelConfig[];
+  context: ExportContext;
+  image: File | string | null;
+}) {
+  const [source, setSource] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const base = exportBaseName(context.imageName);
+  const selected =
+    results.find((r) => r.modelId === source) ?? results[0] ?? null;
+
+  const embed = async () => {
+    if (!selected || !(image instanceof File)) return;
+    let result: EmbedResult;
+    try {
+      const bytes = new Uint8Array(await image.arrayBuffer());
+      result = embedMetadata(
+        bytes,
+        embeddableMetadata(selected.metadata, context.locales)
+      );
+    } catch {
+      result = { success: false, error: "Could not read the image metadata" };
+    }
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    downloadFile(
+      result.bytes as BlobPart,
+      image.name.replace(/(\.[^.]+)?$/, "-tagged$1"),
+      result.type
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-3">
+      {error && <span className="text-[10px] text-red-500/80">{error}</span>}
+      <button
+        onClick={() =>
+          downloadFile(
+            toJsonExport(results, context),
+            `${base}-metadata.json`,
+            "application/json"
+          )
+        }
+        disabled={results.length === 0}
+        className={buttonClass}
+      >
+        <Download className="w-3 h-3" />
+        JSON
+      </button>
+      <button
+        onClick={() =>
+          downloadFile(
+            toCsvExport(results, context),
+            `${base}-metadata.csv`,
+            "text/csv"
+          )
+        }
+        disabled={results.length === 0}
+        className={buttonClass}
+      >
+        <Download className="w-3 h-3" />
+        CSV
+      </button>
+      <span className="w-px h-3 bg-border" />
+      <select
+        value={selected?.modelId ?? ""}
+        onChange={(e) => setSource(e.target.value)}
+        disabled={results.length === 0}
+        className="border border-border bg-card px-1 py-0.5 text-[10px] focus:outline-none"
+        title="Model whose metadata goes into the XMP and image downloads"
+      >
+        {results.map((r) => (
+          <option key={r.modelId} value={r.modelId}>
+            {models.find((m) => m.id === r.modelId)?.name ?? r.modelId}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() =>
+          selected &&
+          downloadFile(
+            toXmp(embeddableMetadata(selected.metadata, context.locales)),
+            `${base}.xmp`,
+            "application/rdf+xml"
+          )
+        }
+        disabled={!selected}
+        className={buttonClass}
+      >
+        <Download className="w-3 h-3" />
+        XMP
+      </button>
+      <button
+        onClick={embed}
+        disabled={!selected || !(image instanceof File)}
+        className={buttonClass}
+        title={
+          image instanceof File
+            ? "Original image with title, description, tags and alt text in its EXIF, IPTC and XMP"
+            : "Only uploaded images can be downloaded with metadata"
+        }
+      >
+        <Download className="w-3 h-3" />
+        Tagged image
+      </button>
+    </div>
+  );
+}
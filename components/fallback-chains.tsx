@@ -0,0 +1,98 @@
+"use client";
+
+import { X } from "lucide-react";
+import { providerColor, type ModelConfig } from "@/lib/models";
+import { MAX_FALLBACKS, type FallbackChains } from "@/lib/fallbacks";
+
+/**
+ * Per selected model, the models tried in order when it fails after its
+ * retries, e.g. on a timeout, refusal or provider outage.
+ */
+export function FallbackChainsEditor({
+  selected,
+  candidates,
+  chains,
+  onChange,
+}: {
+  selected: ModelConfig[];
+  /** Every model that can run an extraction. */
+  candidates: ModelConfig[];
+  chains: FallbackChains;
+  onChange: (chains: FallbackChains) => void;
+}) {
+  const nameOf = (id: string) =>
+    candidates.find((m) => m.id === id)?.name ?? id;
+
+  const setChain = (modelId: string, chain: string[]) =>
+    onChange({ ...chains, [modelId]: chain });
+
+  if (selected.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground/50">
+        Select a model to give it fallbacks.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {selected.map((model) => {
+        const chain = chains[model.id] ?? [];
+        const options = candidates.filter(
+          (m) => m.id !== model.id && !chain.includes(m.id)
+        );
+        return (
+          <div
+            key={model.id}
+            className="flex flex-wrap items-center gap-2 text-xs"
+          >
+            <span className="flex items-center gap-1.5 w-40 flex-shrink-0">
+              <span
+                className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+                style={{ backgroundColor: providerColor(model.provider) }}
+              />
+              <span className="truncate">{model.name}</span>
+            </span>
+            {chain.map((id, idx) => (
+              <span
+                key={id}
+                className="flex items-center gap-1 border border-border px-1.5 py-0.5 text-[10px] text-muted-foreground"
+              >
+                <span className="font-mono text-muted-foreground/50">
+                  {idx + 1}
+                </span>
+                {nameOf(id)}
+                <button
+                  onClick={() =>
+                    setChain(
+                      model.id,
+                      chain.filter((c) => c !== id)
+                    )
+                  }
+                  className="hover:text-foreground transition-colors"
+                  title="Remove fallback"
+                >
+                  <X className="w-2.5 h-2.5" />
+                </button>
+              </span>
+            ))}
+            {chain.length < MAX_FALLBACKS && options.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => setChain(model.id, [...chain, e.target.value])}
+                className="border border-border bg-card px-1 py-0.5 text-[10px] text-muted-foreground focus:outline-none"
+              >
+                <option value="">+ fallback</option>
+                {options.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
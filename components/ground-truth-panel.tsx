@@ -0,0 +1,254 @@
+"use client";
+
+import { useState } from "react";
+import { Target, Trash2, Pencil } from "lucide-react";
+import { providerColor, type ModelConfig } from "@/lib/models";
+import {
+  scoreAgainstGroundTruth,
+  type FieldScore,
+  type GroundTruth,
+} from "@/lib/ground-truth";
+import {
+  fieldsToJsonSchema,
+  humanizeFieldName,
+  schemaValidator,
+  type MetadataResult,
+  type SchemaField,
+} from "@/lib/schema";
+
+const headerClass =
+  "px-3 py-2 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em] whitespace-nowrap";
+
+export type GroundTruthDraft = {
+  sourceModel?: string;
+  text: string;
+};
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function scoreDetail(score: FieldScore): string {
+  switch (score.metric) {
+    case "set":
+      return `P ${formatPercent(score.precision ?? 0)} · R ${formatPercent(score.recall ?? 0)}`;
+    case "cer":
+      return score.cer !== undefined ? `CER ${score.cer.toFixed(2)}` : "";
+    case "deltaE":
+      return score.deltaE !== undefined ? `ΔE ${score.deltaE.toFixed(1)}` : "";
+    default:
+      return "";
+  }
+}
+
+function scoreColor(value: number): string {
+  return value >= 0.8
+    ? "text-emerald-400"
+    : value >= 0.5
+      ? "text-muted-foreground"
+      : "text-red-500/80";
+}
+
+export function GroundTruthPanel({
+  fields,
+  truth,
+  draft,
+  results,
+  models,
+  onDraftChange,
+  onSave,
+  onDelete,
+}: {
+  fields: SchemaField[];
+  truth: GroundTruth | null;
+  draft: GroundTruthDraft | null;
+  results: { modelId: string; metadata: MetadataResult }[];
+  models: ModelConfig[];
+  onDraftChange: (draft: GroundTruthDraft | null) => void;
+  onSave: (metadata: MetadataResult, sourceModel?: string) => void;
+  onDelete: () => void;
+}) {
+  const [error, setError] = useState("");
+
+  const save = () => {
+    if (!draft) return;
+    let json: unknown;
+    try {
+      json = JSON.parse(draft.text);
+    } catch {
+      setError("Ground truth is not valid JSON");
+      return;
+    }
+    const parsed = schemaValidator(fieldsToJsonSchema(fields)).safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      setError(`${issue.path.join(".") || "record"}: ${issue.message}`);
+      return;
+    }
+    setError("");
+    onSave(parsed.data as MetadataResult, draft.sourceModel);
+  };
+
+  const sourceName = (id?: string) =>
+    models.find((m) => m.id === id)?.name ?? "manual entry";
+
+  const reports = truth
+    ? results.map((r) => ({
+        modelId: r.modelId,
+        report: scoreAgainstGroundTruth(fields, r.metadata, truth.metadata),
+      }))
+    : [];
+  const columns = reports
+    .map((r) => ({ ...r, model: models.find((m) => m.id === r.modelId) }))
+    .filter((r): r is typeof r & { model: ModelConfig } => !!r.model);
+
+  return (
+    <section className="mb-12 animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Target className="w-3.5 h-3.5 text-muted-foreground/60" />
+          <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+            Ground Truth
+          </h2>
+          {truth && !draft && (
+            <span className="text-[10px] font-mono text-muted-foreground/50">
+              from {sourceName(truth.sourceModel)} ·{" "}
+              {new Date(truth.updatedAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+        {truth && !draft && (
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() =>
+                onDraftChange({
+                  sourceModel: truth.sourceModel,
+                  text: JSON.stringify(truth.metadata, null, 2),
+                })
+              }
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <Pencil className="w-3 h-3" />
+              Edit
+            </button>
+            <button
+              onClick={onDelete}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-red-500 transition-colors"
+            >
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+
+      {draft && (
+        <div className="border border-border bg-card p-4 mb-4">
+          <p className="text-[10px] text-muted-foreground mb-2">
+            Editing a copy of {sourceName(draft.sourceModel)}&apos;s output.
+            Correct any field, then save it as the reference for this image.
+          </p>
+          <textarea
+            value={draft.text}
+            onChange={(e) => onDraftChange({ ...draft, text: e.target.value })}
+            rows={16}
+            spellCheck={false}
+            className="w-full border border-border bg-background px-3 py-2 text-[11px] leading-relaxed font-mono text-card-foreground focus:outline-none focus:border-foreground/15 resize-y"
+          />
+          {error && (
+            <p className="text-[10px] text-red-500/80 mt-2">{error}</p>
+          )}
+          <div className="flex items-center justify-end gap-3 mt-3">
+            <button
+              onClick={() => {
+                setError("");
+                onDraftChange(null);
+              }}
+              className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={save}
+              className="px-3 py-1.5 text-xs font-semibold bg-foreground text-background hover:bg-foreground/85 transition-colors"
+            >
+              Save ground truth
+            </button>
+          </div>
+        </div>
+      )}
+
+      {truth && columns.length > 0 && (
+        <div className="border border-border bg-card overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border">
+                <th className={`${headerClass} text-left`}>Field</th>
+                {columns.map(({ model }) => (
+                  <th key={model.id} className={`${headerClass} text-right`}>
+                    <span className="inline-flex items-center gap-1.5">
+                      <span
+                        className="w-1.5 h-1.5 rounded-full"
+                        style={{
+                          backgroundColor: providerColor(model.provider),
+                        }}
+                      />
+                      {model.name}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {columns[0].report.fields.map((f, i) => (
+                <tr key={f.field} className="border-b border-border">
+                  <td className="px-3 py-2 text-xs font-medium text-muted-foreground whitespace-nowrap">
+                    {humanizeFieldName(f.field)}
+                    <span className="ml-2 text-[10px] font-mono font-normal text-muted-foreground/50">
+                      {f.metric}
+                    </span>
+                  </td>
+                  {columns.map(({ model, report }) => {
+                    const score = report.fields[i];
+                    return (
+                      <td
+                        key={model.id}
+                        className={`px-3 py-2 text-right font-mono text-xs tabular-nums whitespace-nowrap ${scoreColor(score.score)}`}
+                        title={scoreDetail(score) || undefined}
+                      >
+                        {formatPercent(score.score)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t border-border">
+                <td className="px-3 py-2 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em]">
+                  Accuracy
+                </td>
+                {columns.map(({ model, report }) => (
+                  <td
+                    key={model.id}
+                    className={`px-3 py-2 text-right font-mono text-xs font-semibold tabular-nums ${scoreColor(report.accuracy)}`}
+                  >
+                    {formatPercent(report.accuracy)}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {!truth && !draft && (
+        <p className="text-xs text-muted-foreground/60">
+          No ground truth for this image yet. Use &ldquo;Set as ground
+          truth&rdquo; on any result card to start from that model&apos;s
+          output.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { GitCompare, History, Trash2, X } from "lucide-react";
+import { formatCost, type ModelConfig } from "@/lib/models";
+import { getImage, type HistoryRun } from "@/lib/history";
+
+function HistoryThumbnail({
+  hash,
+  remoteUrl,
+}: {
+  hash: string;
+  remoteUrl?: string;
+}) {
+  const [src, setSrc] = useState(remoteUrl ?? "");
+
+  useEffect(() => {
+    if (remoteUrl) return;
+    let url = "";
+    let cancelled = false;
+    getImage(hash)
+      .then((blob) => {
+        if (!blob || cancelled) return;
+        url = URL.createObjectURL(blob);
+        setSrc(url);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [hash, remoteUrl]);
+
+  return (
+    <div className="relative w-12 h-12 flex-shrink-0 border border-border bg-muted/50 overflow-hidden">
+      {src && (
+        <Image
+          src={src}
+          alt=""
+          fill
+          className="object-cover"
+          unoptimized
+        />
+      )}
+    </div>
+  );
+}
+
+function runCost(run: HistoryRun): number {
+  return run.entries.reduce((sum, e) => sum + (e.result?.cost ?? 0), 0);
+}
+
+export function HistorySidebar({
+  runs,
+  models,
+  onOpen,
+  onDelete,
+  onCompare,
+  onClose,
+}: {
+  runs: HistoryRun[];
+  models: ModelConfig[];
+  onOpen: (run: HistoryRun) => void;
+  onDelete: (id: string) => void;
+  onCompare: (a: HistoryRun, b: HistoryRun) => void;
+  onClose: () => void;
+}) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) =>
+      prev.includes(id)
+        ? prev.filter((s) => s !== id)
+        : [...prev, id].slice(-2)
+    );
+  };
+
+  const [a, b] = selected.map((id) => runs.find((r) => r.id === id)!);
+  const canCompare = !!a && !!b && a.imageHash === b.imageHash;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-background/60" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-card border-l border-border flex flex-col animate-fade-in">
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+          <History className="w-3.5 h-3.5 text-muted-foreground/60" />
+          <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+            History
+          </h2>
+          <button
+            onClick={onClose}
+            className="ml-auto p-1 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <div className="px-4 py-2 border-b border-border flex items-center gap-2">
+          <span className="text-[10px] text-muted-foreground/60">
+            {selected.length === 2 && !canCompare
+              ? "Pick two runs of the same image"
+              : "Select two runs to compare"}
+          </span>
+          <button
+            onClick={() => canCompare && onCompare(a, b)}
+            disabled={!canCompare}
+            className="ml-auto flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+          >
+            <GitCompare className="w-3 h-3" />
+            Compare
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto">
+          {runs.length === 0 && (
+            <li className="px-4 py-8 text-center text-xs text-muted-foreground/60">
+              Runs you extract are saved here
+            </li>
+          )}
+          {runs.map((run) => {
+            const ok = run.entries.filter((e) => e.status === "success");
+            const modelNames = run.entries
+              .map((e) => models.find((m) => m.id === e.modelId)?.name ?? e.modelId)
+              .join(", ");
+            return (
+              <li
+                key={run.id}
+                className={`flex gap-3 px-4 py-3 border-b border-border ${
+                  selected.includes(run.id) ? "bg-accent" : ""
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(run.id)}
+                  onChange={() => toggleSelected(run.id)}
+                  className="mt-1"
+                />
+                <button
+                  onClick={() => onOpen(run)}
+                  className="flex gap-3 min-w-0 flex-1 text-left"
+                >
+                  <HistoryThumbnail
+                    hash={run.imageHash}
+                    remoteUrl={run.imageUrl}
+                  />
+                  <div className="min-w-0">
+                    <div className="text-xs font-medium truncate">
+                      {run.imageName}
+                    </div>
+                    <div className="text-[10px] text-muted-foreground truncate">
+                      {modelNames}
+                    </div>
+                    <div className="text-[10px] font-mono text-muted-foreground/60">
+                      {new Date(run.createdAt).toLocaleString()} · {ok.length}/
+                      {run.entries.length} · {formatCost(runCost(run))}
+                    </div>
+                    <div
+                      className="text-[10px] font-mono text-muted-foreground/40 truncate"
+                      title={run.prompt}
+                    >
+                      {run.promptRef &&
+                        `${run.promptRef.name} v${run.promptRef.version} · `}
+                      {run.prompt}
+                    </div>
+                  </div>
+                </button>
+                <button
+                  onClick={() => {
+                    setSelected((prev) => prev.filter((s) => s !== run.id));
+                    onDelete(run.id);
+                  }}
+                  className="self-start p-1 text-muted-foreground hover:text-red-500 transition-colors"
+                  title="Delete run"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </aside>
+    </div>
+  );
+}
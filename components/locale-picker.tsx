@@ -0,0 +1,65 @@
+"use client";
+
+import { X } from "lucide-react";
+import { LOCALES, MAX_LOCALES, localeName, type Locale } from "@/lib/locales";
+
+/**
+ * Output languages for a run. The first is primary; each further one adds
+ * translations of the text fields. None leaves the language to the model.
+ */
+export function LocalePicker({
+  locales,
+  onChange,
+  disabled,
+}: {
+  locales: Locale[];
+  onChange: (locales: Locale[]) => void;
+  disabled?: boolean;
+}) {
+  const available = LOCALES.filter((l) => !locales.includes(l.code));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="text-[10px] text-muted-foreground">Languages</span>
+      {locales.length === 0 && (
+        <span className="text-[10px] text-muted-foreground/50">
+          chosen by the model
+        </span>
+      )}
+      {locales.map((code, idx) => (
+        <span
+          key={code}
+          className="flex items-center gap-1 border border-border px-1.5 py-0.5 text-[10px] text-muted-foreground"
+        >
+          {localeName(code)}
+          {idx === 0 && locales.length > 1 && (
+            <span className="text-muted-foreground/50">primary</span>
+          )}
+          <button
+            onClick={() => onChange(locales.filter((c) => c !== code))}
+            disabled={disabled}
+            className="hover:text-foreground transition-colors"
+            title="Remove language"
+          >
+            <X className="w-2.5 h-2.5" />
+          </button>
+        </span>
+      ))}
+      {locales.length < MAX_LOCALES && (
+        <select
+          value=""
+          onChange={(e) => onChange([...locales, e.target.value as Locale])}
+          disabled={disabled}
+          className="border border-border bg-card px-1 py-0.5 text-[10px] text-muted-foreground focus:outline-none"
+        >
+          <option value="">+ Add</option>
+          {available.map((l) => (
+            <option key={l.code} value={l.code}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import {
+  humanizeFieldName,
+  type PartialMetadata,
+  type PartialMetadataValue,
+  type SchemaField,
+} from "@/lib/schema";
+
+const COLLAPSED_FIELD_COUNT = 6;
+const COLLAPSED_ITEM_COUNT = 5;
+
+export function MetaRow({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="text-xs">
+      <span className="text-muted-foreground font-medium">{label}: </span>
+      <span className="text-card-foreground">{children}</span>
+    </div>
+  );
+}
+
+function formatScalar(value: PartialMetadataValue): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number") return value.toLocaleString();
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map(formatScalar).join(", ");
+  return Object.entries(value)
+    .map(([k, v]) => `${humanizeFieldName(k)}: ${formatScalar(v)}`)
+    .join(" · ");
+}
+
+function isEmpty(value: PartialMetadataValue): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+export function FieldValue({
+  field,
+  value,
+  expanded,
+}: {
+  field: SchemaField;
+  value: PartialMetadataValue;
+  expanded: boolean;
+}) {
+  const label = humanizeFieldName(field.name);
+
+  if (field.array && Array.isArray(value)) {
+    const visible = expanded ? value : value.slice(0, COLLAPSED_ITEM_COUNT);
+    const hidden = value.length - visible.length;
+
+    // Objects with a hex code render as swatches, like the default `colors`
+    if (field.type === "object" && field.fields?.some((f) => f.name === "hex")) {
+      return (
+        <div className="flex items-center gap-1.5">
+          {visible.map((item, i) => {
+            const entry = (item ?? {}) as Record<string, PartialMetadataValue>;
+            const hex = String(entry.hex ?? "");
+            return (
+              <div key={i} title={entry.name ? `${entry.name} (${hex})` : hex}>
+                <div
+                  className="w-5 h-5 rounded-full border border-border"
+                  style={{ backgroundColor: hex }}
+                />
+              </div>
+            );
+          })}
+          <span className="text-[10px] text-muted-foreground ml-1">
+            {label}
+          </span>
+        </div>
+      );
+    }
+
+    if (field.type === "object") {
+      return (
+        <div className="space-y-1">
+          {visible.map((item, i) => (
+            <MetaRow key={i} label={`${label} ${i + 1}`}>
+              {formatScalar(item)}
+            </MetaRow>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <div className="text-xs">
+        <span className="text-muted-foreground font-medium">{label}: </span>
+        <span className="inline-flex flex-wrap gap-1 align-middle">
+          {visible.map((item, i) => (
+            <span
+              key={i}
+              className="px-2 py-0.5 text-[10px] bg-accent text-accent-foreground"
+            >
+              {formatScalar(item)}
+            </span>
+          ))}
+          {hidden > 0 && (
+            <span className="px-2 py-0.5 text-[10px] text-muted-foreground">
+              +{hidden}
+            </span>
+          )}
+        </span>
+      </div>
+    );
+  }
+
+  return <MetaRow label={label}>{formatScalar(value)}</MetaRow>;
+}
+
+/**
+ * Renders an extraction result by walking the schema it was requested with,
+ * so custom schemas display without any field-specific markup. Accepts
+ * partially streamed results, skipping fields that have not arrived yet.
+ */
+export function MetadataView({
+  fields,
+  metadata,
+  expanded,
+}: {
+  fields: SchemaField[];
+  metadata: PartialMetadata;
+  expanded: boolean;
+}) {
+  const present = fields.filter((f) => !isEmpty(metadata[f.name]));
+  const visible = expanded ? present : present.slice(0, COLLAPSED_FIELD_COUNT);
+
+  return (
+    <div className="space-y-2">
+      {visible.map((field) => (
+        <FieldValue
+          key={field.name}
+          field={field}
+          value={metadata[field.name]}
+          expanded={expanded}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  modelConfigSchema,
+  providerColor,
+  registryProviders,
+  type ModelConfig,
+} from "@/lib/models";
+import { isDefaultModel } from "@/lib/model-registry";
+
+const inputClass =
+  "border border-border bg-card px-2 py-1 text-xs text-card-foreground placeholder:text-muted-foreground/30 focus:outline-none focus:border-foreground/15";
+
+type Draft = {
+  id: string;
+  name: string;
+  provider: string;
+  input: string;
+  output: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  id: "",
+  name: "",
+  provider: "",
+  input: "",
+  output: "",
+};
+
+/**
+ * Edits the model registry. Changes to a default model are stored as an
+ * override with the same id; reset drops the override.
+ */
+export function ModelRegistryEditor({
+  models,
+  custom,
+  onChange,
+}: {
+  models: ModelConfig[];
+  custom: ModelConfig[];
+  onChange: (custom: ModelConfig[]) => void;
+}) {
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+  const providers = registryProviders(models);
+
+  const upsert = (model: ModelConfig) => {
+    const exists = custom.some((m) => m.id === model.id);
+    onChange(
+      exists
+        ? custom.map((m) => (m.id === model.id ? model : m))
+        : [...custom, model]
+    );
+  };
+
+  const remove = (id: string) => onChange(custom.filter((m) => m.id !== id));
+
+  const addModel = () => {
+    const parsed = modelConfigSchema.safeParse({
+      id: draft.id.trim(),
+      name: draft.name.trim() || draft.id.trim(),
+      provider: draft.provider.trim(),
+      inputCostPer1MTokens: Number(draft.input),
+      outputCostPer1MTokens: Number(draft.output),
+    });
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      setError(`${issue.path.join(".")}: ${issue.message}`);
+      return;
+    }
+    if (models.some((m) => m.id === parsed.data.id)) {
+      setError(`${parsed.data.id} is already in the registry`);
+      return;
+    }
+    upsert(parsed.data);
+    setDraft(EMPTY_DRAFT);
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <datalist id="registry-providers">
+        {providers.map((p) => (
+          <option key={p} value={p} />
+        ))}
+      </datalist>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-[10px] text-muted-foreground/60">
+              <th className="py-1 pr-2 font-normal">Model</th>
+              <th className="py-1 pr-2 font-normal">Provider</th>
+              <th className="py-1 pr-2 font-normal">$ in / 1M</th>
+              <th className="py-1 pr-2 font-normal">$ out / 1M</th>
+              <th className="py-1 pr-2 font-normal">Vision</th>
+              <th className="py-1 pr-2 font-normal">JSON</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {models.map((model) => {
+              const isDefault = isDefaultModel(model.id);
+              const isEdited = custom.some((m) => m.id === model.id);
+              const update = (patch: Partial<ModelConfig>) =>
+                upsert({ ...model, ...patch });
+              return (
+                <tr key={model.id} className="align-middle">
+                  <td className="py-1 pr-2">
+                    <input
+                      value={model.name}
+                      onChange={(e) => update({ name: e.target.value })}
+                      className={`${inputClass} w-40`}
+                    />
+                    <div className="text-[10px] font-mono text-muted-foreground/50 truncate max-w-48">
+                      {model.id}
+                    </div>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <div className="flex items-center gap-1.5">
+                      <span
+                        className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: providerColor(model.provider) }}
+                      />
+                      <input
+                        value={model.provider}
+                        onChange={(e) => update({ provider: e.target.value })}
+                        list="registry-providers"
+                        className={`${inputClass} w-24`}
+                      />
+                    </div>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={model.inputCostPer1MTokens}
+                      onChange={(e) =>
+                        update({
+                          inputCostPer1MTokens: Math.max(0, Number(e.target.value)),
+                        })
+                      }
+                      className={`${inputClass} w-20 font-mono`}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={model.outputCostPer1MTokens}
+                      onChange={(e) =>
+                        update({
+                          outputCostPer1MTokens: Math.max(0, Number(e.target.value)),
+                        })
+                      }
+                      className={`${inputClass} w-20 font-mono`}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={model.capabilities.vision}
+                      onChange={(e) =>
+                        update({
+                          capabilities: {
+                            ...model.capabilities,
+                            vision: e.target.checked,
+                          },
+                        })
+                      }
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={model.capabilities.structuredOutput}
+                      onChange={(e) =>
+                        update({
+                          capabilities: {
+                            ...model.capabilities,
+                            structuredOutput: e.target.checked,
+                          },
+                        })
+                      }
+                    />
+                  </td>
+                  <td className="py-1 text-right">
+                    {isDefault ? (
+                      isEdited && (
+                        <button
+                          onClick={() => remove(model.id)}
+                          className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+                          title="Reset to default"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                        </button>
+                      )
+                    ) : (
+                      <button
+                        onClick={() => remove(model.id)}
+                        className="p-1 text-muted-foreground hover:text-red-500 transition-colors"
+                        title="Remove model"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-border">
+        <input
+          value={draft.id}
+          onChange={(e) => setDraft({ ...draft, id: e.target.value })}
+          placeholder="provider/model-id"
+          className={`${inputClass} w-48 font-mono`}
+        />
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Display name"
+          className={`${inputClass} w-36`}
+        />
+        <input
+          value={draft.provider}
+          onChange={(e) => setDraft({ ...draft, provider: e.target.value })}
+          placeholder="Provider"
+          list="registry-providers"
+          className={`${inputClass} w-28`}
+        />
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={draft.input}
+          onChange={(e) => setDraft({ ...draft, input: e.target.value })}
+          placeholder="$ in"
+          className={`${inputClass} w-20 font-mono`}
+        />
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={draft.output}
+          onChange={(e) => setDraft({ ...draft, output: e.target.value })}
+          placeholder="$ out"
+          className={`${inputClass} w-20 font-mono`}
+        />
+        <button
+          onClick={addModel}
+          disabled={!draft.id.trim() || !draft.provider.trim()}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+        >
+          <Plus className="w-3 h-3" />
+          Add model
+        </button>
+        <button
+          onClick={() =>
+            navigator.clipboard.writeText(JSON.stringify(custom, null, 2))
+          }
+          disabled={custom.length === 0}
+          className="ml-auto flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+          title="Copy entries for models.config.json"
+        >
+          <Copy className="w-3 h-3" />
+          Copy config
+        </button>
+      </div>
+      {error && <p className="text-[10px] text-red-500/80">{error}</p>}
+    </div>
+  );
+}
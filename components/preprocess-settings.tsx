@@ -0,0 +1,143 @@
+"use client";
+
+import { type ModelConfig, formatCost } from "@/lib/models";
+import {
+  MAX_DIMENSION_OPTIONS,
+  OUTPUT_FORMATS,
+  formatBytes,
+  preprocessSavings,
+  type PreprocessOptions,
+  type PreprocessStats,
+} from "@/lib/preprocess";
+
+export function describePreprocess(options: PreprocessOptions): string {
+  if (!options.enabled) return "off";
+  const format =
+    options.format === "original"
+      ? "original format"
+      : `${options.format} q${options.quality}`;
+  return `${options.maxDimension}px · ${format}`;
+}
+
+export function PreprocessSettings({
+  options,
+  onChange,
+  disabled,
+}: {
+  options: PreprocessOptions;
+  onChange: (options: PreprocessOptions) => void;
+  disabled?: boolean;
+}) {
+  const update = (patch: Partial<PreprocessOptions>) =>
+    onChange({ ...options, ...patch });
+  const off = disabled || !options.enabled;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-3 text-xs text-muted-foreground">
+      <label className="flex items-center gap-1.5">
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          disabled={disabled}
+        />
+        Preprocess before sending
+      </label>
+      <label className="flex items-center gap-1.5">
+        Max edge
+        <select
+          value={options.maxDimension}
+          onChange={(e) => update({ maxDimension: Number(e.target.value) })}
+          disabled={off}
+          className="border border-border bg-card px-1 py-0.5 font-mono text-[10px] focus:outline-none"
+        >
+          {MAX_DIMENSION_OPTIONS.map((n) => (
+            <option key={n} value={n}>
+              {n}px
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1.5">
+        Format
+        <select
+          value={options.format}
+          onChange={(e) =>
+            update({ format: e.target.value as PreprocessOptions["format"] })
+          }
+          disabled={off}
+          className="border border-border bg-card px-1 py-0.5 font-mono text-[10px] focus:outline-none"
+        >
+          {OUTPUT_FORMATS.map((f) => (
+            <option key={f} value={f}>
+              {f}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1.5">
+        Quality
+        <input
+          type="range"
+          min={40}
+          max={100}
+          value={options.quality}
+          onChange={(e) => update({ quality: Number(e.target.value) })}
+          disabled={off || options.format === "original"}
+          className="w-24"
+        />
+        <span className="font-mono text-[10px] w-6">{options.quality}</span>
+      </label>
+      <label className="flex items-center gap-1.5">
+        <input
+          type="checkbox"
+          checked={options.stripMetadata}
+          onChange={(e) => update({ stripMetadata: e.target.checked })}
+          disabled={off}
+        />
+        Strip EXIF
+      </label>
+      <label className="flex items-center gap-1.5">
+        <input
+          type="checkbox"
+          checked={options.autoOrient}
+          onChange={(e) => update({ autoOrient: e.target.checked })}
+          disabled={off}
+        />
+        Auto-orient
+      </label>
+    </div>
+  );
+}
+
+/** Bytes and estimated image tokens before and after preprocessing. */
+export function PreprocessSummary({
+  stats,
+  model,
+}: {
+  stats: PreprocessStats;
+  model: ModelConfig;
+}) {
+  const savings = preprocessSavings(model, stats);
+  return (
+    <div
+      className="flex items-center gap-3 pt-2 text-[10px] font-mono text-muted-foreground/60"
+      title={`${stats.originalWidth}×${stats.originalHeight} → ${stats.width}×${stats.height} ${stats.format}. Image tokens are estimated from each provider's sizing rules.`}
+    >
+      <span>
+        {formatBytes(stats.originalBytes)} → {formatBytes(stats.bytes)}
+      </span>
+      <span>
+        ~{savings.tokensBefore.toLocaleString()} →{" "}
+        {savings.tokensAfter.toLocaleString()} img tok
+      </span>
+      <span
+        className={`ml-auto ${savings.costSaved > 0 ? "text-emerald-400" : ""}`}
+      >
+        {savings.costSaved > 0
+          ? `−${formatCost(savings.costSaved)}`
+          : "no token change"}
+      </span>
+    </div>
+  );
+}
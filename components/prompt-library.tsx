@@ -0,0 +1,210 @@
+"use client";
+
+import { useState } from "react";
+import { Save, Trash2 } from "lucide-react";
+import {
+  PROMPT_TAGS,
+  addVersion,
+  createPrompt,
+  currentVersion,
+  type PromptRef,
+  type SavedPrompt,
+} from "@/lib/prompts";
+
+const inputClass =
+  "border border-border bg-card px-2 py-1 text-xs text-card-foreground placeholder:text-muted-foreground/30 focus:outline-none focus:border-foreground/15";
+
+export function describePromptRef(ref: PromptRef | null, edited: boolean) {
+  if (!ref) return "custom";
+  return `${ref.name} · v${ref.version}${edited ? " (edited)" : ""}`;
+}
+
+/**
+ * Lists presets and saved prompts by tag. Saving while a saved prompt is
+ * loaded adds a version to it; presets can only be saved as a copy.
+ */
+export function PromptLibrary({
+  prompts,
+  active,
+  text,
+  onUse,
+  onSave,
+  onDelete,
+}: {
+  prompts: SavedPrompt[];
+  active: PromptRef | null;
+  text: string;
+  onUse: (ref: PromptRef, text: string) => void;
+  onSave: (prompt: SavedPrompt) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [tag, setTag] = useState<string | null>(null);
+  const [versions, setVersions] = useState<Record<string, number>>({});
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+
+  const allTags = [...new Set([...PROMPT_TAGS, ...prompts.flatMap((p) => p.tags)])];
+  const visible = tag ? prompts.filter((p) => p.tags.includes(tag)) : prompts;
+  const activePrompt = prompts.find(
+    (p) => p.id === active?.promptId && !p.preset
+  );
+  const canAddVersion =
+    !!activePrompt && currentVersion(activePrompt).text !== text;
+
+  const save = (prompt: SavedPrompt) => {
+    onSave(prompt);
+    const latest = currentVersion(prompt);
+    onUse(
+      { promptId: prompt.id, name: prompt.name, version: latest.version },
+      latest.text
+    );
+  };
+
+  const saveAsNew = () => {
+    save(createPrompt(name.trim(), tags, text));
+    setName("");
+    setTags([]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {[null, ...allTags].map((t) => (
+          <button
+            key={t ?? "all"}
+            onClick={() => setTag(t)}
+            className={`px-2 py-0.5 text-[10px] font-mono border transition-colors ${
+              tag === t
+                ? "border-foreground/30 text-foreground"
+                : "border-border text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {t ?? "all"}
+          </button>
+        ))}
+      </div>
+
+      <ul className="divide-y divide-border">
+        {visible.map((prompt) => {
+          const latest = currentVersion(prompt);
+          const selected = versions[prompt.id] ?? latest.version;
+          const version =
+            prompt.versions.find((v) => v.version === selected) ?? latest;
+          const isActive =
+            active?.promptId === prompt.id && active.version === version.version;
+          return (
+            <li key={prompt.id} className="flex items-start gap-3 py-2">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2 text-xs font-medium">
+                  {prompt.name}
+                  {prompt.preset && (
+                    <span className="text-[10px] font-normal text-muted-foreground/50">
+                      preset
+                    </span>
+                  )}
+                  <span className="text-[10px] font-mono font-normal text-muted-foreground/60">
+                    {prompt.tags.join(", ")}
+                  </span>
+                </div>
+                <p
+                  className="text-[10px] font-mono text-muted-foreground/50 truncate"
+                  title={version.text}
+                >
+                  {version.text}
+                </p>
+              </div>
+              {prompt.versions.length > 1 && (
+                <select
+                  value={version.version}
+                  onChange={(e) =>
+                    setVersions((prev) => ({
+                      ...prev,
+                      [prompt.id]: Number(e.target.value),
+                    }))
+                  }
+                  className="border border-border bg-card px-1 py-0.5 font-mono text-[10px] focus:outline-none"
+                >
+                  {prompt.versions.map((v) => (
+                    <option key={v.version} value={v.version}>
+                      v{v.version}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() =>
+                  onUse(
+                    {
+                      promptId: prompt.id,
+                      name: prompt.name,
+                      version: version.version,
+                    },
+                    version.text
+                  )
+                }
+                disabled={isActive && version.text === text}
+                className="text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+              >
+                Use
+              </button>
+              {!prompt.preset && (
+                <button
+                  onClick={() => onDelete(prompt.id)}
+                  className="p-1 text-muted-foreground hover:text-red-500 transition-colors"
+                  title="Delete prompt"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-border">
+        {activePrompt && (
+          <button
+            onClick={() => save(addVersion(activePrompt, text))}
+            disabled={!canAddVersion}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+          >
+            <Save className="w-3 h-3" />
+            Save as v{currentVersion(activePrompt).version + 1} of{" "}
+            {activePrompt.name}
+          </button>
+        )}
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New prompt name"
+          className={`${inputClass} w-44 ${activePrompt ? "ml-auto" : ""}`}
+        />
+        {PROMPT_TAGS.map((t) => (
+          <label
+            key={t}
+            className="flex items-center gap-1 text-[10px] text-muted-foreground"
+          >
+            <input
+              type="checkbox"
+              checked={tags.includes(t)}
+              onChange={(e) =>
+                setTags((prev) =>
+                  e.target.checked ? [...prev, t] : prev.filter((x) => x !== t)
+                )
+              }
+            />
+            {t}
+          </label>
+        ))}
+        <button
+          onClick={saveAsNew}
+          disabled={!name.trim() || !text.trim()}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+        >
+          <Save className="w-3 h-3" />
+          Save as new
+        </button>
+      </div>
+    </div>
+  );
+}
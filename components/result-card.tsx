@@ -0,0 +1,373 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertCircle,
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  FileWarning,
+  Gauge,
+  KeyRound,
+  Loader2,
+  ShieldAlert,
+  Target,
+  Wallet,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  providerColor,
+  formatCost,
+  formatDuration,
+  type ModelConfig,
+} from "@/lib/models";
+import type { ModelExtractionState } from "@/lib/extract-client";
+import {
+  ERROR_DETAILS,
+  type ExtractErrorCode,
+  type ModelFailure,
+} from "@/lib/extract-errors";
+import { localeName, localizedMetadata } from "@/lib/locales";
+import type { SchemaField } from "@/lib/schema";
+import { MetadataView, MetaRow } from "@/components/metadata-view";
+import { PreprocessSummary } from "@/components/preprocess-settings";
+
+const ERROR_ICONS: Partial<Record<ExtractErrorCode, LucideIcon>> = {
+  timeout: Clock,
+  rate_limited: Gauge,
+  auth: KeyRound,
+  content_refused: ShieldAlert,
+  schema_validation: FileWarning,
+  budget_exceeded: Wallet,
+};
+
+/** Transient failures, shown in amber rather than red. */
+const TRANSIENT: ExtractErrorCode[] = ["timeout", "rate_limited"];
+
+function shortModelId(id: string): string {
+  return id.slice(id.indexOf("/") + 1);
+}
+
+function describeFailures(failures: ModelFailure[]): string {
+  return failures
+    .map((f) => `${shortModelId(f.model)}: ${ERROR_DETAILS[f.code].label}`)
+    .join("\n");
+}
+
+/** One model's extraction: partials while loading, then the result. */
+export function ResultCard({
+  model,
+  state,
+  fields,
+  locales = [],
+  cost,
+  isCheapest,
+  isFastest,
+  expanded,
+  jsonView,
+  onToggleExpanded,
+  onToggleJsonView,
+  onSetTruth,
+  truthDisabled,
+}: {
+  model: ModelConfig;
+  state: ModelExtractionState;
+  fields: SchemaField[];
+  /** The run's output locales, primary first; several add a switcher. */
+  locales?: string[];
+  /** Cost at current registry pricing, when it differs from the result's. */
+  cost?: number;
+  isCheapest: boolean;
+  isFastest: boolean;
+  expanded: boolean;
+  jsonView: boolean;
+  onToggleExpanded: () => void;
+  onToggleJsonView: () => void;
+  /** Omitted where results are read-only, e.g. shared runs. */
+  onSetTruth?: () => void;
+  truthDisabled?: boolean;
+}) {
+  const [chosenLocale, setChosenLocale] = useState<string | null>(null);
+  const color = providerColor(model.provider);
+  const locale =
+    chosenLocale && locales.includes(chosenLocale) ? chosenLocale : locales[0];
+  const cached = state.result?.cachedAt !== undefined;
+  const errorCode = state.errorCode ?? "unknown";
+  const ErrorIcon = ERROR_ICONS[errorCode] ?? AlertCircle;
+  const transient = TRANSIENT.includes(errorCode);
+  const fallback =
+    state.result && state.result.model !== model.id ? state.result : null;
+  // Cached responses are free; the list price still drives comparisons
+  const listCost = cost ?? state.result?.cost ?? 0;
+  const costLabel = cached ? formatCost(0) : formatCost(listCost);
+  const costTitle = cached
+    ? `Served from cache. List price ${formatCost(listCost)}`
+    : undefined;
+
+  return (
+    <div
+      className={`
+        border bg-card overflow-hidden
+        transition-all duration-300
+        ${state.status === "success" ? "animate-fade-in" : ""}
+        ${
+          state.status === "error"
+            ? transient
+              ? "border-amber-500/20"
+              : "border-red-500/20"
+            : "border-border"
+        }
+      `}
+    >
+      {/* Card Header */}
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+        <span
+          className="w-2 h-2 rounded-full flex-shrink-0"
+          style={{ backgroundColor: color }}
+        />
+        <span className="text-sm font-medium">{model.name}</span>
+        {state.status === "success" && cached && (
+          <span
+            className="text-[10px] px-1.5 py-0.5 bg-sky-500/10 text-sky-400"
+            title="Identical image, model, prompt and schema; no tokens billed"
+          >
+            cached
+          </span>
+        )}
+        {state.status === "success" && fallback && (
+          <span
+            className="text-[10px] px-1.5 py-0.5 bg-amber-500/10 text-amber-400 truncate"
+            title={describeFailures(fallback.failures ?? [])}
+          >
+            via {shortModelId(fallback.model)}
+          </span>
+        )}
+
+        {/* Formatted / JSON tabs */}
+        {state.status === "success" && (
+          <div className="flex items-center gap-0 ml-auto mr-2 border border-border">
+            <button
+              onClick={() => {
+                if (jsonView) onToggleJsonView();
+              }}
+              className={`px-2 py-0.5 text-[10px] font-medium transition-colors ${
+                !jsonView
+                  ? "bg-foreground text-background"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Formatted
+            </button>
+            <button
+              onClick={() => {
+                if (!jsonView) onToggleJsonView();
+              }}
+              className={`px-2 py-0.5 text-[10px] font-mono font-medium transition-colors ${
+                jsonView
+                  ? "bg-foreground text-background"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              JSON
+            </button>
+          </div>
+        )}
+
+        <span className={`text-xs text-muted-foreground font-mono flex items-center ${state.status !== "success" ? "ml-auto" : ""}`}>
+          {state.status === "loading" && (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          )}
+          {state.status === "success" &&
+            formatDuration(state.result!.duration)}
+          {state.status === "error" && (
+            <ErrorIcon
+              className={`w-3 h-3 ${transient ? "text-amber-500" : "text-red-500"}`}
+            />
+          )}
+        </span>
+      </div>
+
+      {/* Card Body */}
+      <div className="p-4">
+        {state.status === "loading" &&
+          state.partial &&
+          Object.keys(state.partial).length > 0 && (
+            <div className="mb-3">
+              <MetadataView
+                fields={fields}
+                metadata={state.partial}
+                expanded={false}
+              />
+            </div>
+          )}
+
+        {state.status === "loading" && (
+          <div className="space-y-3">
+            <div className="h-4 animate-shimmer" />
+            <div className="h-4 animate-shimmer w-4/5" />
+            <div className="h-3 animate-shimmer w-3/5" />
+            <div className="flex gap-1.5 mt-3">
+              {[1, 2, 3, 4].map((i) => (
+                <div
+                  key={i}
+                  className="h-5 w-14 animate-shimmer"
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {state.status === "error" && (
+          <div
+            className={`text-sm ${transient ? "text-amber-500/80" : "text-red-500/80"}`}
+          >
+            <p className="font-medium mb-1">
+              {ERROR_DETAILS[errorCode].label}
+            </p>
+            {ERROR_DETAILS[errorCode].hint && (
+              <p className="text-xs mb-1.5">{ERROR_DETAILS[errorCode].hint}</p>
+            )}
+            <p className="text-xs font-mono break-all opacity-70">
+              {state.error}
+            </p>
+          </div>
+        )}
+
+        {state.status === "success" && state.result && !jsonView && (
+          <div className="space-y-3">
+            {locales.length > 1 && (
+              <div className="flex items-center gap-0 w-fit border border-border">
+                {locales.map((code) => (
+                  <button
+                    key={code}
+                    onClick={() => setChosenLocale(code)}
+                    title={localeName(code)}
+                    className={`px-2 py-0.5 text-[10px] font-mono font-medium uppercase transition-colors ${
+                      locale === code
+                        ? "bg-foreground text-background"
+                        : "text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {code}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div lang={locale}>
+              <MetadataView
+                fields={fields}
+                metadata={
+                  locales.length > 1
+                    ? localizedMetadata(state.result.metadata, locales, locale)
+                    : state.result.metadata
+                }
+                expanded={expanded}
+              />
+            </div>
+
+            {expanded && (
+              <div className="pt-2 border-t border-border animate-fade-in">
+                <MetaRow label="Tokens">
+                  {state.result.usage.promptTokens.toLocaleString()}{" "}
+                  in /{" "}
+                  {state.result.usage.completionTokens.toLocaleString()}{" "}
+                  out
+                </MetaRow>
+              </div>
+            )}
+
+            {/* Toggle */}
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => onToggleExpanded()}
+                className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {expanded ? (
+                  <>
+                    <ChevronUp className="w-3 h-3" /> Less
+                  </>
+                ) : (
+                  <>
+                    <ChevronDown className="w-3 h-3" /> More details
+                  </>
+                )}
+              </button>
+              {onSetTruth && (
+                <button
+                  onClick={onSetTruth}
+                  disabled={truthDisabled}
+                  className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+                >
+                  <Target className="w-3 h-3" /> Set as ground truth
+                </button>
+              )}
+            </div>
+
+            {/* Stats Footer */}
+            <div className="flex items-center gap-3 pt-2 border-t border-border text-[10px] font-mono text-muted-foreground">
+              <span
+                className={
+                  isFastest
+                    ? "text-emerald-400"
+                    : ""
+                }
+              >
+                {formatDuration(state.result.duration)}
+                {isFastest && " (fastest)"}
+              </span>
+              {state.result.timeToFirstField !== undefined && (
+                <span title="Time to first field">
+                  TTFF {formatDuration(state.result.timeToFirstField)}
+                </span>
+              )}
+              <span>
+                {state.result.usage.totalTokens.toLocaleString()}{" "}
+                tok
+              </span>
+              <span
+                className={`ml-auto ${
+                  isCheapest
+                    ? "text-emerald-400 font-semibold"
+                    : ""
+                }`}
+                title={costTitle}
+              >
+                {costLabel}
+                {isCheapest && " (cheapest)"}
+              </span>
+            </div>
+            {state.result.preprocess && (
+              <PreprocessSummary
+                stats={state.result.preprocess}
+                model={model}
+              />
+            )}
+          </div>
+        )}
+
+        {/* JSON View */}
+        {state.status === "success" && state.result && jsonView && (
+          <div className="animate-fade-in">
+            <pre className="text-[11px] font-mono leading-relaxed text-card-foreground overflow-x-auto whitespace-pre-wrap break-words">
+              <code>
+                {JSON.stringify(state.result.metadata, null, 2)}
+              </code>
+            </pre>
+            <div className="flex items-center gap-3 pt-3 mt-3 border-t border-border text-[10px] font-mono text-muted-foreground">
+              <span>
+                {formatDuration(state.result.duration)}
+              </span>
+              <span>
+                {state.result.usage.totalTokens.toLocaleString()}{" "}
+                tok
+              </span>
+              <span className="ml-auto" title={costTitle}>
+                {costLabel}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { GitCompare, X } from "lucide-react";
+import {
+  formatCost,
+  formatDuration,
+  type ModelConfig,
+} from "@/lib/models";
+import { diffMetadata, unionFields, type DiffStatus } from "@/lib/diff";
+import type { HistoryRun } from "@/lib/history";
+import { humanizeFieldName } from "@/lib/schema";
+import { FieldValue } from "@/components/metadata-view";
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  same: "text-muted-foreground/50",
+  changed: "text-amber-400",
+  added: "text-emerald-400",
+  removed: "text-red-500/80",
+};
+
+function successfulModels(run: HistoryRun): string[] {
+  return run.entries
+    .filter((e) => e.status === "success" && e.result)
+    .map((e) => e.modelId);
+}
+
+function RunColumnHeader({
+  label,
+  run,
+  modelId,
+  models,
+  onModelChange,
+}: {
+  label: string;
+  run: HistoryRun;
+  modelId: string;
+  models: ModelConfig[];
+  onModelChange: (id: string) => void;
+}) {
+  const result = run.entries.find((e) => e.modelId === modelId)?.result;
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+          {label}
+        </span>
+        <select
+          value={modelId}
+          onChange={(e) => onModelChange(e.target.value)}
+          className="border border-border bg-card px-1 py-0.5 text-xs focus:outline-none"
+        >
+          {successfulModels(run).map((id) => (
+            <option key={id} value={id}>
+              {models.find((m) => m.id === id)?.name ?? id}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="text-[10px] font-mono text-muted-foreground/60">
+        {new Date(run.createdAt).toLocaleString()}
+        {result &&
+          ` · ${formatDuration(result.duration)} · ${result.usage.totalTokens.toLocaleString()} tok · ${formatCost(result.cost)}`}
+      </div>
+    </div>
+  );
+}
+
+/** Field-level comparison of two runs of the same image. */
+export function RunDiff({
+  runs,
+  models,
+  onClose,
+}: {
+  runs: [HistoryRun, HistoryRun];
+  models: ModelConfig[];
+  onClose: () => void;
+}) {
+  const [before, after] = runs;
+  const shared = successfulModels(before).find((id) =>
+    successfulModels(after).includes(id)
+  );
+  // Default to the same model on both sides, so a prompt change is isolated
+  const [modelA, setModelA] = useState(
+    shared ?? successfulModels(before)[0] ?? ""
+  );
+  const [modelB, setModelB] = useState(
+    shared ?? successfulModels(after)[0] ?? ""
+  );
+
+  const resultA = before.entries.find((e) => e.modelId === modelA)?.result;
+  const resultB = after.entries.find((e) => e.modelId === modelB)?.result;
+  const fields = unionFields(before.fields, after.fields);
+  const diffs =
+    resultA && resultB
+      ? diffMetadata(fields, resultA.metadata, resultB.metadata)
+      : [];
+  const changed = diffs.filter((d) => d.status !== "same").length;
+
+  return (
+    <section className="mb-12 animate-fade-in">
+      <div className="flex items-center gap-2 mb-4">
+        <GitCompare className="w-3.5 h-3.5 text-muted-foreground/60" />
+        <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground">
+          Run Diff
+        </h2>
+        <span className="text-[10px] font-mono text-muted-foreground/50">
+          {before.imageName} · {changed} of {diffs.length} fields differ
+        </span>
+        <button
+          onClick={onClose}
+          className="ml-auto p-1 text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="border border-border bg-card overflow-x-auto">
+        <div className="grid grid-cols-2 gap-4 px-4 py-3 border-b border-border">
+          <RunColumnHeader
+            label="A"
+            run={before}
+            modelId={modelA}
+            models={models}
+            onModelChange={setModelA}
+          />
+          <RunColumnHeader
+            label="B"
+            run={after}
+            modelId={modelB}
+            models={models}
+            onModelChange={setModelB}
+          />
+        </div>
+
+        {before.prompt !== after.prompt && (
+          <div className="grid grid-cols-2 gap-4 px-4 py-3 border-b border-border">
+            {[before, after].map((run) => (
+              <p
+                key={run.id}
+                className="text-[10px] font-mono leading-relaxed text-muted-foreground whitespace-pre-wrap"
+              >
+                {run.promptRef && (
+                  <span className="block text-muted-foreground/60">
+                    {run.promptRef.name} v{run.promptRef.version}
+                  </span>
+                )}
+                {run.prompt}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <table className="w-full text-sm">
+          <tbody>
+            {diffs.map((d) => (
+              <tr key={d.field.name} className="border-b border-border last:border-0 align-top">
+                <td className="px-4 py-2 text-xs font-medium text-muted-foreground whitespace-nowrap w-40">
+                  {humanizeFieldName(d.field.name)}
+                  <div className={`text-[10px] font-mono font-normal ${STATUS_STYLES[d.status]}`}>
+                    {d.status}
+                    {d.status === "changed" &&
+                      ` · ${Math.round(d.similarity * 100)}% similar`}
+                  </div>
+                </td>
+                {[d.before, d.after].map((value, i) => (
+                  <td key={i} className="px-4 py-2 w-1/2">
+                    {value === undefined || value === null ? (
+                      <span className="text-xs text-muted-foreground/50">—</span>
+                    ) : (
+                      <FieldValue field={d.field} value={value} expanded />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { FIELD_TYPES, type FieldType, type SchemaField } from "@/lib/schema";
+
+const inputClass =
+  "border border-border bg-card px-2 py-1.5 text-xs text-card-foreground placeholder:text-muted-foreground/30 focus:outline-none focus:border-foreground/15";
+
+function emptyField(): SchemaField {
+  return {
+    name: "",
+    type: "string",
+    description: "",
+    nullable: false,
+    array: false,
+  };
+}
+
+export function SchemaBuilder({
+  fields,
+  onChange,
+  depth = 0,
+}: {
+  fields: SchemaField[];
+  onChange: (fields: SchemaField[]) => void;
+  depth?: number;
+}) {
+  const updateField = (index: number, patch: Partial<SchemaField>) => {
+    onChange(fields.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  };
+
+  const changeType = (index: number, type: FieldType) => {
+    const field = fields[index];
+    updateField(index, {
+      type,
+      enumValues: type === "enum" ? (field.enumValues ?? []) : undefined,
+      fields: type === "object" ? (field.fields ?? [emptyField()]) : undefined,
+    });
+  };
+
+  return (
+    <div className={depth > 0 ? "pl-4 border-l border-border space-y-2" : "space-y-2"}>
+      {fields.map((field, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={field.name}
+              onChange={(e) => updateField(index, { name: e.target.value })}
+              placeholder="fieldName"
+              className={`${inputClass} w-36 font-mono`}
+            />
+            <select
+              value={field.type}
+              onChange={(e) => changeType(index, e.target.value as FieldType)}
+              className={`${inputClass} w-24`}
+            >
+              {FIELD_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+            <input
+              value={field.description}
+              onChange={(e) =>
+                updateField(index, { description: e.target.value })
+              }
+              placeholder="Description shown to the model"
+              className={`${inputClass} flex-1 min-w-48`}
+            />
+            <label className="flex items-center gap-1 text-[10px] text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={field.array}
+                onChange={(e) => updateField(index, { array: e.target.checked })}
+              />
+              array
+            </label>
+            <label className="flex items-center gap-1 text-[10px] text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={field.nullable}
+                onChange={(e) =>
+                  updateField(index, { nullable: e.target.checked })
+                }
+              />
+              nullable
+            </label>
+            <button
+              onClick={() => onChange(fields.filter((_, i) => i !== index))}
+              className="p-1 text-muted-foreground hover:text-red-500 transition-colors"
+              title="Remove field"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+
+          {field.type === "enum" && (
+            <EnumValuesInput
+              values={field.enumValues ?? []}
+              onChange={(enumValues) => updateField(index, { enumValues })}
+            />
+          )}
+
+          {field.type === "object" && (
+            <SchemaBuilder
+              fields={field.fields ?? []}
+              onChange={(nested) => updateField(index, { fields: nested })}
+              depth={depth + 1}
+            />
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...fields, emptyField()])}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <Plus className="w-3 h-3" />
+        {depth > 0 ? "Add nested field" : "Add field"}
+      </button>
+    </div>
+  );
+}
+
+function EnumValuesInput({
+  values,
+  onChange,
+}: {
+  values: string[];
+  onChange: (values: string[]) => void;
+}) {
+  // Keep the raw text locally so trailing commas survive while typing
+  const [text, setText] = useState(values.join(", "));
+
+  return (
+    <input
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(
+          e.target.value
+            .split(",")
+            .map((v) => v.trim())
+            .filter(Boolean)
+        );
+      }}
+      placeholder="Allowed values, comma separated"
+      className={`${inputClass} w-full font-mono`}
+    />
+  );
+}
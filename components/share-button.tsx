@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Copy, Loader2, Share2 } from "lucide-react";
+import { createShare, type ShareRequest } from "@/lib/share";
+
+const buttonClass =
+  "flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40";
+
+/** Saves the current run and shows its permalink with a copy button. */
+export function ShareButton({
+  request,
+  image,
+  disabled,
+}: {
+  request: () => ShareRequest;
+  /** Uploaded files are stored with the run; URLs are linked instead. */
+  image: File | null;
+  disabled?: boolean;
+}) {
+  const [isSharing, setIsSharing] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const share = async () => {
+    setIsSharing(true);
+    setError(null);
+    try {
+      const { url } = await createShare(request(), image);
+      setUrl(new URL(url, window.location.origin).toString());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Share failed");
+    }
+    setIsSharing(false);
+  };
+
+  const copy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  };
+
+  if (url) {
+    return (
+      <div className="flex items-center gap-2">
+        <a
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="max-w-48 truncate font-mono text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+        >
+          {url}
+        </a>
+        <button onClick={copy} className={buttonClass} title="Copy link">
+          {copied ? (
+            <Check className="w-3 h-3 text-emerald-400" />
+          ) : (
+            <Copy className="w-3 h-3" />
+          )}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-[10px] text-red-500/80">{error}</span>}
+      <button
+        onClick={share}
+        disabled={disabled || isSharing}
+        className={buttonClass}
+        title="Save this run under a read-only link"
+      >
+        {isSharing ? (
+          <Loader2 className="w-3 h-3 animate-spin" />
+        ) : (
+          <Share2 className="w-3 h-3" />
+        )}
+        Share
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { calculateCost } from "@/lib/models";
+import type { ShareSnapshot } from "@/lib/share";
+import { ResultCard } from "@/components/result-card";
+import { CostProjection } from "@/components/cost-projection";
+
+function toggle(set: Set<string>, id: string): Set<string> {
+  const next = new Set(set);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+}
+
+/** Read-only view of a shared run: its image, prompt, results and costs. */
+export function SharedRun({ snapshot }: { snapshot: ShareSnapshot }) {
+  const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
+  const [jsonViewCards, setJsonViewCards] = useState<Set<string>>(new Set());
+  const { models, entries, fields } = snapshot;
+
+  const imageSrc = snapshot.imageType
+    ? `/api/share/${snapshot.id}/image`
+    : snapshot.imageUrl;
+
+  const completedResults = entries.flatMap((entry) => {
+    const model = models.find((m) => m.id === entry.modelId);
+    if (entry.status !== "success" || !entry.result || !model) return [];
+    const { promptTokens, completionTokens } = entry.result.usage;
+    // Fallbacks are not part of the snapshot, so keep their recorded cost
+    const answered = models.find((m) => m.id === entry.result!.model);
+    return [
+      {
+        modelId: model.id,
+        ...entry.result,
+        cost: answered
+          ? calculateCost(answered, promptTokens, completionTokens)
+          : entry.result.cost,
+      },
+    ];
+  });
+  const cheapestCost =
+    completedResults.length > 0
+      ? Math.min(...completedResults.map((r) => r.cost))
+      : 0;
+  const fastestDuration =
+    completedResults.length > 0
+      ? Math.min(...completedResults.map((r) => r.duration))
+      : 0;
+
+  return (
+    <main className="min-h-screen px-4 py-16 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <header className="mb-12 text-left max-w-2xl">
+        <Link
+          href="/"
+          className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          ← Meta Playground
+        </Link>
+        <h1 className="text-4xl sm:text-5xl font-black tracking-tighter mt-6 mb-3 leading-[0.9]">
+          Shared run
+        </h1>
+        <p className="text-muted-foreground text-sm">
+          {models.length} model{models.length === 1 ? "" : "s"} ·{" "}
+          <time suppressHydrationWarning>
+            {new Date(snapshot.createdAt).toLocaleString()}
+          </time>
+        </p>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 mb-12">
+        <div className="lg:col-span-2">
+          <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground mb-3">
+            Image
+          </h2>
+          <div className="relative h-64 overflow-hidden border border-border bg-muted/50">
+            {imageSrc ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={imageSrc}
+                alt={snapshot.imageName}
+                className="w-full h-full object-contain"
+              />
+            ) : (
+              <div className="flex h-full items-center justify-center text-xs text-muted-foreground/50">
+                Image not stored
+              </div>
+            )}
+            <div className="absolute bottom-3 left-3 right-3">
+              <div className="px-3 py-1.5 bg-background/80 backdrop-blur-sm border border-border text-[10px] font-mono text-muted-foreground truncate">
+                {snapshot.imageName}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="lg:col-span-3">
+          <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground mb-3">
+            Prompt
+            <span className="normal-case tracking-normal font-mono text-muted-foreground/50 ml-2">
+              {fields.length} field{fields.length === 1 ? "" : "s"}
+            </span>
+          </h2>
+          <pre className="border border-border bg-card px-4 py-3 text-xs leading-relaxed text-card-foreground whitespace-pre-wrap font-mono max-h-64 overflow-y-auto">
+            {snapshot.prompt}
+          </pre>
+        </div>
+      </div>
+
+      <section className="mb-12 animate-fade-in">
+        <h2 className="text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground mb-4">
+          Results
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {entries.map((entry) => {
+            const model = models.find((m) => m.id === entry.modelId);
+            if (!model) return null;
+            const cost = completedResults.find(
+              (r) => r.modelId === model.id
+            )?.cost;
+            const isCheapest =
+              entry.status === "success" &&
+              cost === cheapestCost &&
+              completedResults.length > 1;
+            const isFastest =
+              entry.status === "success" &&
+              entry.result?.duration === fastestDuration &&
+              completedResults.length > 1;
+
+            return (
+              <ResultCard
+                key={model.id}
+                model={model}
+                state={entry}
+                fields={fields}
+                locales={snapshot.locales}
+                cost={cost}
+                isCheapest={isCheapest}
+                isFastest={isFastest}
+                expanded={expandedCards.has(model.id)}
+                jsonView={jsonViewCards.has(model.id)}
+                onToggleExpanded={() =>
+                  setExpandedCards((prev) => toggle(prev, model.id))
+                }
+                onToggleJsonView={() =>
+                  setJsonViewCards((prev) => toggle(prev, model.id))
+                }
+              />
+            );
+          })}
+        </div>
+      </section>
+
+      {completedResults.length > 0 && (
+        <CostProjection results={completedResults} models={models} />
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,272 @@
+import Link from "next/link";
+import { Download } from "lucide-react";
+import { ERROR_DETAILS, type ExtractErrorCode } from "@/lib/extract-errors";
+import { formatCost, formatDuration } from "@/lib/models";
+import type { UsageSummary } from "@/lib/usage";
+
+const sectionTitle =
+  "text-[10px] font-medium uppercase tracking-[0.2em] text-muted-foreground mb-3";
+const headerClass =
+  "text-right px-4 py-3 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em] whitespace-nowrap";
+const cellClass =
+  "px-4 py-3 text-right font-mono text-sm tabular-nums whitespace-nowrap";
+
+/** Vertical bars scaled to the largest value, labelled on hover. */
+function Bars({
+  values,
+  format,
+}: {
+  values: { label: string; value: number }[];
+  format: (value: number) => string;
+}) {
+  const max = Math.max(...values.map((v) => v.value), 0);
+  return (
+    <div className="border border-border bg-card px-4 pt-4 pb-2">
+      <div className="flex items-end gap-px h-32">
+        {values.map(({ label, value }) => (
+          <div
+            key={label}
+            title={`${label}: ${format(value)}`}
+            className="flex-1 bg-foreground/70 hover:bg-foreground transition-colors min-h-px"
+            style={{ height: max > 0 ? `${(value / max) * 100}%` : 0 }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-[10px] font-mono text-muted-foreground/60">
+        <span>{values[0]?.label}</span>
+        <span>max {format(max)}</span>
+        <span>{values[values.length - 1]?.label}</span>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="border border-border bg-card px-4 py-3">
+      <div className="text-[10px] uppercase tracking-[0.2em] text-muted-foreground">
+        {label}
+      </div>
+      <div className="font-mono text-lg tabular-nums mt-1">{value}</div>
+    </div>
+  );
+}
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : "—";
+}
+
+/**
+ * Spend, reliability and latency of recorded extractions over a date
+ * range, with a form to change the range and a CSV download.
+ */
+export function UsageDashboard({
+  summary,
+  from,
+  to,
+  token,
+}: {
+  summary: UsageSummary;
+  /** Inclusive UTC days, `YYYY-MM-DD`. */
+  from: string;
+  to: string;
+  token?: string;
+}) {
+  const exportParams = new URLSearchParams({
+    from,
+    to,
+    format: "csv",
+    ...(token && { token }),
+  });
+  const imageDays = summary.days.filter((d) => d.images > 0);
+
+  return (
+    <main className="min-h-screen px-4 py-16 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <header className="mb-10 text-left">
+        <Link
+          href="/"
+          className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          ← Meta Playground
+        </Link>
+        <h1 className="text-4xl sm:text-5xl font-black tracking-tighter mt-6 mb-6 leading-[0.9]">
+          Usage
+        </h1>
+        <form className="flex flex-wrap items-end gap-3 text-xs text-muted-foreground">
+          <label className="flex flex-col gap-1">
+            From
+            <input
+              type="date"
+              name="from"
+              defaultValue={from}
+              className="border border-border bg-card px-2 py-1 font-mono text-xs text-foreground"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            To
+            <input
+              type="date"
+              name="to"
+              defaultValue={to}
+              className="border border-border bg-card px-2 py-1 font-mono text-xs text-foreground"
+            />
+          </label>
+          {token && <input type="hidden" name="token" value={token} />}
+          <button
+            type="submit"
+            className="border border-border px-3 py-1 hover:text-foreground transition-colors"
+          >
+            Apply
+          </button>
+          <a
+            href={`/api/usage?${exportParams}`}
+            className="flex items-center gap-1.5 ml-auto px-3 py-1 border border-border hover:text-foreground transition-colors"
+          >
+            <Download className="w-3 h-3" />
+            CSV
+          </a>
+        </form>
+      </header>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-10">
+        <Stat
+          label="Spend"
+          value={`${formatCost(summary.cost)}${summary.unpriced > 0 ? "*" : ""}`}
+        />
+        <Stat
+          label="Extractions"
+          value={summary.extractions.toLocaleString()}
+        />
+        <Stat
+          label="Success rate"
+          value={percent(summary.successes, summary.extractions)}
+        />
+        <Stat
+          label="Cache hits"
+          value={percent(summary.cached, summary.extractions)}
+        />
+        <Stat
+          label="Cost per image"
+          value={
+            summary.images > 0 ? formatCost(summary.cost / summary.images) : "—"
+          }
+        />
+      </div>
+
+      {summary.extractions === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No extractions were recorded in this range.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-10">
+            <section>
+              <h2 className={sectionTitle}>Spend per day</h2>
+              <Bars
+                values={summary.days.map((d) => ({
+                  label: d.day,
+                  value: d.cost,
+                }))}
+                format={formatCost}
+              />
+            </section>
+            <section>
+              <h2 className={sectionTitle}>Cost per image</h2>
+              <Bars
+                values={imageDays.map((d) => ({
+                  label: d.day,
+                  value: d.costPerImage,
+                }))}
+                format={formatCost}
+              />
+            </section>
+          </div>
+
+          <section className="mb-10">
+            <h2 className={sectionTitle}>Models</h2>
+            <div className="border border-border bg-card overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left px-4 py-3 text-[10px] font-medium text-muted-foreground uppercase tracking-[0.2em]">
+                      Model
+                    </th>
+                    <th className={headerClass}>Runs</th>
+                    <th className={headerClass}>Success</th>
+                    <th className={headerClass}>Errors</th>
+                    <th className={headerClass}>p50</th>
+                    <th className={headerClass}>p95</th>
+                    <th className={headerClass}>Avg in / out</th>
+                    <th className={headerClass}>Spend</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.models.map((m) => (
+                    <tr
+                      key={m.model}
+                      className="border-b border-border last:border-0"
+                    >
+                      <td className="px-4 py-3 font-mono text-xs whitespace-nowrap">
+                        {m.model}
+                      </td>
+                      <td className={cellClass}>{m.extractions}</td>
+                      <td className={cellClass}>
+                        {percent(m.successes, m.extractions)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-xs text-muted-foreground">
+                        {Object.entries(m.errors)
+                          .map(
+                            ([code, count]) =>
+                              `${ERROR_DETAILS[code as ExtractErrorCode].label} ${count}`
+                          )
+                          .join(", ") || "—"}
+                      </td>
+                      <td className={cellClass}>
+                        {m.p50 === null ? "—" : formatDuration(m.p50)}
+                      </td>
+                      <td className={cellClass}>
+                        {m.p95 === null ? "—" : formatDuration(m.p95)}
+                      </td>
+                      <td className={cellClass}>
+                        {Math.round(m.avgPromptTokens).toLocaleString()} /{" "}
+                        {Math.round(m.avgCompletionTokens).toLocaleString()}
+                      </td>
+                      <td className={cellClass}>
+                        {formatCost(m.cost)}
+                        {m.unpriced > 0 && "*"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section>
+            <h2 className={sectionTitle}>Tokens per extraction</h2>
+            <Bars
+              values={summary.tokens.map((b) => ({
+                label: b.label,
+                value: b.count,
+              }))}
+              format={(n) => `${n} runs`}
+            />
+            <p className="text-[10px] text-muted-foreground/50 mt-3">
+              Input plus output tokens of uncached, successful extractions.
+              Latency excludes cache hits and includes retries and fallbacks.
+              Costs use list prices of the built-in and configured models and
+              include retries and failed fallbacks.
+            </p>
+            {summary.unpriced > 0 && (
+              <p className="text-[10px] text-muted-foreground/50 mt-1">
+                * {summary.unpriced.toLocaleString()} extractions used models
+                the server has no price for, such as ones added in the browser.
+                Their tokens are not included in spend.
+              </p>
+            )}
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
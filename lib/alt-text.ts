@@ -0,0 +1,250 @@
+import { LOCALES, localeName, type Locale } from "@/lib/locales";
+import type { MetadataResult, SchemaField } from "@/lib/schema";
+
+/** Most screen readers read alt text in one go up to about this length. */
+export const SHORT_ALT_LIMIT = 125;
+/** Shorter alt text rarely says enough to stand in for the image. */
+const SHORT_ALT_MIN = 10;
+/** Long descriptions past this are better moved into the page itself. */
+export const LONG_DESCRIPTION_LIMIT = 1000;
+
+export const ALT_TEXT_FIELDS: SchemaField[] = [
+  {
+    name: "decorative",
+    type: "boolean",
+    description:
+      "True if the image is purely decorative and adds no information, so screen readers should skip it",
+    nullable: false,
+    array: false,
+  },
+  {
+    name: "shortAlt",
+    type: "string",
+    description: `Alt text of at most ${SHORT_ALT_LIMIT} characters conveying the subject and purpose of the image. Do not start with "image of" or "picture of". Empty if decorative`,
+    nullable: false,
+    array: false,
+  },
+  {
+    name: "longDescription",
+    type: "string",
+    description:
+      "A longer description for complex images such as charts, diagrams, infographics or detailed scenes, covering structure, data and relationships in 2-5 sentences. Null if the alt text is enough",
+    nullable: true,
+    array: false,
+  },
+  {
+    name: "textContent",
+    type: "string",
+    description:
+      "All text visible in the image, transcribed exactly in its original language, or null if none",
+    nullable: true,
+    array: false,
+  },
+  {
+    name: "language",
+    type: "string",
+    description:
+      "BCP 47 tag of the language the alt text and description are written in",
+    nullable: false,
+    array: false,
+  },
+];
+
+export function altTextPrompt(language: Locale): string {
+  const name = localeName(language);
+  return `Write alternative text for this image following WCAG 2.2 success criterion 1.1.1 (Non-text Content). First decide whether the image is decorative. If not, write alt text that lets someone who cannot see the image get the same information from it: lead with the subject and purpose, skip details that do not matter, and never start with "image of" or "picture of", since screen readers already announce images. Add a long description only when the image is too complex for short alt text. Transcribe any visible text exactly, and make sure text that carries meaning is also conveyed in the alt text or description. Write the alt text and description in ${name}.`;
+}
+
+/** The language a prompt was built for by `altTextPrompt`, if it was. */
+export function altTextLanguageOf(prompt: string): Locale | null {
+  return LOCALES.find((l) => altTextPrompt(l.code) === prompt)?.code ?? null;
+}
+
+// ── Checks ───────────────────────────────────────────────────────────
+
+export type AltText = {
+  decorative: boolean;
+  shortAlt: string;
+  longDescription: string | null;
+  textContent: string | null;
+  language: string | null;
+};
+
+function text(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** Reads an alt-text result, tolerating missing or mistyped fields. */
+export function readAltText(metadata: MetadataResult): AltText {
+  return {
+    decorative: metadata.decorative === true,
+    shortAlt: text(metadata.shortAlt) ?? "",
+    longDescription: text(metadata.longDescription),
+    textContent: text(metadata.textContent),
+    language: text(metadata.language),
+  };
+}
+
+export type AltTextCheck = {
+  id: string;
+  status: "pass" | "warn" | "fail";
+  label: string;
+  detail?: string;
+};
+
+const REDUNDANT_PREFIX =
+  /^(an? |the )?(image|picture|photo|photograph|graphic|illustration) (of|showing)\b/i;
+const FILE_NAME = /\.(png|jpe?g|gif|webp|svg|avif)\b/i;
+
+function words(value: string): string[] {
+  return value.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Share of the words in `source` that also appear in `target`. */
+function coverage(source: string, target: string): number {
+  const wanted = words(source);
+  if (wanted.length === 0) return 1;
+  const found = new Set(words(target));
+  return wanted.filter((w) => found.has(w)).length / wanted.length;
+}
+
+/**
+ * Automatic checks of one model's alt text. These catch common mistakes;
+ * whether the text fits the image and its context still needs a person.
+ */
+export function checkAltText(
+  alt: AltText,
+  language: Locale
+): AltTextCheck[] {
+  const checks: AltTextCheck[] = [];
+  const add = (check: AltTextCheck) => checks.push(check);
+
+  if (alt.decorative) {
+    add(
+      alt.shortAlt
+        ? {
+            id: "decorative",
+            status: "warn",
+            label: "Decorative image has alt text",
+            detail: 'Decorative images take an empty alt (alt="")',
+          }
+        : { id: "decorative", status: "pass", label: "Marked decorative" }
+    );
+    if (alt.textContent) {
+      add({
+        id: "text",
+        status: "fail",
+        label: "Marked decorative but contains text",
+        detail: `"${alt.textContent}" would never be announced`,
+      });
+    }
+    return checks;
+  }
+
+  if (!alt.shortAlt) {
+    add({ id: "present", status: "fail", label: "Missing alt text" });
+    return checks;
+  }
+
+  const length = [...alt.shortAlt].length;
+  add(
+    length > SHORT_ALT_LIMIT
+      ? {
+          id: "length",
+          status: "warn",
+          label: `Alt text is ${length} characters`,
+          detail: `Keep it under ${SHORT_ALT_LIMIT} and move detail to the long description`,
+        }
+      : length < SHORT_ALT_MIN
+        ? {
+            id: "length",
+            status: "warn",
+            label: `Alt text is only ${length} characters`,
+          }
+        : { id: "length", status: "pass", label: `${length} characters` }
+  );
+
+  add(
+    REDUNDANT_PREFIX.test(alt.shortAlt)
+      ? {
+          id: "redundant",
+          status: "warn",
+          label: 'Starts with "image of"',
+          detail: "Screen readers already announce the image role",
+        }
+      : { id: "redundant", status: "pass", label: "No redundant prefix" }
+  );
+
+  if (FILE_NAME.test(alt.shortAlt)) {
+    add({
+      id: "filename",
+      status: "fail",
+      label: "Alt text contains a file name",
+    });
+  }
+
+  if (alt.textContent) {
+    const conveyed = coverage(
+      alt.textContent,
+      `${alt.shortAlt} ${alt.longDescription ?? ""}`
+    );
+    add(
+      conveyed >= 0.5
+        ? { id: "text", status: "pass", label: "Visible text is conveyed" }
+        : {
+            id: "text",
+            status: "fail",
+            label: "Visible text is missing",
+            detail: `"${alt.textContent}" is not in the alt text or description`,
+          }
+    );
+  }
+
+  if (alt.longDescription) {
+    const longLength = [...alt.longDescription].length;
+    add(
+      alt.longDescription === alt.shortAlt || longLength <= length
+        ? {
+            id: "long",
+            status: "warn",
+            label: "Long description adds nothing",
+          }
+        : longLength > LONG_DESCRIPTION_LIMIT
+          ? {
+              id: "long",
+              status: "warn",
+              label: `Long description is ${longLength} characters`,
+              detail: "Consider presenting it as visible text on the page",
+            }
+          : { id: "long", status: "pass", label: "Long description" }
+    );
+  }
+
+  if (alt.language) {
+    const primary = alt.language.toLowerCase().split("-")[0];
+    add(
+      primary === language
+        ? { id: "language", status: "pass", label: `Written in ${language}` }
+        : {
+            id: "language",
+            status: "warn",
+            label: `Written in ${alt.language}, not ${language}`,
+          }
+    );
+  }
+
+  return checks;
+}
+
+/**
+ * What a screen reader announces for the image, one utterance per line,
+ * following NVDA's "graphic, alt" order. Decorative images are skipped.
+ */
+export function screenReaderAnnouncement(alt: AltText): string[] {
+  if (alt.decorative) return [];
+  if (!alt.shortAlt) return ["unlabelled graphic"];
+  return [
+    `graphic, ${alt.shortAlt}`,
+    ...(alt.longDescription ? [`description: ${alt.longDescription}`] : []),
+  ];
+}
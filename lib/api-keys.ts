@@ -0,0 +1,66 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import type { NextRequest } from "next/server";
+import { rateLimitPolicySchema, type RateLimitPolicy } from "@/lib/ratelimit";
+
+/**
+ * API keys are configured through the `API_KEYS` env var as a JSON array.
+ * Only the SHA-256 hash of each key is stored; generate one with
+ * `bun scripts/generate-api-key.ts <id>`. The quota takes the optional
+ * `algorithm` and `unit` of any rate limit policy, and `dailySpendCap`
+ * caps the key's estimated spend (USD) per UTC day.
+ *
+ *   API_KEYS='[{"id":"backend","hash":"<sha256>","limit":1000,"window":"1 d"}]'
+ */
+const apiKeySchema = rateLimitPolicySchema.extend({
+  id: z.string().min(1),
+  hash: z.string().regex(/^[0-9a-f]{64}$/),
+  dailySpendCap: z.number().positive().optional(),
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+let _keys: ApiKey[] | null = null;
+
+function getApiKeys(): ApiKey[] {
+  if (_keys) return _keys;
+
+  const raw = process.env.API_KEYS;
+  if (!raw) return (_keys = []);
+
+  try {
+    _keys = z.array(apiKeySchema).parse(JSON.parse(raw));
+  } catch (error) {
+    console.error("[api-keys] Ignoring invalid API_KEYS:", error);
+    _keys = [];
+  }
+  return _keys;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function readKey(req: NextRequest): string | null {
+  const auth = req.headers.get("authorization");
+  if (auth?.toLowerCase().startsWith("bearer ")) return auth.slice(7).trim();
+  return req.headers.get("x-api-key");
+}
+
+/** Resolves the request's API key, or null when missing or unknown. */
+export function authenticate(req: NextRequest): ApiKey | null {
+  const key = readKey(req);
+  if (!key) return null;
+
+  const hash = Buffer.from(hashApiKey(key), "hex");
+  return (
+    getApiKeys().find((k) =>
+      timingSafeEqual(Buffer.from(k.hash, "hex"), hash)
+    ) ?? null
+  );
+}
+
+export function quotaFor(key: ApiKey): RateLimitPolicy {
+  const { limit, window, algorithm, unit } = key;
+  return { limit, window, algorithm, unit };
+}
@@ -0,0 +1,174 @@
+import { unzip } from "fflate";
+import type { ModelExtractionState } from "@/lib/extract-client";
+
+export const MAX_BATCH_IMAGES = 500;
+export const DEFAULT_CONCURRENCY = 4;
+export const CONCURRENCY_OPTIONS = [1, 2, 4, 6, 8] as const;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+};
+
+export type BatchImage = {
+  id: string;
+  file: File;
+};
+
+/** Per image id, per model id extraction state. */
+export type BatchRuns = Record<string, Record<string, ModelExtractionState>>;
+
+export type ModelAggregate = {
+  modelId: string;
+  completed: number;
+  failed: number;
+  pending: number;
+  totalCost: number;
+  avgCost: number;
+  avgDuration: number;
+  totalTokens: number;
+};
+
+function mimeTypeFor(name: string): string | null {
+  const ext = name.split(".").pop()?.toLowerCase() ?? "";
+  return IMAGE_MIME_TYPES[ext] ?? null;
+}
+
+function isZip(file: File): boolean {
+  return (
+    file.type === "application/zip" ||
+    file.type === "application/x-zip-compressed" ||
+    file.name.toLowerCase().endsWith(".zip")
+  );
+}
+
+function isImage(file: File): boolean {
+  return file.type.startsWith("image/") || mimeTypeFor(file.name) !== null;
+}
+
+async function unzipImages(archive: File): Promise<File[]> {
+  const data = new Uint8Array(await archive.arrayBuffer());
+  const entries = await new Promise<Record<string, Uint8Array>>(
+    (resolve, reject) =>
+      unzip(
+        data,
+        {
+          // Skip directories, macOS resource forks and non-image entries
+          filter: (entry) =>
+            !entry.name.endsWith("/") &&
+            !entry.name.includes("__MACOSX/") &&
+            mimeTypeFor(entry.name) !== null,
+        },
+        (err, result) => (err ? reject(err) : resolve(result))
+      )
+  );
+
+  return Object.entries(entries).map(([path, bytes]) => {
+    const type = mimeTypeFor(path)!;
+    return new File([bytes as BlobPart], path, { type });
+  });
+}
+
+/**
+ * Expands ZIP archives and drops anything that is not an image. The result
+ * is sorted by name so batch rows are stable across runs.
+ */
+export async function expandBatchFiles(files: File[]): Promise<File[]> {
+  const expanded: File[] = [];
+  for (const file of files) {
+    if (isZip(file)) expanded.push(...(await unzipImages(file)));
+    else if (isImage(file)) expanded.push(file);
+  }
+  return expanded
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, MAX_BATCH_IMAGES);
+}
+
+function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) =>
+      (entry as FileSystemFileEntry).file((f) => resolve([f]), reject)
+    );
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  return new Promise((resolve, reject) => {
+    const files: File[] = [];
+    // readEntries returns results in chunks; keep reading until empty
+    const readChunk = () =>
+      reader.readEntries(async (chunk) => {
+        if (chunk.length === 0) return resolve(files);
+        for (const child of chunk) files.push(...(await readEntry(child)));
+        readChunk();
+      }, reject);
+    readChunk();
+  });
+}
+
+/** Collects files from a drop, descending into dropped folders. */
+export async function collectDroppedFiles(
+  dataTransfer: DataTransfer
+): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  for (const entry of entries) files.push(...(await readEntry(entry)));
+  return files;
+}
+
+/**
+ * Runs tasks with at most `limit` in flight. Resolves once every task has
+ * settled; individual failures are left to the tasks themselves.
+ */
+export async function runWithConcurrency(
+  tasks: (() => Promise<void>)[],
+  limit: number
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      await task().catch(() => {});
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, tasks.length) }, worker)
+  );
+}
+
+export function aggregateByModel(
+  runs: BatchRuns,
+  modelIds: string[]
+): ModelAggregate[] {
+  return modelIds.map((modelId) => {
+    const states = Object.values(runs)
+      .map((row) => row[modelId])
+      .filter(Boolean);
+    const results = states
+      .filter((s) => s.status === "success" && s.result)
+      .map((s) => s.result!);
+    const totalCost = results.reduce((sum, r) => sum + r.cost, 0);
+    const totalDuration = results.reduce((sum, r) => sum + r.duration, 0);
+
+    return {
+      modelId,
+      completed: results.length,
+      failed: states.filter((s) => s.status === "error").length,
+      pending: states.filter(
+        (s) => s.status === "idle" || s.status === "loading"
+      ).length,
+      totalCost,
+      avgCost: results.length > 0 ? totalCost / results.length : 0,
+      avgDuration: results.length > 0 ? totalDuration / results.length : 0,
+      totalTokens: results.reduce((sum, r) => sum + r.usage.totalTokens, 0),
+    };
+  });
+}
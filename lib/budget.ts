@@ -0,0 +1,79 @@
+import type { ApiKey } from "@/lib/api-keys";
+import { formatCost } from "@/lib/models";
+import { checkDailySpend, hasDailySpend } from "@/lib/ratelimit";
+
+/** Server-side limits on estimated spend, in USD; null when unset. */
+export type SpendCaps = {
+  perRun: number | null;
+  perDay: number | null;
+};
+
+export type BudgetResult =
+  { success: true } | { success: false; error: string };
+
+function envCap(name: string): number | null {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0
+    ? value
+    : null;
+}
+
+/** `SPEND_CAP_PER_RUN`, and `SPEND_CAP_PER_DAY` across all callers. */
+export function spendCaps(): SpendCaps {
+  return {
+    perRun: envCap("SPEND_CAP_PER_RUN"),
+    perDay: envCap("SPEND_CAP_PER_DAY"),
+  };
+}
+
+/** Rejects a single request that could cost more than the per-run cap. */
+export function checkRunCap(cost: number): BudgetResult {
+  const { perRun } = spendCaps();
+  if (perRun === null || cost <= perRun) return { success: true };
+  return {
+    success: false,
+    error: `This run could cost up to ${formatCost(cost)}, over the ${formatCost(perRun)} per-run cap`,
+  };
+}
+
+type DailyCap = { identifier: string; cap: number; error: string };
+
+/**
+ * Counts `cost` against the daily cap and, for API requests, the key's
+ * `dailySpendCap`. Days reset at midnight UTC. Both caps are checked before
+ * either is charged, so a request rejected by one does not use up the other.
+ */
+export async function reserveSpend(
+  cost: number,
+  apiKey?: ApiKey
+): Promise<BudgetResult> {
+  const { perDay } = spendCaps();
+  const caps: DailyCap[] = [];
+  // The key comes first: should a concurrent request take the global
+  // budget between the check and the charge, only this key loses out
+  if (apiKey?.dailySpendCap) {
+    caps.push({
+      identifier: `key:${apiKey.id}`,
+      cap: apiKey.dailySpendCap,
+      error: `This API key's daily spend cap of ${formatCost(apiKey.dailySpendCap)} has been reached`,
+    });
+  }
+  if (perDay !== null) {
+    caps.push({
+      identifier: "all",
+      cap: perDay,
+      error: `The daily spend cap of ${formatCost(perDay)} has been reached`,
+    });
+  }
+
+  for (const { identifier, cap, error } of caps) {
+    if (!(await hasDailySpend(identifier, cap, cost))) {
+      return { success: false, error };
+    }
+  }
+  for (const { identifier, cap, error } of caps) {
+    const result = await checkDailySpend(identifier, cap, cost);
+    if (!result.success) return { success: false, error };
+  }
+  return { success: true };
+}
@@ -0,0 +1,67 @@
+import { isIP } from "net";
+import type { NextRequest } from "next/server";
+
+const DEFAULT_TRUSTED_PROXIES = 1;
+
+function trustedProxies(): number {
+  const value = Number(process.env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(value) && value >= 0
+    ? value
+    : DEFAULT_TRUSTED_PROXIES;
+}
+
+/** Expands `::` so an IPv6 address has all eight groups. */
+function expandIPv6(ip: string): string[] {
+  const [head, tail] = ip.split("::");
+  const left = head ? head.split(":") : [];
+  const right = tail !== undefined && tail !== "" ? tail.split(":") : [];
+  const fill = tail === undefined ? 0 : 8 - left.length - right.length;
+  return [...left, ...Array<string>(fill).fill("0"), ...right].map((g) =>
+    g.padStart(4, "0")
+  );
+}
+
+/**
+ * Strips ports, brackets and zone ids, unwraps IPv4-mapped IPv6, and
+ * reduces other IPv6 addresses to their /64 prefix, the block one client
+ * usually controls. Returns null for anything that is not an IP address.
+ */
+export function normalizeIp(raw: string): string | null {
+  let ip = raw.trim().toLowerCase();
+  const bracketed = ip.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) ip = bracketed[1];
+  else if (/^[\d.]+:\d+$/.test(ip)) ip = ip.slice(0, ip.lastIndexOf(":"));
+  ip = ip.replace(/%.*$/, "");
+
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) ip = mapped[1];
+
+  const version = isIP(ip);
+  if (version === 4) return ip;
+  if (version !== 6) return null;
+  return `${expandIPv6(ip).slice(0, 4).join(":")}::/64`;
+}
+
+/**
+ * The caller's address, read from `x-forwarded-for`. Each proxy appends the
+ * address it received the request from, so with `TRUSTED_PROXY_COUNT`
+ * proxies in front of the app (default 1, e.g. Vercel) the client is that
+ * many entries from the right; anything further left is client-supplied
+ * and can be spoofed. `x-real-ip` is used when there is no forwarded chain.
+ */
+export function clientIp(req: NextRequest): string {
+  const chain = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const hops = trustedProxies();
+
+  let candidate: string | null | undefined;
+  if (hops > 0 && chain.length > 0) {
+    candidate = chain[Math.max(0, chain.length - hops)];
+  } else if (hops > 0) {
+    candidate = req.headers.get("x-real-ip");
+  }
+
+  return (candidate && normalizeIp(candidate)) || "anonymous";
+}
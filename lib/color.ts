@@ -0,0 +1,71 @@
+export type Lab = { l: number; a: number; b: number };
+
+/** ΔE beyond which two colors read as unrelated; used to normalize scores. */
+export const MAX_DELTA_E = 100;
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export function parseHex(hex: string): [number, number, number] | null {
+  const match = HEX_PATTERN.exec(hex.trim());
+  if (!match) return null;
+  const digits =
+    match[1].length === 3
+      ? match[1]
+          .split("")
+          .map((d) => d + d)
+          .join("")
+      : match[1];
+  return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+/** Converts an sRGB hex code to CIE L*a*b* (D65 white point). */
+export function hexToLab(hex: string): Lab | null {
+  const rgb = parseHex(hex);
+  if (!rgb) return null;
+  const [r, g, b] = rgb.map(toLinear);
+
+  const x = (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047;
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const z = (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/** CIE76 color difference: Euclidean distance in Lab space. */
+export function deltaE(a: Lab, b: Lab): number {
+  return Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b);
+}
+
+/**
+ * Symmetric palette distance: the mean ΔE from each color to its nearest
+ * neighbour in the other palette, averaged over both directions.
+ */
+export function paletteDistance(a: string[], b: string[]): number {
+  const labsA = a.map(hexToLab).filter((c): c is Lab => c !== null);
+  const labsB = b.map(hexToLab).filter((c): c is Lab => c !== null);
+  if (labsA.length === 0 || labsB.length === 0) return MAX_DELTA_E;
+
+  const nearest = (from: Lab[], to: Lab[]) =>
+    from.reduce(
+      (sum, c) => sum + Math.min(...to.map((d) => deltaE(c, d))),
+      0
+    ) / from.length;
+
+  return (nearest(labsA, labsB) + nearest(labsB, labsA)) / 2;
+}
@@ -0,0 +1,263 @@
+import { MAX_DELTA_E, paletteDistance } from "@/lib/color";
+import { jaccard, normalizeText, textSimilarity } from "@/lib/similarity";
+import type { MetadataResult, MetadataValue, SchemaField } from "@/lib/schema";
+
+/**
+ * How a field's values are compared and merged:
+ * - vote: plurality of exact (normalized) values, e.g. category
+ * - numeric: median, similarity by relative difference
+ * - text: medoid by edit-distance similarity, e.g. description
+ * - set: items present in at least half the results, Jaccard similarity
+ * - palette: medoid of hex palettes by ΔE distance in Lab space
+ * - medoid: medoid by similarity of the serialized value
+ */
+export type ConsensusKind =
+  | "vote"
+  | "numeric"
+  | "text"
+  | "set"
+  | "palette"
+  | "medoid";
+
+export type FieldConsensus = {
+  field: string;
+  kind: ConsensusKind;
+  value: MetadataValue;
+  /** Mean similarity of every model's value to the consensus value (0-1). */
+  confidence: number;
+  /** Similarity of each model's value to the consensus value (0-1). */
+  perModel: Record<string, number>;
+  /** Mean pairwise palette distance, only set for palette fields. */
+  meanDeltaE?: number;
+};
+
+export type ConsensusReport = {
+  fields: FieldConsensus[];
+  metadata: MetadataResult;
+  /** Mean per-field agreement of each model with the consensus (0-1). */
+  modelScores: Record<string, number>;
+  outliers: string[];
+};
+
+/** Below this many results, agreement scores are too noisy to flag outliers. */
+const MIN_RESULTS_FOR_OUTLIERS = 3;
+/** Words at or under which a string field is treated as a label to vote on. */
+const LABEL_MAX_WORDS = 3;
+
+function isPaletteField(field: SchemaField): boolean {
+  return (
+    field.array &&
+    field.type === "object" &&
+    !!field.fields?.some((f) => f.name === "hex")
+  );
+}
+
+/** Picks the comparison kind for a field from its definition and values. */
+export function fieldKind(
+  field: SchemaField,
+  values: MetadataValue[]
+): ConsensusKind {
+  if (isPaletteField(field)) return "palette";
+  if (field.array) return field.type === "object" ? "medoid" : "set";
+  if (field.type === "object") return "medoid";
+  if (field.type === "number") return "numeric";
+  if (field.type === "string") {
+    const isLabel = values.every(
+      (v) =>
+        typeof v !== "string" ||
+        v.trim().split(/\s+/).length <= LABEL_MAX_WORDS
+    );
+    return isLabel ? "vote" : "text";
+  }
+  return "vote";
+}
+
+export function hexesOf(value: MetadataValue): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) =>
+      item && typeof item === "object" && !Array.isArray(item)
+        ? String(item.hex ?? "")
+        : ""
+    )
+    .filter(Boolean);
+}
+
+export function stringsOf(value: MetadataValue): string[] {
+  return Array.isArray(value) ? value.map((v) => String(v)) : [];
+}
+
+/** Normalized identity of a value, so "Portrait" and "portrait " match. */
+export function voteKey(value: MetadataValue): string {
+  return typeof value === "string" ? normalizeText(value) : JSON.stringify(value);
+}
+
+/** Similarity of two values of the same field, from 0 (unrelated) to 1. */
+export function similarity(
+  kind: ConsensusKind,
+  a: MetadataValue,
+  b: MetadataValue
+): number {
+  if (a === null || b === null) return a === b ? 1 : 0;
+
+  switch (kind) {
+    case "vote":
+      return voteKey(a) === voteKey(b) ? 1 : 0;
+    case "numeric": {
+      const x = Number(a);
+      const y = Number(b);
+      return 1 - Math.min(1, Math.abs(x - y) / Math.max(Math.abs(x), Math.abs(y), 1));
+    }
+    case "text":
+      return textSimilarity(String(a), String(b));
+    case "set":
+      return jaccard(stringsOf(a), stringsOf(b));
+    case "palette":
+      return 1 - Math.min(1, paletteDistance(hexesOf(a), hexesOf(b)) / MAX_DELTA_E);
+    case "medoid":
+      return textSimilarity(JSON.stringify(a), JSON.stringify(b));
+  }
+}
+
+/** The value with the highest total similarity to all others. */
+function medoid(kind: ConsensusKind, values: MetadataValue[]): MetadataValue {
+  let best = values[0];
+  let bestScore = -1;
+  for (const candidate of values) {
+    const score = values.reduce<number>(
+      (sum, other) => sum + similarity(kind, candidate, other),
+      0
+    );
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function plurality(values: MetadataValue[]): MetadataValue {
+  const counts = new Map<string, { value: MetadataValue; count: number }>();
+  for (const value of values) {
+    const key = voteKey(value);
+    const entry = counts.get(key) ?? { value, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count)[0].value;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Items listed by at least half of the results, most frequent first. */
+function majoritySet(values: MetadataValue[]): MetadataValue {
+  const lists = values.filter(Array.isArray);
+  if (lists.length === 0) return null;
+
+  const counts = new Map<string, { item: string; count: number }>();
+  for (const list of lists) {
+    for (const item of new Set(stringsOf(list))) {
+      const key = normalizeText(item);
+      const entry = counts.get(key) ?? { item, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+  return [...counts.values()]
+    .filter((e) => e.count >= lists.length / 2)
+    .sort((a, b) => b.count - a.count)
+    .map((e) => e.item);
+}
+
+function consensusValue(
+  kind: ConsensusKind,
+  values: MetadataValue[]
+): MetadataValue {
+  const nonNull = values.filter((v) => v !== null);
+  // A field most models left empty stays empty in the consensus
+  if (nonNull.length < values.length / 2) return null;
+
+  switch (kind) {
+    case "vote":
+      return plurality(nonNull);
+    case "numeric":
+      return median(nonNull.map(Number));
+    case "set":
+      return majoritySet(nonNull);
+    default:
+      return medoid(kind, nonNull);
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+}
+
+/** Mean ΔE over every pair of palettes, a measure of color drift. */
+export function meanPairwiseDeltaE(values: MetadataValue[]): number {
+  const distances: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      distances.push(paletteDistance(hexesOf(values[i]), hexesOf(values[j])));
+    }
+  }
+  return mean(distances);
+}
+
+/**
+ * Compares completed results field by field and merges them into a single
+ * consensus record. Models whose overall agreement falls more than one
+ * standard deviation below the mean are reported as outliers.
+ */
+export function buildConsensus(
+  fields: SchemaField[],
+  results: { modelId: string; metadata: MetadataResult }[]
+): ConsensusReport {
+  const consensusFields = fields.map((field): FieldConsensus => {
+    const values = results.map((r) => r.metadata[field.name] ?? null);
+    const kind = fieldKind(field, values);
+    const value = consensusValue(kind, values);
+    const perModel = Object.fromEntries(
+      results.map((r, i) => [r.modelId, similarity(kind, values[i], value)])
+    );
+
+    return {
+      field: field.name,
+      kind,
+      value,
+      confidence: mean(Object.values(perModel)),
+      perModel,
+      ...(kind === "palette" && { meanDeltaE: meanPairwiseDeltaE(values) }),
+    };
+  });
+
+  const modelScores = Object.fromEntries(
+    results.map((r) => [
+      r.modelId,
+      mean(consensusFields.map((f) => f.perModel[r.modelId])),
+    ])
+  );
+
+  const scores = Object.values(modelScores);
+  const avg = mean(scores);
+  const stdDev = Math.sqrt(mean(scores.map((s) => (s - avg) ** 2)));
+  const outliers =
+    results.length >= MIN_RESULTS_FOR_OUTLIERS
+      ? Object.entries(modelScores)
+          .filter(([, score]) => score < avg - stdDev)
+          .map(([modelId]) => modelId)
+      : [];
+
+  return {
+    fields: consensusFields,
+    metadata: Object.fromEntries(consensusFields.map((f) => [f.field, f.value])),
+    modelScores,
+    outliers,
+  };
+}
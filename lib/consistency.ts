@@ -0,0 +1,155 @@
+import {
+  fieldKind,
+  meanPairwiseDeltaE,
+  similarity,
+  stringsOf,
+  voteKey,
+  type ConsensusKind,
+} from "@/lib/consensus";
+import type { ExtractionResult } from "@/lib/extract-client";
+import { normalizeText } from "@/lib/similarity";
+import type { SchemaField } from "@/lib/schema";
+
+export const REPEAT_OPTIONS = [1, 3, 5, 10] as const;
+export const MAX_TEMPERATURE = 2;
+
+/** Temperature and seed forwarded to the model; unset uses its defaults. */
+export type SamplingOptions = {
+  temperature?: number;
+  seed?: number;
+};
+
+/** Every repeated extraction of one model, in completion order. */
+export type SampleSet = {
+  results: ExtractionResult[];
+  failed: number;
+};
+
+export type FieldStability = {
+  field: string;
+  kind: ConsensusKind;
+  /** Mean pairwise similarity across samples (0-1). */
+  stability: number;
+  /** Share of samples that differ from the most common value. */
+  changeRate: number;
+  /** Items listed in every sample and in any sample, for list fields. */
+  stableItems?: number;
+  totalItems?: number;
+  /** Mean pairwise palette distance, for palette fields. */
+  meanDeltaE?: number;
+};
+
+export type ConsistencyReport = {
+  modelId: string;
+  samples: number;
+  failed: number;
+  fields: FieldStability[];
+  /** Mean field stability (0-1). */
+  stability: number;
+  totalCost: number;
+  /** What the samples beyond the first cost. */
+  repeatCost: number;
+  minDuration: number;
+  maxDuration: number;
+};
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+}
+
+function pairwise<T>(values: T[], score: (a: T, b: T) => number): number {
+  const scores: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      scores.push(score(values[i], values[j]));
+    }
+  }
+  return scores.length > 0 ? mean(scores) : 1;
+}
+
+function itemCounts(lists: string[][]): { stable: number; total: number } {
+  const sets = lists.map((list) => new Set(list.map(normalizeText)));
+  const union = new Set(sets.flatMap((set) => [...set]));
+  const stable = [...union].filter((item) => sets.every((s) => s.has(item)));
+  return { stable: stable.length, total: union.size };
+}
+
+/**
+ * How much one model's output moves between identical calls: pairwise
+ * similarity per field, how often the value flips away from its most common
+ * form, list item turnover and palette drift in ΔE.
+ */
+export function measureConsistency(
+  fields: SchemaField[],
+  modelId: string,
+  samples: SampleSet
+): ConsistencyReport {
+  const { results, failed } = samples;
+  const stabilities = fields.map((field): FieldStability => {
+    const values = results.map((r) => r.metadata[field.name] ?? null);
+    const kind = fieldKind(field, values);
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      const key = voteKey(value);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    const mostCommon = Math.max(0, ...counts.values());
+    const items =
+      kind === "set" ? itemCounts(values.map(stringsOf)) : undefined;
+
+    return {
+      field: field.name,
+      kind,
+      stability: pairwise(values, (a, b) => similarity(kind, a, b)),
+      changeRate: values.length > 0 ? 1 - mostCommon / values.length : 0,
+      ...(items && { stableItems: items.stable, totalItems: items.total }),
+      ...(kind === "palette" && { meanDeltaE: meanPairwiseDeltaE(values) }),
+    };
+  });
+
+  const costs = results.map((r) => r.cost);
+  const durations = results.map((r) => r.duration);
+  const totalCost = costs.reduce((sum, c) => sum + c, 0);
+
+  return {
+    modelId,
+    samples: results.length,
+    failed,
+    fields: stabilities,
+    stability: mean(stabilities.map((f) => f.stability)),
+    totalCost,
+    repeatCost: totalCost - (costs[0] ?? 0),
+    minDuration: durations.length > 0 ? Math.min(...durations) : 0,
+    maxDuration: durations.length > 0 ? Math.max(...durations) : 0,
+  };
+}
+
+/** Parses the optional `temperature` and `seed` form fields. */
+export function parseSamplingOptions(
+  temperature: string | null,
+  seed: string | null
+):
+  | { success: true; options: SamplingOptions }
+  | { success: false; error: string } {
+  const options: SamplingOptions = {};
+  if (temperature) {
+    const value = Number(temperature);
+    if (!Number.isFinite(value) || value < 0 || value > MAX_TEMPERATURE) {
+      return {
+        success: false,
+        error: `temperature must be between 0 and ${MAX_TEMPERATURE}`,
+      };
+    }
+    options.temperature = value;
+  }
+  if (seed) {
+    const value = Number(seed);
+    if (!Number.isSafeInteger(value)) {
+      return { success: false, error: "seed must be an integer" };
+    }
+    options.seed = value;
+  }
+  return { success: true, options };
+}
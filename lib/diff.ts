@@ -0,0 +1,58 @@
+import { fieldKind, similarity } from "@/lib/consensus";
+import type { MetadataResult, MetadataValue, SchemaField } from "@/lib/schema";
+
+export type DiffStatus = "same" | "changed" | "added" | "removed";
+
+export type FieldDiff = {
+  field: SchemaField;
+  status: DiffStatus;
+  before: MetadataValue | undefined;
+  after: MetadataValue | undefined;
+  /** Similarity of the two values (0-1), using the consensus comparison. */
+  similarity: number;
+};
+
+/** Fields of both schemas by name, keeping the first schema's order. */
+export function unionFields(
+  a: SchemaField[],
+  b: SchemaField[]
+): SchemaField[] {
+  const names = new Set(a.map((f) => f.name));
+  return [...a, ...b.filter((f) => !names.has(f.name))];
+}
+
+/**
+ * Compares two extractions field by field. Fields missing from one side
+ * (because the schemas differ) are reported as added or removed.
+ */
+export function diffMetadata(
+  fields: SchemaField[],
+  before: MetadataResult,
+  after: MetadataResult
+): FieldDiff[] {
+  return fields.map((field) => {
+    const inBefore = field.name in before;
+    const inAfter = field.name in after;
+    const a = before[field.name];
+    const b = after[field.name];
+
+    if (!inBefore || !inAfter) {
+      return {
+        field,
+        status: inAfter ? "added" : "removed",
+        before: a,
+        after: b,
+        similarity: 0,
+      };
+    }
+
+    const score = similarity(fieldKind(field, [a, b]), a, b);
+    return {
+      field,
+      status: JSON.stringify(a) === JSON.stringify(b) ? "same" : "changed",
+      before: a,
+      after: b,
+      similarity: score,
+    };
+  });
+}
@@ -0,0 +1,438 @@
+import { toXmp, type EmbeddableMetadata } from "@/lib/export";
+
+export type EmbedResult =
+  | { success: true; bytes: Uint8Array; type: string }
+  | { success: false; error: string };
+
+const encoder = new TextEncoder();
+
+const EXIF_HEADER = encoder.encode("Exif\0\0");
+const XMP_HEADER = encoder.encode("http://ns.adobe.com/xap/1.0/\0");
+const XMP_EXTENSION_HEADER = encoder.encode(
+  "http://ns.adobe.com/xmp/extension/\0"
+);
+const PHOTOSHOP_HEADER = encoder.encode("Photoshop 3.0\0");
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_XMP_KEYWORD = "XML:com.adobe.xmp";
+/** A JPEG segment's length field covers itself, so payloads top out here. */
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+
+// IIM record 2 dataset limits, in bytes
+const IPTC_TITLE_MAX = 64;
+const IPTC_KEYWORD_MAX = 64;
+const IPTC_CAPTION_MAX = 2000;
+
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_XP_TITLE = 0x9c9b;
+const TAG_XP_KEYWORDS = 0x9c9e;
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+
+function startsWith(bytes: Uint8Array, prefix: Uint8Array, at = 0): boolean {
+  if (bytes.length < at + prefix.length) return false;
+  return prefix.every((b, i) => bytes[at + i] === b);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** Encodes and cuts to `max` bytes without splitting a character. */
+function utf8(value: string, max = Infinity): Uint8Array {
+  const bytes = encoder.encode(value);
+  if (bytes.length <= max) return bytes;
+  let end = max;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.slice(0, end);
+}
+
+// ── EXIF ─────────────────────────────────────────────────────────────
+
+type IfdEntry = { tag: number; type: number; count: number; data: Uint8Array };
+
+/** Windows XP* tags hold NUL-terminated UCS-2 little-endian text. */
+function ucs2(value: string): Uint8Array {
+  const bytes = new Uint8Array((value.length + 1) * 2);
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    bytes[i * 2] = code & 0xff;
+    bytes[i * 2 + 1] = code >> 8;
+  }
+  return bytes;
+}
+
+function exifEntries(metadata: EmbeddableMetadata): IfdEntry[] {
+  const entries: IfdEntry[] = [];
+  if (metadata.description) {
+    const data = concat([utf8(metadata.description), new Uint8Array(1)]);
+    entries.push({
+      tag: TAG_IMAGE_DESCRIPTION,
+      type: TYPE_ASCII,
+      count: data.length,
+      data,
+    });
+  }
+  if (metadata.title) {
+    const data = ucs2(metadata.title);
+    entries.push({
+      tag: TAG_XP_TITLE,
+      type: TYPE_BYTE,
+      count: data.length,
+      data,
+    });
+  }
+  if (metadata.tags.length > 0) {
+    const data = ucs2(metadata.tags.join(";"));
+    entries.push({
+      tag: TAG_XP_KEYWORDS,
+      type: TYPE_BYTE,
+      count: data.length,
+      data,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Writes our IFD0 tags into TIFF data (the body of an EXIF block). Rather
+ * than moving existing data, a new IFD0 is appended that copies the old
+ * entries alongside ours, and the header is pointed at it. Every existing
+ * offset (Exif and GPS sub-IFDs, thumbnail, maker notes) stays valid.
+ * Returns null when the existing IFD0 runs past the end of the data.
+ */
+function writeTiff(
+  tiff: Uint8Array | null,
+  ours: IfdEntry[]
+): Uint8Array | null {
+  if (tiff && tiff.length < 8) return null;
+  const base =
+    tiff ?? new Uint8Array([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]);
+  const view = new DataView(base.buffer, base.byteOffset, base.byteLength);
+  const little = base[0] === 0x49;
+  const oldIfd = view.getUint32(4, little);
+
+  // Existing entries are copied verbatim; inline values and offsets both
+  // stay correct because nothing before the end of the data moves
+  const copied: { tag: number; raw: Uint8Array }[] = [];
+  let next = 0;
+  if (tiff) {
+    if (oldIfd + 2 > base.length) return null;
+    const count = view.getUint16(oldIfd, little);
+    if (oldIfd + 2 + count * 12 + 4 > base.length) return null;
+    for (let i = 0; i < count; i++) {
+      const at = oldIfd + 2 + i * 12;
+      const tag = view.getUint16(at, little);
+      if (ours.some((e) => e.tag === tag)) continue;
+      copied.push({ tag, raw: base.slice(at, at + 12) });
+    }
+    next = view.getUint32(oldIfd + 2 + count * 12, little);
+  }
+
+  const start = tiff ? base.length + (base.length % 2) : 8;
+  const count = copied.length + ours.length;
+  const ifdSize = 2 + count * 12 + 4;
+  const values: Uint8Array[] = [];
+  let valueOffset = start + ifdSize;
+
+  const rows = [
+    ...copied,
+    ...ours.map((entry) => {
+      const raw = new Uint8Array(12);
+      const row = new DataView(raw.buffer);
+      row.setUint16(0, entry.tag, little);
+      row.setUint16(2, entry.type, little);
+      row.setUint32(4, entry.count, little);
+      if (entry.data.length <= 4) {
+        raw.set(entry.data, 8);
+      } else {
+        row.setUint32(8, valueOffset, little);
+        values.push(entry.data);
+        valueOffset += entry.data.length + (entry.data.length % 2);
+        if (entry.data.length % 2) values.push(new Uint8Array(1));
+      }
+      return { tag: entry.tag, raw };
+    }),
+  ].sort((a, b) => a.tag - b.tag);
+
+  const ifd = new Uint8Array(ifdSize);
+  const ifdView = new DataView(ifd.buffer);
+  ifdView.setUint16(0, count, little);
+  rows.forEach((row, i) => ifd.set(row.raw, 2 + i * 12));
+  ifdView.setUint32(2 + count * 12, next, little);
+
+  const out = concat([
+    tiff ? base : base.slice(0, 8),
+    new Uint8Array(start - (tiff ? base.length : 8)),
+    ifd,
+    ...values,
+  ]);
+  new DataView(out.buffer).setUint32(4, start, little);
+  return out;
+}
+
+// ── IPTC ─────────────────────────────────────────────────────────────
+
+function iimDataset(record: number, dataset: number, data: Uint8Array) {
+  const header = new Uint8Array([
+    0x1c,
+    record,
+    dataset,
+    data.length >> 8,
+    data.length & 0xff,
+  ]);
+  return concat([header, data]);
+}
+
+/** IPTC-IIM record 2 with UTF-8 declared, as Photoshop resource 0x0404. */
+function iptcBlock(metadata: EmbeddableMetadata): Uint8Array {
+  const datasets = [
+    iimDataset(1, 90, new Uint8Array([0x1b, 0x25, 0x47])),
+    iimDataset(2, 0, new Uint8Array([0x00, 0x04])),
+  ];
+  if (metadata.title) {
+    datasets.push(iimDataset(2, 5, utf8(metadata.title, IPTC_TITLE_MAX)));
+  }
+  for (const tag of metadata.tags) {
+    datasets.push(iimDataset(2, 25, utf8(tag, IPTC_KEYWORD_MAX)));
+  }
+  if (metadata.description) {
+    datasets.push(
+      iimDataset(2, 120, utf8(metadata.description, IPTC_CAPTION_MAX))
+    );
+  }
+  return concat(datasets);
+}
+
+/** Photoshop image resources: `8BIM`, id, padded Pascal name, sized data. */
+function parseResources(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const resources: { id: number; raw: Uint8Array }[] = [];
+  let at = 0;
+  while (
+    at + 12 <= bytes.length &&
+    startsWith(bytes, encoder.encode("8BIM"), at)
+  ) {
+    const id = view.getUint16(at + 4);
+    const nameLength = bytes[at + 6];
+    const nameSize = nameLength + 1 + ((nameLength + 1) % 2);
+    const sizeAt = at + 6 + nameSize;
+    if (sizeAt + 4 > bytes.length) break;
+    const size = view.getUint32(sizeAt);
+    const end = sizeAt + 4 + size + (size % 2);
+    resources.push({ id, raw: bytes.slice(at, end) });
+    at = end;
+  }
+  return resources;
+}
+
+function iptcResource(iptc: Uint8Array): Uint8Array {
+  const header = new Uint8Array(12);
+  header.set(encoder.encode("8BIM"));
+  const view = new DataView(header.buffer);
+  view.setUint16(4, 0x0404);
+  // Empty name: a zero length byte padded to two bytes
+  view.setUint32(8, iptc.length);
+  return concat([header, iptc, new Uint8Array(iptc.length % 2)]);
+}
+
+// ── JPEG ─────────────────────────────────────────────────────────────
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const length = payload.length + 2;
+  return concat([
+    new Uint8Array([0xff, marker, length >> 8, length & 0xff]),
+    payload,
+  ]);
+}
+
+/**
+ * Rewrites the metadata segments of a JPEG without touching the image
+ * data: EXIF is updated in place, XMP is replaced and the IPTC resource is
+ * swapped inside the existing Photoshop block, keeping its other resources.
+ */
+function embedJpeg(
+  bytes: Uint8Array,
+  metadata: EmbeddableMetadata
+): EmbedResult {
+  const segments: { marker: number; payload: Uint8Array }[] = [];
+  let at = 2;
+  while (at + 4 <= bytes.length) {
+    if (bytes[at] !== 0xff) {
+      return { success: false, error: "Malformed JPEG segment" };
+    }
+    const marker = bytes[at + 1];
+    // Start of scan: everything after it is entropy-coded image data
+    if (marker === 0xda) break;
+    const length = (bytes[at + 2] << 8) | bytes[at + 3];
+    segments.push({ marker, payload: bytes.slice(at + 4, at + 2 + length) });
+    at += 2 + length;
+  }
+  const imageData = bytes.slice(at);
+
+  const exif = segments.find(
+    (s) => s.marker === 0xe1 && startsWith(s.payload, EXIF_HEADER)
+  );
+  const photoshop = segments.find(
+    (s) => s.marker === 0xed && startsWith(s.payload, PHOTOSHOP_HEADER)
+  );
+  const kept = segments.filter(
+    (s) =>
+      s !== exif &&
+      s !== photoshop &&
+      !(
+        s.marker === 0xe1 &&
+        (startsWith(s.payload, XMP_HEADER) ||
+          startsWith(s.payload, XMP_EXTENSION_HEADER))
+      )
+  );
+
+  const tiff = writeTiff(
+    exif ? exif.payload.slice(EXIF_HEADER.length) : null,
+    exifEntries(metadata)
+  );
+  if (!tiff) return { success: false, error: "Malformed EXIF data" };
+  const resources = photoshop
+    ? parseResources(photoshop.payload.slice(PHOTOSHOP_HEADER.length))
+    : [];
+  const payloads = {
+    exif: concat([EXIF_HEADER, tiff]),
+    xmp: concat([XMP_HEADER, encoder.encode(toXmp(metadata))]),
+    iptc: concat([
+      PHOTOSHOP_HEADER,
+      ...resources.filter((r) => r.id !== 0x0404).map((r) => r.raw),
+      iptcResource(iptcBlock(metadata)),
+    ]),
+  };
+  for (const [name, payload] of Object.entries(payloads)) {
+    if (payload.length > MAX_SEGMENT_PAYLOAD) {
+      return {
+        success: false,
+        error: `Metadata too large for the ${name} block`,
+      };
+    }
+  }
+
+  // JFIF/JFXX must stay first; our blocks follow them
+  const leading = kept.filter((s) => s.marker === 0xe0);
+  const rest = kept.filter((s) => s.marker !== 0xe0);
+  return {
+    success: true,
+    type: "image/jpeg",
+    bytes: concat([
+      new Uint8Array([0xff, 0xd8]),
+      ...leading.map((s) => jpegSegment(s.marker, s.payload)),
+      jpegSegment(0xe1, payloads.exif),
+      jpegSegment(0xe1, payloads.xmp),
+      jpegSegment(0xed, payloads.iptc),
+      ...rest.map((s) => jpegSegment(s.marker, s.payload)),
+      imageData,
+    ]),
+  };
+}
+
+// ── PNG ──────────────────────────────────────────────────────────────
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const body = concat([encoder.encode(type), data]);
+  const chunk = new Uint8Array(body.length + 8);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(body, 4);
+  view.setUint32(body.length + 4, crc32(body));
+  return chunk;
+}
+
+/**
+ * PNG has no IPTC block, so the IPTC properties travel in the XMP `iTXt`
+ * chunk; EXIF goes in `eXIf`. Both are placed before the image data.
+ */
+function embedPng(
+  bytes: Uint8Array,
+  metadata: EmbeddableMetadata
+): EmbedResult {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; raw: Uint8Array; data: Uint8Array }[] = [];
+  let at = PNG_SIGNATURE.length;
+  while (at + 12 <= bytes.length) {
+    const length = view.getUint32(at);
+    const type = String.fromCharCode(...bytes.slice(at + 4, at + 8));
+    const end = at + 12 + length;
+    chunks.push({
+      type,
+      raw: bytes.slice(at, end),
+      data: bytes.slice(at + 8, at + 8 + length),
+    });
+    at = end;
+  }
+
+  const keyword = encoder.encode(`${PNG_XMP_KEYWORD}\0`);
+  const exif = chunks.find((c) => c.type === "eXIf");
+  const kept = chunks.filter(
+    (c) => c !== exif && !(c.type === "iTXt" && startsWith(c.data, keyword))
+  );
+  const firstData = kept.findIndex((c) => c.type === "IDAT");
+  if (firstData === -1)
+    return { success: false, error: "PNG has no image data" };
+
+  // iTXt: keyword, uncompressed flag and method, empty language and
+  // translated keyword, then the UTF-8 text
+  const itxt = concat([
+    keyword,
+    new Uint8Array([0, 0, 0, 0]),
+    encoder.encode(toXmp(metadata)),
+  ]);
+  const tiff = writeTiff(exif?.data ?? null, exifEntries(metadata));
+  if (!tiff) return { success: false, error: "Malformed EXIF data" };
+  const added = [pngChunk("eXIf", tiff), pngChunk("iTXt", itxt)];
+
+  return {
+    success: true,
+    type: "image/png",
+    bytes: concat([
+      new Uint8Array(PNG_SIGNATURE),
+      ...kept.slice(0, firstData).map((c) => c.raw),
+      ...added,
+      ...kept.slice(firstData).map((c) => c.raw),
+    ]),
+  };
+}
+
+/**
+ * Returns the original image with title, description, tags and alt text
+ * written into its EXIF, IPTC and XMP metadata. Pixels are not re-encoded.
+ */
+export function embedMetadata(
+  bytes: Uint8Array,
+  metadata: EmbeddableMetadata
+): EmbedResult {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return embedJpeg(bytes, metadata);
+  if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+    return embedPng(bytes, metadata);
+  }
+  return {
+    success: false,
+    error: "Embedding supports JPEG and PNG; use the XMP sidecar instead",
+  };
+}
@@ -0,0 +1,72 @@
+import { calculateCost, type ModelConfig } from "@/lib/models";
+import { estimateImageTokens, type PreprocessOptions } from "@/lib/preprocess";
+import type { ExtractionSchema } from "@/lib/schema";
+
+/** Rough characters per token for English prose and JSON. */
+const CHARS_PER_TOKEN = 4;
+/** Output budgeted per top-level schema field, plus the JSON around them. */
+const OUTPUT_TOKENS_PER_FIELD = 60;
+const OUTPUT_OVERHEAD_TOKENS = 50;
+
+export type ImageSize = { width: number; height: number };
+
+export type UsageEstimate = {
+  /** Input tokens, of which `imageTokens` are for the image. */
+  inputTokens: number;
+  imageTokens: number;
+  outputTokens: number;
+  /** USD at the model's list price. */
+  cost: number;
+};
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Dimensions the models see once the server has preprocessed the image. */
+export function preprocessedSize(
+  size: ImageSize,
+  options: PreprocessOptions
+): ImageSize {
+  if (!options.enabled) return size;
+  const scale = Math.min(
+    1,
+    options.maxDimension / Math.max(size.width, size.height)
+  );
+  return {
+    width: Math.round(size.width * scale),
+    height: Math.round(size.height * scale),
+  };
+}
+
+/**
+ * Predicts one extraction's tokens and cost before it runs: the image from
+ * its dimensions, the prompt and schema from their length, and the output
+ * from the number of fields.
+ */
+export function estimateExtraction(
+  model: ModelConfig,
+  image: ImageSize,
+  prompt: string,
+  schema: ExtractionSchema
+): UsageEstimate {
+  const imageTokens = estimateImageTokens(
+    model.provider,
+    image.width,
+    image.height
+  );
+  const inputTokens =
+    imageTokens +
+    estimateTextTokens(prompt) +
+    estimateTextTokens(JSON.stringify(schema));
+  const outputTokens =
+    Object.keys(schema.properties).length * OUTPUT_TOKENS_PER_FIELD +
+    OUTPUT_OVERHEAD_TOKENS;
+
+  return {
+    inputTokens,
+    imageTokens,
+    outputTokens,
+    cost: calculateCost(model, inputTokens, outputTokens),
+  };
+}
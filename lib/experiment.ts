@@ -0,0 +1,91 @@
+import { diffMetadata, type FieldDiff } from "@/lib/diff";
+import type { ModelExtractionState } from "@/lib/extract-client";
+import type { SchemaField } from "@/lib/schema";
+
+export const MAX_VARIANTS = 4;
+
+export type PromptVariant = {
+  id: string;
+  prompt: string;
+};
+
+/** Per variant id, per model id extraction state. */
+export type ExperimentRuns = Record<
+  string,
+  Record<string, ModelExtractionState>
+>;
+
+export type VariantSummary = {
+  variantId: string;
+  completed: number;
+  failed: number;
+  totalCost: number;
+  totalTokens: number;
+  avgDuration: number;
+};
+
+/** A, B, C... in the order variants were added. */
+export function variantLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+export function createVariant(prompt: string): PromptVariant {
+  return { id: crypto.randomUUID(), prompt };
+}
+
+/**
+ * Totals for one variant over `modelIds`. Pass `comparableModels` when
+ * comparing variants, so a failure on one side does not skew the deltas.
+ */
+export function summarizeVariant(
+  runs: ExperimentRuns,
+  variantId: string,
+  modelIds: string[]
+): VariantSummary {
+  const states = modelIds.map((id) => runs[variantId]?.[id]).filter(Boolean);
+  const results = states
+    .filter((s) => s.status === "success" && s.result)
+    .map((s) => s.result!);
+  return {
+    variantId,
+    completed: results.length,
+    failed: states.filter((s) => s.status === "error").length,
+    totalCost: results.reduce((sum, r) => sum + r.cost, 0),
+    totalTokens: results.reduce((sum, r) => sum + r.usage.totalTokens, 0),
+    avgDuration:
+      results.length > 0
+        ? results.reduce((sum, r) => sum + r.duration, 0) / results.length
+        : 0,
+  };
+}
+
+/** Models every variant extracted successfully. */
+export function comparableModels(
+  runs: ExperimentRuns,
+  variantIds: string[],
+  modelIds: string[]
+): string[] {
+  return modelIds.filter((modelId) =>
+    variantIds.every((v) => runs[v]?.[modelId]?.status === "success")
+  );
+}
+
+/** Field diffs of each variant against the baseline for one model. */
+export function diffVariants(
+  runs: ExperimentRuns,
+  variantIds: string[],
+  modelId: string,
+  fields: SchemaField[]
+): Record<string, FieldDiff[]> {
+  const [baseline, ...rest] = variantIds;
+  const base = runs[baseline]?.[modelId]?.result;
+  if (!base) return {};
+  return Object.fromEntries(
+    rest.flatMap((variantId) => {
+      const result = runs[variantId]?.[modelId]?.result;
+      return result
+        ? [[variantId, diffMetadata(fields, base.metadata, result.metadata)]]
+        : [];
+    })
+  );
+}
@@ -0,0 +1,262 @@
+import type { ExtractionResult } from "@/lib/extract-client";
+import { localizedMetadata, translatableFields } from "@/lib/locales";
+import {
+  fieldsToJsonSchema,
+  type MetadataResult,
+  type MetadataValue,
+  type SchemaField,
+} from "@/lib/schema";
+
+/** A completed extraction as exported, keyed by the model that produced it. */
+export type ExportResult = ExtractionResult & { modelId: string };
+
+export type ExportContext = {
+  imageName: string;
+  prompt: string;
+  fields: SchemaField[];
+  /** Output locales, primary first. Extra ones carry `translations`. */
+  locales?: string[];
+};
+
+/** Base name for exported files, e.g. `beach.jpg` → `beach`. */
+export function exportBaseName(imageName: string): string {
+  const path = imageName.replace(/[?#].*$/, "");
+  const name = path.split("/").filter(Boolean).pop() ?? "image";
+  return name.replace(/\.[^.]+$/, "") || "image";
+}
+
+// ── JSON / CSV ───────────────────────────────────────────────────────
+
+export function toJsonExport(
+  results: ExportResult[],
+  { imageName, prompt, fields, locales = [] }: ExportContext
+): string {
+  return JSON.stringify(
+    {
+      image: imageName,
+      prompt,
+      fields: fields.map((f) => f.name),
+      ...(locales.length > 0 && { locales }),
+      exportedAt: new Date().toISOString(),
+      results: results.map((r) => ({
+        model: r.modelId,
+        metadata: r.metadata,
+        usage: r.usage,
+        duration: r.duration,
+        cost: r.cost,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/** Flattens a value into one spreadsheet cell; palettes become hex lists. */
+function cellValue(value: MetadataValue | undefined): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) {
+    return value
+      .map((item) =>
+        item &&
+        typeof item === "object" &&
+        !Array.isArray(item) &&
+        "hex" in item
+          ? String(item.hex)
+          : typeof item === "object"
+            ? JSON.stringify(item)
+            : String(item)
+      )
+      .join("; ");
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/** Cells a spreadsheet would evaluate as a formula when opened. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function isFormula(value: string): boolean {
+  if (!FORMULA_PREFIX.test(value)) return false;
+  // Plain numbers such as negative costs stay numeric
+  return value.trim() === "" || !Number.isFinite(Number(value));
+}
+
+export function csvEscape(value: string): string {
+  const safe = isFormula(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * One row per model, usage columns first, then one column per field and
+ * one per translated field and extra locale, e.g. `title_fr`.
+ */
+export function toCsvExport(
+  results: ExportResult[],
+  { fields, locales = [] }: ExportContext
+): string {
+  const translated = translatableFields(fieldsToJsonSchema(fields));
+  const extra = locales.slice(1);
+  const header = [
+    "model",
+    "input_tokens",
+    "output_tokens",
+    "duration_ms",
+    "cost_usd",
+    ...fields.map((f) => f.name),
+    ...extra.flatMap((locale) => translated.map((name) => `${name}_${locale}`)),
+  ];
+  const rows = results.map((r) => [
+    r.modelId,
+    String(r.usage.promptTokens),
+    String(r.usage.completionTokens),
+    String(r.duration),
+    r.cost.toFixed(6),
+    ...fields.map((f) =>
+      cellValue(localizedMetadata(r.metadata, locales, locales[0])[f.name])
+    ),
+    ...extra.flatMap((locale) => {
+      const localized = localizedMetadata(r.metadata, locales, locale);
+      return translated.map((name) => cellValue(localized[name]));
+    }),
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvEscape).join(","))
+    .join("\r\n");
+}
+
+// ── XMP ──────────────────────────────────────────────────────────────
+
+/**
+ * The fields written to XMP, IPTC and EXIF. Anything else in the schema is
+ * left out, since those standards have no matching property.
+ */
+export type EmbeddableMetadata = {
+  title?: string;
+  description?: string;
+  tags: string[];
+  altText?: string;
+  /** Primary language of the text, as a BCP 47 tag. */
+  language?: string;
+  /** Title, description and alt text in further languages. */
+  translations?: Record<
+    string,
+    Pick<EmbeddableMetadata, "title" | "description" | "altText">
+  >;
+};
+
+function stringField(value: MetadataValue | undefined): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Picks the embeddable fields. With several locales, the first fills the
+ * default values and the others become XMP language alternatives.
+ */
+export function embeddableMetadata(
+  metadata: MetadataResult,
+  locales: string[] = []
+): EmbeddableMetadata {
+  const primary = localizedMetadata(metadata, locales, locales[0]);
+  const tags = Array.isArray(primary.tags)
+    ? primary.tags.filter((t): t is string => typeof t === "string")
+    : [];
+  const text = (m: MetadataResult) => ({
+    title: stringField(m.title),
+    description: stringField(m.description),
+    altText: stringField(m.altText),
+  });
+  return {
+    ...text(primary),
+    tags,
+    ...(locales.length > 0 && { language: locales[0] }),
+    ...(locales.length > 1 && {
+      translations: Object.fromEntries(
+        locales
+          .slice(1)
+          .map((locale) => [
+            locale,
+            text(localizedMetadata(metadata, locales, locale)),
+          ])
+      ),
+    }),
+  };
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** An rdf:Alt with the default value first, then any translations. */
+function langAlt(
+  tag: string,
+  value: string,
+  language?: string,
+  translations: [string, string | undefined][] = []
+): string {
+  const items = [
+    ["x-default", value],
+    ...(language ? [[language, value]] : []),
+    ...translations.filter((t): t is [string, string] => !!t[1]),
+  ];
+  return `   <${tag}>
+    <rdf:Alt>
+${items.map(([lang, text]) => `     <rdf:li xml:lang="${lang}">${xmlEscape(text)}</rdf:li>`).join("\n")}
+    </rdf:Alt>
+   </${tag}>`;
+}
+
+/**
+ * An XMP packet mapping title to dc:title, description to dc:description,
+ * tags to dc:subject and altText to the IPTC Core alt text property. Used
+ * both as a `.xmp` sidecar and as the XMP block of an embedded download.
+ */
+export function toXmp(metadata: EmbeddableMetadata): string {
+  const alt = (tag: string, key: "title" | "description" | "altText") => {
+    const value = metadata[key];
+    if (!value) return undefined;
+    const translations = Object.entries(metadata.translations ?? {}).map(
+      ([lang, t]): [string, string | undefined] => [lang, t[key]]
+    );
+    return langAlt(tag, value, metadata.language, translations);
+  };
+  const properties = [
+    alt("dc:title", "title"),
+    alt("dc:description", "description"),
+    metadata.tags.length > 0 &&
+      `   <dc:subject>
+    <rdf:Bag>
+${metadata.tags.map((t) => `     <rdf:li>${xmlEscape(t)}</rdf:li>`).join("\n")}
+    </rdf:Bag>
+   </dc:subject>`,
+    alt("Iptc4xmpCore:AltTextAccessibility", "altText"),
+  ].filter(Boolean);
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/">
+${properties.join("\n")}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+/** Saves text or bytes through a temporary object URL. */
+export function downloadFile(
+  content: BlobPart,
+  fileName: string,
+  type: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
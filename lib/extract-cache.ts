@@ -0,0 +1,184 @@
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import path from "path";
+import type { ExtractInput } from "@/lib/extract";
+import { sha256Hex } from "@/lib/hash";
+import { getRedis } from "@/lib/redis";
+import type { MetadataResult } from "@/lib/schema";
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_MAX_ENTRIES = 500;
+
+/** A stored model response, replayed for identical requests. */
+export type CachedExtraction = {
+  metadata: MetadataResult;
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number };
+  duration: number;
+  timeToFirstField?: number;
+  cachedAt: number;
+};
+
+/**
+ * Storage for cached extractions. Entries expire after `ttlSeconds`; a miss,
+ * an expired entry and an unreadable one all read as null.
+ */
+export type ExtractionCache = {
+  get(key: string): Promise<CachedExtraction | null>;
+  set(key: string, value: CachedExtraction, ttlSeconds: number): Promise<void>;
+};
+
+type Expiring = { value: CachedExtraction; expiresAt: number };
+
+/** In-process LRU; the default, and lost on restart. */
+export function createMemoryCache(maxEntries: number): ExtractionCache {
+  const entries = new Map<string, Expiring>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+      // Re-inserting moves the key to the most recently used end
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value, ttlSeconds) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
+
+/** One JSON file per key; expired files are removed when next read. */
+export function createFilesystemCache(dir: string): ExtractionCache {
+  const file = (key: string) => path.join(dir, `${key}.json`);
+
+  return {
+    async get(key) {
+      let entry: Expiring;
+      try {
+        entry = JSON.parse(await readFile(file(key), "utf8"));
+      } catch {
+        return null;
+      }
+      if (entry.expiresAt > Date.now()) return entry.value;
+      await unlink(file(key)).catch(() => {});
+      return null;
+    },
+
+    async set(key, value, ttlSeconds) {
+      await mkdir(dir, { recursive: true });
+      const entry: Expiring = {
+        value,
+        expiresAt: Date.now() + ttlSeconds * 1000,
+      };
+      await writeFile(file(key), JSON.stringify(entry));
+    },
+  };
+}
+
+/** Upstash Redis, shared across instances; Redis handles expiry. */
+export function createRedisCache(): ExtractionCache | null {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  const redisKey = (key: string) => `extract-cache:${key}`;
+  return {
+    async get(key) {
+      return redis.get<CachedExtraction>(redisKey(key));
+    },
+    async set(key, value, ttlSeconds) {
+      await redis.set(redisKey(key), value, { ex: ttlSeconds });
+    },
+  };
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/** Backends selectable through `EXTRACT_CACHE`; `off` disables caching. */
+const EXTRACTION_CACHES: Record<string, () => ExtractionCache | null> = {
+  memory: () =>
+    createMemoryCache(
+      envNumber("EXTRACT_CACHE_MAX_ENTRIES", DEFAULT_MAX_ENTRIES)
+    ),
+  filesystem: () =>
+    createFilesystemCache(
+      path.resolve(process.env.EXTRACT_CACHE_DIR ?? ".data/extract-cache")
+    ),
+  redis: createRedisCache,
+  off: () => null,
+};
+
+let _cache: ExtractionCache | null | undefined;
+
+function getExtractionCache(): ExtractionCache | null {
+  if (_cache !== undefined) return _cache;
+
+  const backend = process.env.EXTRACT_CACHE ?? "memory";
+  const create = EXTRACTION_CACHES[backend];
+  _cache = create?.() ?? null;
+  if (!_cache && backend !== "off") {
+    console.error(
+      `[extract-cache] "${backend}" is unknown or not configured, using memory`
+    );
+    _cache = EXTRACTION_CACHES.memory();
+  }
+  return _cache;
+}
+
+/**
+ * Identifies a request by what reaches the model: the image bytes after
+ * preprocessing, model id, prompt, schema and sampling options.
+ */
+export async function extractionCacheKey({
+  imageBytes,
+  modelId,
+  prompt,
+  schema,
+  sampling,
+}: ExtractInput): Promise<string> {
+  return sha256Hex(
+    JSON.stringify({
+      image: await sha256Hex(imageBytes as Uint8Array<ArrayBuffer>),
+      modelId,
+      prompt,
+      schema,
+      sampling: sampling ?? {},
+    })
+  );
+}
+
+/** Cached result for the key, or null. Cache failures count as misses. */
+export async function readCachedExtraction(
+  key: string
+): Promise<CachedExtraction | null> {
+  try {
+    return (await getExtractionCache()?.get(key)) ?? null;
+  } catch (error) {
+    console.error("[extract-cache] read error:", error);
+    return null;
+  }
+}
+
+export async function writeCachedExtraction(
+  key: string,
+  result: Omit<CachedExtraction, "cachedAt">
+): Promise<void> {
+  const { metadata, usage, duration, timeToFirstField } = result;
+  try {
+    await getExtractionCache()?.set(
+      key,
+      { metadata, usage, duration, timeToFirstField, cachedAt: Date.now() },
+      envNumber("EXTRACT_CACHE_TTL", DEFAULT_TTL_SECONDS)
+    );
+  } catch (error) {
+    console.error("[extract-cache] write error:", error);
+  }
+}
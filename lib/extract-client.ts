@@ -0,0 +1,278 @@
+import { calculateCost, type ModelConfig } from "@/lib/models";
+import type { SamplingOptions } from "@/lib/consistency";
+import {
+  isExtractErrorCode,
+  type ExtractErrorCode,
+  type ModelFailure,
+} from "@/lib/extract-errors";
+import type { PreprocessOptions, PreprocessStats } from "@/lib/preprocess";
+import type {
+  ExtractionSchema,
+  MetadataResult,
+  PartialMetadata,
+} from "@/lib/schema";
+
+export type ExtractionResult = {
+  metadata: MetadataResult;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  duration: number;
+  /** Milliseconds until the first field arrived, for streamed extractions. */
+  timeToFirstField?: number;
+  /** Before/after sizes, when the image was preprocessed. */
+  preprocess?: PreprocessStats;
+  /** Set when the server answered from its cache, which costs nothing. */
+  cachedAt?: number;
+  /** The model that answered; a fallback when the selected one failed. */
+  model: string;
+  /** Models that failed before `model` answered. */
+  failures?: ModelFailure[];
+  cost: number;
+};
+
+export type ModelExtractionState = {
+  status: "idle" | "loading" | "success" | "error";
+  result?: ExtractionResult;
+  /** Fields received so far while a streamed extraction is in flight. */
+  partial?: PartialMetadata;
+  error?: string;
+  errorCode?: ExtractErrorCode;
+};
+
+/** One model's progress in the NDJSON body from `/api/extract/multi`. */
+export type ExtractStreamEvent =
+  | { type: "partial"; metadata: PartialMetadata }
+  | {
+      type: "done";
+      metadata: MetadataResult;
+      usage: ExtractionResult["usage"];
+      duration: number;
+      timeToFirstField: number;
+      preprocess?: PreprocessStats;
+      cachedAt?: number;
+      model: string;
+      failures?: ModelFailure[];
+    }
+  | {
+      type: "error";
+      error: string;
+      code?: ExtractErrorCode;
+      failures?: ModelFailure[];
+    };
+
+/** One NDJSON line from `/api/extract/multi`, tagged with its model. */
+export type MultiExtractEvent = ExtractStreamEvent & { modelId: string };
+
+export type ExtractRequest = {
+  /** An uploaded file, or a URL the server fetches the image from. */
+  image: File | string;
+  /** Registry entry, so costs use its (possibly overridden) pricing. */
+  model: ModelConfig;
+  prompt: string;
+  schema: ExtractionSchema;
+  preprocess?: PreprocessOptions;
+  sampling?: SamplingOptions;
+  /** Bypass the server cache and pay for a fresh response. */
+  refresh?: boolean;
+  /** Tried in order when `model` fails; also used to price their answers. */
+  fallbacks?: ModelConfig[];
+  /** Output languages; the first is primary, the rest go in `translations`. */
+  locales?: string[];
+};
+
+/** One image across several models, uploaded once. */
+export type MultiExtractRequest = Omit<ExtractRequest, "model" | "fallbacks"> & {
+  models: ModelConfig[];
+  /** Fallbacks keyed by selected model id. */
+  fallbacks?: Record<string, ModelConfig[]>;
+};
+
+export type MultiExtractHandlers = {
+  /** When set, partial objects are streamed as well as final results. */
+  onPartial?: (modelId: string, metadata: PartialMetadata) => void;
+  onResult: (modelId: string, result: ExtractionResult) => void;
+  onError: (modelId: string, error: ExtractionError) => void;
+};
+
+/** A failed extraction, with the server's error code when it sent one. */
+export class ExtractionError extends Error {
+  constructor(
+    message: string,
+    readonly code?: ExtractErrorCode
+  ) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+function sharedFormData({
+  image,
+  prompt,
+  schema,
+  preprocess,
+  sampling,
+  refresh,
+  locales,
+}: Omit<ExtractRequest, "model" | "fallbacks">) {
+  const formData = new FormData();
+  if (typeof image === "string") formData.append("imageUrl", image);
+  else formData.append("image", image);
+  formData.append("prompt", prompt);
+  formData.append("schema", JSON.stringify(schema));
+  if (preprocess) formData.append("preprocess", JSON.stringify(preprocess));
+  if (sampling?.temperature !== undefined) {
+    formData.append("temperature", String(sampling.temperature));
+  }
+  if (sampling?.seed !== undefined) formData.append("seed", String(sampling.seed));
+  if (refresh) formData.append("refresh", "1");
+  if (locales?.length) formData.append("locales", locales.join(","));
+  return formData;
+}
+
+async function throwResponseError(res: Response): Promise<never> {
+  const err = await res.json().catch(() => ({}));
+  throw new ExtractionError(
+    err.error || `HTTP ${res.status}`,
+    isExtractErrorCode(err.code) ? err.code : undefined
+  );
+}
+
+/**
+ * Prices the result with the model that answered. Cached responses cost
+ * nothing, whatever the model's pricing.
+ */
+function withCost(
+  data: Omit<ExtractionResult, "cost">,
+  { model, fallbacks = [] }: ExtractRequest
+): ExtractionResult {
+  const answered = fallbacks.find((m) => m.id === data.model) ?? model;
+  const cost =
+    data.cachedAt !== undefined
+      ? 0
+      : calculateCost(
+          answered,
+          data.usage.promptTokens,
+          data.usage.completionTokens
+        );
+  return { ...data, cost };
+}
+
+/** Parses an NDJSON body line by line as it arrives. */
+async function* readEvents<T>(body: ReadableStream) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+  }
+}
+
+function doneResult(
+  event: Extract<ExtractStreamEvent, { type: "done" }>,
+  request: ExtractRequest
+): ExtractionResult {
+  return withCost(
+    {
+      metadata: event.metadata,
+      usage: event.usage,
+      duration: event.duration,
+      timeToFirstField: event.timeToFirstField,
+      preprocess: event.preprocess,
+      cachedAt: event.cachedAt,
+      model: event.model,
+      failures: event.failures,
+    },
+    request
+  );
+}
+
+/**
+ * Runs every model through `/api/extract/multi` with a single upload,
+ * reporting each model as it finishes. Throws only when the whole request
+ * is rejected, e.g. by the rate limit; once the stream is open, failures
+ * are reported through `onError` for the models still pending.
+ */
+export async function extractWithModels(
+  request: MultiExtractRequest,
+  { onPartial, onResult, onError }: MultiExtractHandlers
+): Promise<void> {
+  const { models, fallbacks = {}, ...shared } = request;
+  const formData = sharedFormData(shared);
+  formData.append("models", models.map((m) => m.id).join(","));
+  formData.append(
+    "fallbacks",
+    JSON.stringify(
+      Object.fromEntries(
+        models.map((m) => [m.id, (fallbacks[m.id] ?? []).map((f) => f.id)])
+      )
+    )
+  );
+  if (onPartial) formData.append("partials", "1");
+
+  const res = await fetch("/api/extract/multi", {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!res.ok || !res.body) await throwResponseError(res);
+
+  const pending = new Set(models.map((m) => m.id));
+  let streamError: ExtractionError | null = null;
+  try {
+    for await (const event of readEvents<MultiExtractEvent>(res.body!)) {
+      const model = models.find((m) => m.id === event.modelId);
+      if (!model) continue;
+      if (event.type === "partial") onPartial?.(model.id, event.metadata);
+      if (event.type === "error") {
+        pending.delete(model.id);
+        onError(model.id, new ExtractionError(event.error, event.code));
+      }
+      if (event.type === "done") {
+        pending.delete(model.id);
+        onResult(
+          model.id,
+          doneResult(event, {
+            ...shared,
+            model,
+            fallbacks: fallbacks[model.id],
+          })
+        );
+      }
+    }
+  } catch (err: unknown) {
+    streamError = new ExtractionError(errorMessage(err));
+  }
+
+  for (const modelId of pending) {
+    onError(
+      modelId,
+      streamError ??
+        new ExtractionError("Stream ended before extraction finished")
+    );
+  }
+}
+
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : "Unknown error";
+}
+
+/** Card state for a failed extraction, keeping the server's error code. */
+export function errorState(err: unknown) {
+  return {
+    status: "error" as const,
+    error: errorMessage(err),
+    errorCode: err instanceof ExtractionError ? err.code : undefined,
+  };
+}
@@ -0,0 +1,68 @@
+export const EXTRACT_ERROR_CODES = [
+  "timeout",
+  "rate_limited",
+  "auth",
+  "content_refused",
+  "schema_validation",
+  "invalid_request",
+  "provider_error",
+  "budget_exceeded",
+  "unknown",
+] as const;
+
+export type ExtractErrorCode = (typeof EXTRACT_ERROR_CODES)[number];
+
+/** A classified model failure, as returned by the extract routes. */
+export type ExtractionFailure = {
+  code: ExtractErrorCode;
+  message: string;
+};
+
+/** A failure of one model in a fallback chain. */
+export type ModelFailure = ExtractionFailure & { model: string };
+
+export const ERROR_DETAILS: Record<
+  ExtractErrorCode,
+  { label: string; hint: string }
+> = {
+  timeout: {
+    label: "Timed out",
+    hint: "The model did not answer in time. Try again or add a fallback.",
+  },
+  rate_limited: {
+    label: "Rate limited",
+    hint: "Too many requests. Wait a moment before retrying.",
+  },
+  auth: {
+    label: "Not authorized",
+    hint: "Check the API key for this model's backend.",
+  },
+  content_refused: {
+    label: "Refused",
+    hint: "The model declined to describe this image.",
+  },
+  schema_validation: {
+    label: "Invalid output",
+    hint: "The response did not match the schema. Simpler fields may help.",
+  },
+  invalid_request: {
+    label: "Request rejected",
+    hint: "The provider rejected the request, e.g. an unsupported image.",
+  },
+  provider_error: {
+    label: "Provider error",
+    hint: "The provider failed to respond. Retrying may help.",
+  },
+  budget_exceeded: {
+    label: "Over budget",
+    hint: "Over a spend cap. Try cheaper models or a smaller image.",
+  },
+  unknown: {
+    label: "Extraction failed",
+    hint: "",
+  },
+};
+
+export function isExtractErrorCode(value: unknown): value is ExtractErrorCode {
+  return EXTRACT_ERROR_CODES.includes(value as ExtractErrorCode);
+}
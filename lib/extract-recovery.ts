@@ -0,0 +1,170 @@
+import {
+  APICallError,
+  LoadAPIKeyError,
+  NoObjectGeneratedError,
+  RetryError,
+  type LanguageModelUsage,
+} from "ai";
+import type {
+  ExtractErrorCode,
+  ExtractionFailure,
+  ModelFailure,
+} from "@/lib/extract-errors";
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10_000;
+
+/** HTTP status for a request whose whole fallback chain failed. */
+export const ERROR_STATUS: Record<ExtractErrorCode, number> = {
+  timeout: 504,
+  rate_limited: 429,
+  auth: 502,
+  content_refused: 502,
+  schema_validation: 502,
+  invalid_request: 502,
+  provider_error: 502,
+  budget_exceeded: 402,
+  unknown: 500,
+};
+
+/** Failures worth retrying on the same model; others go to the fallback. */
+const RETRYABLE: ReadonlySet<ExtractErrorCode> = new Set([
+  "rate_limited",
+  "schema_validation",
+  "provider_error",
+]);
+
+const REFUSAL_PATTERN = /refus|content (policy|filter)|safety|blocked/i;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function statusCodeOf(error: unknown): number | undefined {
+  const status = (error as { statusCode?: unknown } | null)?.statusCode;
+  return typeof status === "number" ? status : undefined;
+}
+
+function classifyStatus(status: number): ExtractErrorCode {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 408) return "timeout";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "provider_error";
+  return "invalid_request";
+}
+
+/** Maps an AI SDK or provider error to a code the UI can render. */
+export function classifyError(
+  error: unknown,
+  timedOut = false
+): ExtractionFailure {
+  const message =
+    error instanceof Error ? error.message : "Failed to extract metadata";
+  if (timedOut) return { code: "timeout", message: "Model timed out" };
+  if (RetryError.isInstance(error)) {
+    return classifyError(error.lastError);
+  }
+
+  let code: ExtractErrorCode = "unknown";
+  const status = statusCodeOf(error);
+  if (NoObjectGeneratedError.isInstance(error)) {
+    code =
+      error.finishReason === "content-filter" || REFUSAL_PATTERN.test(message)
+        ? "content_refused"
+        : "schema_validation";
+  } else if (LoadAPIKeyError.isInstance(error)) {
+    code = "auth";
+  } else if (status !== undefined) {
+    code = classifyStatus(status);
+    if (code === "invalid_request" && REFUSAL_PATTERN.test(message)) {
+      code = "content_refused";
+    }
+  } else if (APICallError.isInstance(error)) {
+    code = error.isRetryable ? "provider_error" : "invalid_request";
+  } else if (error instanceof TypeError && /fetch/i.test(message)) {
+    code = "provider_error";
+  }
+  return { code, message };
+}
+
+/** Exponential backoff with jitter, or the provider's `retry-after`. */
+function backoffMs(error: unknown, attempt: number): number {
+  const retryAfter = APICallError.isInstance(error)
+    ? Number(error.responseHeaders?.["retry-after"])
+    : NaN;
+  const delay = Number.isFinite(retryAfter)
+    ? retryAfter * 1000
+    : BASE_BACKOFF_MS * 2 ** attempt * (1 + Math.random());
+  return Math.min(delay, MAX_BACKOFF_MS);
+}
+
+/** Calls `withRecovery` may make to one model: the first and its retries. */
+export function attemptsPerModel(): number {
+  return 1 + envNumber("EXTRACT_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+}
+
+/** Tokens one failed call used, e.g. output that failed the schema. */
+export type AttemptUsage = {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+/** `spent` holds the failed attempts that reported token usage. */
+export type RecoveryResult<T> = (
+  | { success: true; value: T; modelId: string; failures: ModelFailure[] }
+  | { success: false; failure: ExtractionFailure; failures: ModelFailure[] }
+) & { spent: AttemptUsage[] };
+
+/** Usage reported by a failed call; most errors come before any tokens. */
+function usageOf(error: unknown): LanguageModelUsage | undefined {
+  if (RetryError.isInstance(error)) return usageOf(error.lastError);
+  return NoObjectGeneratedError.isInstance(error) ? error.usage : undefined;
+}
+
+/**
+ * Runs `attempt` against each model in turn until one succeeds. Every call
+ * gets its own timeout (`EXTRACT_TIMEOUT_MS`); transient failures are
+ * retried on the same model up to `EXTRACT_MAX_RETRIES` times first.
+ */
+export async function withRecovery<T>(
+  modelIds: string[],
+  attempt: (modelId: string, abortSignal: AbortSignal) => Promise<T>
+): Promise<RecoveryResult<T>> {
+  const timeoutMs = envNumber("EXTRACT_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const maxRetries = attemptsPerModel() - 1;
+  const failures: ModelFailure[] = [];
+  const spent: AttemptUsage[] = [];
+
+  for (const modelId of modelIds) {
+    for (let retry = 0; ; retry++) {
+      const signal = AbortSignal.timeout(timeoutMs);
+      try {
+        const value = await attempt(modelId, signal);
+        return { success: true, value, modelId, failures, spent };
+      } catch (error: unknown) {
+        const failure = classifyError(error, signal.aborted);
+        const usage = usageOf(error);
+        if (usage) {
+          spent.push({
+            model: modelId,
+            promptTokens: usage.inputTokens ?? 0,
+            completionTokens: usage.outputTokens ?? 0,
+          });
+        }
+        if (RETRYABLE.has(failure.code) && retry < maxRetries) {
+          await new Promise((r) => setTimeout(r, backoffMs(error, retry)));
+          continue;
+        }
+        failures.push({ ...failure, model: modelId });
+        break;
+      }
+    }
+  }
+
+  const { code, message } = failures[failures.length - 1];
+  return { success: false, failure: { code, message }, failures, spent };
+}
@@ -0,0 +1,159 @@
+import { streamObject } from "ai";
+import {
+  extractionOptions,
+  modelChain,
+  toUsage,
+  type ExtractInput,
+} from "@/lib/extract";
+import {
+  extractionCacheKey,
+  readCachedExtraction,
+  writeCachedExtraction,
+} from "@/lib/extract-cache";
+import type { ExtractStreamEvent } from "@/lib/extract-client";
+import { withRecovery } from "@/lib/extract-recovery";
+import { recordExtraction } from "@/lib/usage-store";
+
+export const NDJSON_HEADERS = {
+  "Content-Type": "application/x-ndjson; charset=utf-8",
+  "Cache-Control": "no-cache",
+};
+
+/**
+ * An NDJSON response fed by `run`. Models keep running after the client
+ * disconnects so their results are still cached and recorded; only the
+ * events are dropped.
+ */
+export function ndjsonResponse<T>(
+  signal: AbortSignal,
+  run: (send: (event: T) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  let open = true;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      await run((event) => {
+        if (!open || signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+        } catch {
+          open = false;
+        }
+      });
+      if (open && !signal.aborted) controller.close();
+    },
+    cancel() {
+      open = false;
+    },
+  });
+  return new Response(body, { headers: NDJSON_HEADERS });
+}
+
+export type CacheLookup = {
+  key: string;
+  /** The `done` event to replay, or null on a miss or forced refresh. */
+  hit: Extract<ExtractStreamEvent, { type: "done" }> | null;
+};
+
+export async function lookupCache(input: ExtractInput): Promise<CacheLookup> {
+  const key = await extractionCacheKey(input);
+  const cached = input.refresh ? null : await readCachedExtraction(key);
+  return {
+    key,
+    hit: cached && {
+      type: "done",
+      ...cached,
+      timeToFirstField: cached.timeToFirstField ?? cached.duration,
+      model: input.modelId,
+      ...(input.preprocess && { preprocess: input.preprocess }),
+    },
+  };
+}
+
+/** Records a replayed cache hit, which costs nothing. */
+export async function recordCacheHit(
+  input: ExtractInput,
+  hit: NonNullable<CacheLookup["hit"]>,
+  startedAt: number
+): Promise<void> {
+  await recordExtraction(
+    input,
+    {
+      status: "success",
+      model: input.modelId,
+      usage: hit.usage,
+      cached: true,
+    },
+    { source: "playground", startedAt }
+  );
+}
+
+/**
+ * Streams one model's extraction through `send`: partial objects as they
+ * arrive (unless `partials` is false), then a `done` or `error` event. Runs
+ * with retries and fallbacks, caches answers from the selected model and
+ * records the outcome for usage analytics.
+ */
+export async function streamExtraction(
+  input: ExtractInput,
+  cacheKey: string,
+  send: (event: ExtractStreamEvent) => void,
+  partials = true
+): Promise<void> {
+  const context = { source: "playground" as const, startedAt: Date.now() };
+  // A retry or fallback streams its partials over the failed attempt's
+  const attempt = async (modelId: string, signal: AbortSignal) => {
+    const startTime = Date.now();
+    const result = streamObject({
+      ...extractionOptions({ ...input, modelId }, signal),
+      // Errors reject `result.object`, and are classified from there
+      onError: () => {},
+    });
+
+    let timeToFirstField: number | null = null;
+    for await (const partial of result.partialObjectStream) {
+      if (timeToFirstField === null && Object.keys(partial).length > 0) {
+        timeToFirstField = Date.now() - startTime;
+      }
+      if (partials) send({ type: "partial", metadata: partial });
+    }
+
+    const [object, usage] = await Promise.all([result.object, result.usage]);
+    const duration = Date.now() - startTime;
+    return {
+      metadata: object,
+      usage: toUsage(usage),
+      duration,
+      timeToFirstField: timeToFirstField ?? duration,
+    };
+  };
+
+  const outcome = await withRecovery(modelChain(input), attempt);
+
+  if (!outcome.success) {
+    const { code, message } = outcome.failure;
+    console.error(`[extract/stream] ${input.modelId} ${code}:`, message);
+    await recordExtraction(
+      input,
+      { status: "error", code, spent: outcome.spent },
+      context
+    );
+    send({ type: "error", error: message, code, failures: outcome.failures });
+    return;
+  }
+
+  const { value: done, modelId, failures, spent } = outcome;
+  await recordExtraction(
+    input,
+    { status: "success", model: modelId, usage: done.usage, spent },
+    context
+  );
+  if (modelId === input.modelId) await writeCachedExtraction(cacheKey, done);
+  send({
+    type: "done",
+    ...done,
+    model: modelId,
+    ...(input.preprocess && { preprocess: input.preprocess }),
+    ...(failures.length > 0 && { failures }),
+  });
+}
@@ -0,0 +1,464 @@
+import { generateObject, jsonSchema, type LanguageModelUsage } from "ai";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  normalizeFallbacks,
+  parseFallbackChains,
+  type FallbackChains,
+} from "@/lib/fallbacks";
+import { checkRunCap, reserveSpend } from "@/lib/budget";
+import { clientIp } from "@/lib/client-ip";
+import { estimateExtraction } from "@/lib/estimate";
+import { attemptsPerModel } from "@/lib/extract-recovery";
+import {
+  fetchImage,
+  preprocessImage,
+  readImageSize,
+} from "@/lib/image-input";
+import { localizeExtraction, parseLocales } from "@/lib/locales";
+import { MODELS, type ModelConfig } from "@/lib/models";
+import { resolveModel } from "@/lib/providers";
+import { parseSamplingOptions, type SamplingOptions } from "@/lib/consistency";
+import {
+  parsePreprocessOptions,
+  type PreprocessOptions,
+  type PreprocessStats,
+} from "@/lib/preprocess";
+import {
+  ADMISSION_POLICY,
+  checkRateLimit,
+  modelPolicy,
+  playgroundPolicy,
+  rateLimitHeaders,
+  type RateLimitPolicy,
+  type RateLimitResult,
+  type RateLimitUsage,
+} from "@/lib/ratelimit";
+import { DEFAULT_PROMPT } from "@/lib/prompts";
+import {
+  DEFAULT_SCHEMA,
+  parseExtractionSchema,
+  schemaValidator,
+  type ExtractionSchema,
+  type MetadataResult,
+} from "@/lib/schema";
+
+export type ExtractInput = {
+  imageBytes: Uint8Array;
+  modelId: string;
+  prompt: string;
+  schema: ExtractionSchema;
+  /** Set when the image was preprocessed before extraction. */
+  preprocess?: PreprocessStats;
+  sampling?: SamplingOptions;
+  /** Skip the cache lookup; the fresh result still replaces the entry. */
+  refresh?: boolean;
+  /** Models to try, in order, when `modelId` fails. */
+  fallbacks?: string[];
+};
+
+/** Everything in an extract request apart from the model selection. */
+type SharedInput = Omit<ExtractInput, "modelId" | "fallbacks">;
+
+/** One image, run across several models by `/api/extract/multi`. */
+export type MultiExtractInput = SharedInput & {
+  modelIds: string[];
+  /** Fallback chains keyed by selected model id. */
+  fallbacks: FallbackChains;
+  /** Stream partial objects, not just each model's final result. */
+  partials: boolean;
+};
+
+/** Assumed when the image cannot be decoded, so estimates err high. */
+const FALLBACK_IMAGE_SIZE = { width: 2048, height: 2048 };
+
+/** Prices models the server does not know, e.g. ones added in the browser. */
+function priciestModel(): ModelConfig {
+  return MODELS.reduce((a, b) =>
+    b.inputCostPer1MTokens + b.outputCostPer1MTokens >
+    a.inputCostPer1MTokens + a.outputCostPer1MTokens
+      ? b
+      : a
+  );
+}
+
+/** Each model's estimated usage for one request, before it runs. */
+export type RunEstimate = { modelId: string; usage: RateLimitUsage }[];
+
+export async function estimateRun(
+  input: Pick<SharedInput, "imageBytes" | "preprocess" | "prompt" | "schema">,
+  modelIds: string[]
+): Promise<RunEstimate> {
+  const size =
+    input.preprocess ??
+    (await readImageSize(input.imageBytes)) ??
+    FALLBACK_IMAGE_SIZE;
+  return modelIds.map((modelId) => {
+    const model = MODELS.find((m) => m.id === modelId) ?? priciestModel();
+    const estimate = estimateExtraction(
+      model,
+      size,
+      input.prompt,
+      input.schema
+    );
+    const usage: RateLimitUsage = {
+      requests: 1,
+      tokens: estimate.inputTokens + estimate.outputTokens,
+      cost: estimate.cost,
+    };
+    return { modelId, usage };
+  });
+}
+
+export function estimatedCost(runs: RunEstimate): number {
+  return runs.reduce((sum, run) => sum + run.usage.cost, 0);
+}
+
+/** A model followed by its fallbacks, in the order they are tried. */
+export function modelChain(input: ExtractInput): string[] {
+  return [input.modelId, ...(input.fallbacks ?? [])];
+}
+
+/**
+ * The most a run can cost, when every model in each chain uses all its
+ * retries. Spend caps are checked against this rather than the estimate.
+ */
+export async function worstCaseCost(
+  input: Pick<SharedInput, "imageBytes" | "preprocess" | "prompt" | "schema">,
+  chains: string[][]
+): Promise<number> {
+  const runs = await estimateRun(input, chains.flat());
+  return estimatedCost(runs) * attemptsPerModel();
+}
+
+/**
+ * Checks each model's own limit (`RATE_LIMIT_MODELS`), then the caller's
+ * overall quota, charging the tokens and cost each model is estimated to
+ * use. Fallbacks are not charged; they only run when a model fails.
+ */
+export async function consumeQuota(
+  identifier: string,
+  policy: RateLimitPolicy,
+  runs: RunEstimate,
+  requests: number
+): Promise<{ result: RateLimitResult; modelId?: string }> {
+  for (const { modelId, usage } of runs) {
+    const perModel = modelPolicy(modelId);
+    if (!perModel) continue;
+    const result = await checkRateLimit(
+      `${identifier}:${modelId}`,
+      perModel,
+      usage
+    );
+    if (!result.success) return { result, modelId };
+  }
+
+  const total: RateLimitUsage = {
+    requests,
+    tokens: runs.reduce((sum, run) => sum + run.usage.tokens, 0),
+    cost: estimatedCost(runs),
+  };
+  return { result: await checkRateLimit(identifier, policy, total) };
+}
+
+function tooManyRequests(error: string, result: RateLimitResult) {
+  return NextResponse.json(
+    { error, code: "rate_limited" },
+    { status: 429, headers: rateLimitHeaders(result) }
+  );
+}
+
+/**
+ * A cheap per-IP request count, run before the body is parsed. Cache hits
+ * pass it but skip the quota and spend charged by `enforceLimits`.
+ */
+export async function admitRequest(
+  req: NextRequest
+): Promise<NextResponse | null> {
+  const result = await checkRateLimit(
+    `admit:${clientIp(req)}`,
+    ADMISSION_POLICY,
+    { requests: 1, tokens: 0, cost: 0 }
+  );
+  return result.success
+    ? null
+    : tooManyRequests("Too many requests. Please wait a moment.", result);
+}
+
+function overBudget(error: string) {
+  return NextResponse.json(
+    { error, code: "budget_exceeded" },
+    { status: 402 }
+  );
+}
+
+/**
+ * Returns a 402 response when the run could pass a spend cap, a 429 when
+ * the caller is over quota, otherwise null. `chains` holds each selected
+ * model and its fallbacks. A playground request counts once against the
+ * quota however many models it runs.
+ */
+export async function enforceLimits(
+  req: NextRequest,
+  input: SharedInput,
+  chains: string[][]
+): Promise<NextResponse | null> {
+  const runs = await estimateRun(
+    input,
+    chains.map(([modelId]) => modelId)
+  );
+  const cost = await worstCaseCost(input, chains);
+
+  const runCap = checkRunCap(cost);
+  if (!runCap.success) return overBudget(runCap.error);
+
+  const { result, modelId } = await consumeQuota(
+    clientIp(req),
+    playgroundPolicy(),
+    runs,
+    1
+  );
+  if (!result.success) {
+    return tooManyRequests(
+      modelId
+        ? `Too many requests for ${modelId}. Please wait or pick another model.`
+        : "Too many requests. Please wait a moment.",
+      result
+    );
+  }
+
+  const spend = await reserveSpend(cost);
+  if (!spend.success) return overBudget(spend.error);
+  return null;
+}
+
+export const MAX_FANOUT_MODELS = 20;
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+/**
+ * Parses the image, prompt, schema and options shared by the extract
+ * routes. The image is either an uploaded file or an `imageUrl` fetched
+ * server-side. `locales` rewrites the prompt and schema for the requested
+ * output languages.
+ */
+async function readSharedFields(
+  formData: FormData,
+  hasModel: boolean
+): Promise<SharedInput | NextResponse> {
+  const image = formData.get("image") as File | null;
+  const imageUrl = formData.get("imageUrl") as string | null;
+  const prompt = (formData.get("prompt") as string | null) || DEFAULT_PROMPT;
+  const rawSchema = formData.get("schema") as string | null;
+  const rawPreprocess = formData.get("preprocess") as string | null;
+  const locales = parseLocales(
+    String(formData.get("locales") ?? "").split(",")
+  );
+  const sampling = parseSamplingOptions(
+    formData.get("temperature") as string | null,
+    formData.get("seed") as string | null
+  );
+
+  if ((!image && !imageUrl) || !hasModel) {
+    return badRequest("Missing image or model");
+  }
+
+  let schema = DEFAULT_SCHEMA;
+  if (rawSchema) {
+    const parsed = parseExtractionSchema(rawSchema);
+    if (!parsed.success) return badRequest(parsed.error);
+    schema = parsed.schema;
+  }
+
+  if (!locales.success) return badRequest(locales.error);
+  const localized = localizeExtraction(prompt, schema, locales.locales);
+  if (!localized.success) return badRequest(localized.error);
+
+  if (!sampling.success) return badRequest(sampling.error);
+
+  let preprocess: PreprocessOptions | null = null;
+  if (rawPreprocess) {
+    const parsed = parsePreprocessOptions(rawPreprocess);
+    if (!parsed.success) return badRequest(parsed.error);
+    preprocess = parsed.options;
+  }
+
+  let imageBytes: Uint8Array;
+  if (image) {
+    imageBytes = new Uint8Array(await image.arrayBuffer());
+  } else {
+    const fetched = await fetchImage(imageUrl!);
+    if (!fetched.success) return badRequest(fetched.error);
+    imageBytes = fetched.bytes;
+  }
+
+  const prepared = await prepareImage(imageBytes, preprocess);
+  if (prepared instanceof NextResponse) return prepared;
+
+  return {
+    ...prepared,
+    prompt: localized.prompt,
+    schema: localized.schema,
+    sampling: sampling.options,
+    refresh: formData.get("refresh") === "1",
+  };
+}
+
+/** Parses a single-model multipart body, or returns a 400 response. */
+export async function readExtractRequest(
+  req: NextRequest
+): Promise<ExtractInput | NextResponse> {
+  const formData = await req.formData();
+  const modelId = formData.get("model") as string | null;
+  const rawFallbacks = formData.get("fallbacks") as string | null;
+
+  const shared = await readSharedFields(formData, !!modelId);
+  if (shared instanceof NextResponse) return shared;
+
+  return {
+    ...shared,
+    modelId: modelId!,
+    fallbacks: normalizeFallbacks((rawFallbacks ?? "").split(","), modelId!),
+  };
+}
+
+/**
+ * Parses a fan-out body: the shared fields plus `models`, a comma-separated
+ * list of ids, optional `fallbacks` chains as JSON and a `partials` flag.
+ */
+export async function readMultiExtractRequest(
+  req: NextRequest
+): Promise<MultiExtractInput | NextResponse> {
+  const formData = await req.formData();
+  const modelIds = [
+    ...new Set(
+      formData
+        .getAll("models")
+        .flatMap((v) => String(v).split(","))
+        .map((v) => v.trim())
+        .filter(Boolean)
+    ),
+  ];
+  const rawFallbacks = formData.get("fallbacks") as string | null;
+
+  if (modelIds.length > MAX_FANOUT_MODELS) {
+    return badRequest(`At most ${MAX_FANOUT_MODELS} models per request`);
+  }
+  const fallbacks = rawFallbacks ? parseFallbackChains(rawFallbacks) : {};
+  if (!fallbacks) return badRequest("Invalid fallbacks");
+
+  const shared = await readSharedFields(formData, modelIds.length > 0);
+  if (shared instanceof NextResponse) return shared;
+
+  return {
+    ...shared,
+    modelIds,
+    fallbacks,
+    partials: formData.get("partials") === "1",
+  };
+}
+
+/** The single-model input for one model of a fan-out. */
+export function fanOutInput(
+  input: MultiExtractInput,
+  modelId: string
+): ExtractInput {
+  return {
+    imageBytes: input.imageBytes,
+    preprocess: input.preprocess,
+    prompt: input.prompt,
+    schema: input.schema,
+    sampling: input.sampling,
+    refresh: input.refresh,
+    modelId,
+    fallbacks: normalizeFallbacks(input.fallbacks[modelId] ?? [], modelId),
+  };
+}
+
+/** Applies enabled preprocessing, or returns a 400 for undecodable images. */
+export async function prepareImage(
+  imageBytes: Uint8Array,
+  options: PreprocessOptions | null
+): Promise<
+  { imageBytes: Uint8Array; preprocess?: PreprocessStats } | NextResponse
+> {
+  if (!options?.enabled) return { imageBytes };
+
+  try {
+    const { bytes, stats } = await preprocessImage(imageBytes, options);
+    return { imageBytes: bytes, preprocess: stats };
+  } catch {
+    return NextResponse.json(
+      { error: "Image could not be decoded for preprocessing" },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * Shared `generateObject`/`streamObject` options for an extraction. The SDK's
+ * own retries are off; `withRecovery` retries and falls back instead.
+ */
+export function extractionOptions(
+  { imageBytes, modelId, prompt, schema, sampling }: ExtractInput,
+  abortSignal?: AbortSignal
+) {
+  const validator = schemaValidator(schema);
+
+  return {
+    model: resolveModel(modelId),
+    ...sampling,
+    maxRetries: 0,
+    abortSignal,
+    schema: jsonSchema<MetadataResult>(schema, {
+      validate: (value) => {
+        const result = validator.safeParse(value);
+        return result.success
+          ? { success: true, value: result.data as MetadataResult }
+          : { success: false, error: result.error };
+      },
+    }),
+    messages: [
+      {
+        role: "user" as const,
+        content: [
+          {
+            type: "text" as const,
+            text: prompt,
+          },
+          {
+            type: "image" as const,
+            image: imageBytes,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export function toUsage(usage: LanguageModelUsage) {
+  return {
+    promptTokens: usage.inputTokens ?? 0,
+    completionTokens: usage.outputTokens ?? 0,
+    totalTokens: usage.totalTokens ?? 0,
+  };
+}
+
+/** Runs a single extraction and reports usage and wall-clock duration. */
+export async function extractMetadata(
+  input: ExtractInput,
+  abortSignal?: AbortSignal
+) {
+  const startTime = Date.now();
+  const { object, usage } = await generateObject(
+    extractionOptions(input, abortSignal)
+  );
+
+  return {
+    metadata: object,
+    usage: toUsage(usage),
+    duration: Date.now() - startTime,
+    ...(input.preprocess && { preprocess: input.preprocess }),
+  };
+}
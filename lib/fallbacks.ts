@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+const STORAGE_KEY = "meta-playground:fallbacks";
+
+/** Models tried after the selected one fails, at most this many. */
+export const MAX_FALLBACKS = 2;
+
+/** Fallback model ids, in order, keyed by the selected model's id. */
+export type FallbackChains = Record<string, string[]>;
+
+const chainsSchema = z.record(
+  z.string(),
+  z.array(z.string()).max(MAX_FALLBACKS)
+);
+
+/** Parses chains serialized as JSON, or returns null when malformed. */
+export function parseFallbackChains(raw: string): FallbackChains | null {
+  try {
+    const parsed = chainsSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function loadFallbackChains(): FallbackChains {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return (raw && parseFallbackChains(raw)) || {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveFallbackChains(chains: FallbackChains): void {
+  const nonEmpty = Object.fromEntries(
+    Object.entries(chains).filter(([, chain]) => chain.length > 0)
+  );
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(nonEmpty));
+}
+
+/** Trims and de-duplicates a chain, dropping the primary model itself. */
+export function normalizeFallbacks(ids: string[], primary: string): string[] {
+  const trimmed = ids
+    .map((id) => id.trim())
+    .filter((id) => id && id !== primary);
+  return [...new Set(trimmed)].slice(0, MAX_FALLBACKS);
+}
@@ -0,0 +1,165 @@
+import { MAX_DELTA_E, paletteDistance } from "@/lib/color";
+import {
+  fieldKind,
+  hexesOf,
+  similarity,
+  stringsOf,
+  type ConsensusKind,
+} from "@/lib/consensus";
+import { levenshtein, normalizeText } from "@/lib/similarity";
+import type { MetadataResult, MetadataValue, SchemaField } from "@/lib/schema";
+
+export type GroundTruth = {
+  imageHash: string;
+  metadata: MetadataResult;
+  /** Model whose output the record was edited from, if any. */
+  sourceModel?: string;
+  updatedAt: number;
+};
+
+/**
+ * - exact: normalized equality, e.g. category
+ * - set: F1 of precision/recall over list items, e.g. tags and objects
+ * - cer: 1 minus character error rate, e.g. textContent and descriptions
+ * - deltaE: 1 minus palette ΔE normalized by MAX_DELTA_E
+ * - similarity: the consensus similarity, for numbers and nested objects
+ */
+export type ScoreMetric = "exact" | "set" | "cer" | "deltaE" | "similarity";
+
+export type FieldScore = {
+  field: string;
+  metric: ScoreMetric;
+  /** 0 (wrong) to 1 (matches the ground truth). */
+  score: number;
+  precision?: number;
+  recall?: number;
+  cer?: number;
+  deltaE?: number;
+};
+
+export type AccuracyReport = {
+  fields: FieldScore[];
+  /** Mean field score. */
+  accuracy: number;
+};
+
+const STORAGE_PREFIX = "meta-playground:ground-truth:";
+
+// ── Persistence ──────────────────────────────────────────────────────
+
+export function loadGroundTruth(imageHash: string): GroundTruth | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + imageHash);
+    return raw ? (JSON.parse(raw) as GroundTruth) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveGroundTruth(truth: GroundTruth): void {
+  localStorage.setItem(STORAGE_PREFIX + truth.imageHash, JSON.stringify(truth));
+}
+
+export function deleteGroundTruth(imageHash: string): void {
+  localStorage.removeItem(STORAGE_PREFIX + imageHash);
+}
+
+// ── Scoring ──────────────────────────────────────────────────────────
+
+/** Character error rate: edits needed per character of the reference. */
+export function characterErrorRate(predicted: string, reference: string): number {
+  const ref = reference.trim().replace(/\s+/g, " ");
+  const hyp = predicted.trim().replace(/\s+/g, " ");
+  if (ref.length === 0) return hyp.length === 0 ? 0 : 1;
+  return levenshtein(hyp, ref) / ref.length;
+}
+
+function setScore(predicted: string[], truth: string[]) {
+  const p = new Set(predicted.map(normalizeText));
+  const t = new Set(truth.map(normalizeText));
+  let hits = 0;
+  for (const item of p) if (t.has(item)) hits++;
+
+  const precision = p.size === 0 ? (t.size === 0 ? 1 : 0) : hits / p.size;
+  const recall = t.size === 0 ? 1 : hits / t.size;
+  const f1 =
+    precision + recall === 0
+      ? 0
+      : (2 * precision * recall) / (precision + recall);
+  return { precision, recall, score: f1 };
+}
+
+function metricFor(field: SchemaField, kind: ConsensusKind): ScoreMetric {
+  switch (kind) {
+    case "set":
+      return "set";
+    case "palette":
+      return "deltaE";
+    case "text":
+      return "cer";
+    case "vote":
+      // Short optional strings (OCR text, expressions) still earn partial
+      // credit; required labels like category must match exactly
+      return field.type === "string" && field.nullable ? "cer" : "exact";
+    default:
+      return "similarity";
+  }
+}
+
+function scoreField(
+  field: SchemaField,
+  predicted: MetadataValue,
+  truth: MetadataValue
+): FieldScore {
+  const kind = fieldKind(field, [truth]);
+  const metric = metricFor(field, kind);
+
+  if (predicted === null || truth === null) {
+    return { field: field.name, metric, score: predicted === truth ? 1 : 0 };
+  }
+
+  switch (metric) {
+    case "exact":
+      return { field: field.name, metric, score: similarity("vote", predicted, truth) };
+    case "set":
+      return {
+        field: field.name,
+        metric,
+        ...setScore(stringsOf(predicted), stringsOf(truth)),
+      };
+    case "cer": {
+      const cer = characterErrorRate(String(predicted), String(truth));
+      return { field: field.name, metric, cer, score: Math.max(0, 1 - cer) };
+    }
+    case "deltaE": {
+      const deltaE = paletteDistance(hexesOf(predicted), hexesOf(truth));
+      return {
+        field: field.name,
+        metric,
+        deltaE,
+        score: 1 - Math.min(1, deltaE / MAX_DELTA_E),
+      };
+    }
+    case "similarity":
+      return { field: field.name, metric, score: similarity(kind, predicted, truth) };
+  }
+}
+
+/** Scores a model's extraction against the ground truth, field by field. */
+export function scoreAgainstGroundTruth(
+  fields: SchemaField[],
+  predicted: MetadataResult,
+  truth: MetadataResult
+): AccuracyReport {
+  const scores = fields
+    .filter((f) => f.name in truth)
+    .map((f) => scoreField(f, predicted[f.name] ?? null, truth[f.name]));
+
+  return {
+    fields: scores,
+    accuracy:
+      scores.length > 0
+        ? scores.reduce((sum, s) => sum + s.score, 0) / scores.length
+        : 0,
+  };
+}
@@ -0,0 +1,18 @@
+/** Hex-encoded SHA-256 digest, available in both the browser and Node. */
+export async function sha256Hex(data: BufferSource | string): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Content hash of an image. Remote images are only fetched server-side, so
+ * they are keyed by their URL instead.
+ */
+export async function hashImage(image: Blob | string): Promise<string> {
+  return sha256Hex(
+    typeof image === "string" ? image : await image.arrayBuffer()
+  );
+}
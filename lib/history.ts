@@ -0,0 +1,158 @@
+import type { ExtractionResult } from "@/lib/extract-client";
+import type { ExtractErrorCode } from "@/lib/extract-errors";
+import type { PromptRef } from "@/lib/prompts";
+import type { SchemaField } from "@/lib/schema";
+
+const DB_NAME = "meta-playground";
+const DB_VERSION = 1;
+const RUNS_STORE = "runs";
+const IMAGES_STORE = "images";
+
+export const HISTORY_LIMIT = 200;
+
+export type HistoryEntry = {
+  modelId: string;
+  status: "success" | "error";
+  result?: ExtractionResult;
+  error?: string;
+  errorCode?: ExtractErrorCode;
+};
+
+/** One click of Extract: a single image, prompt and schema across models. */
+export type HistoryRun = {
+  id: string;
+  imageHash: string;
+  imageName: string;
+  /** Set for remote images, which are not stored locally. */
+  imageUrl?: string;
+  /** The prompt as sent, with template variables filled in. */
+  prompt: string;
+  /** Set when the prompt was a template with `{{variables}}`. */
+  promptTemplate?: string;
+  promptVariables?: Record<string, string>;
+  /** Library version used; absent when the text was edited after loading. */
+  promptRef?: PromptRef;
+  fields: SchemaField[];
+  /** Output locales, primary first, when the run asked for them. */
+  locales?: string[];
+  entries: HistoryEntry[];
+  createdAt: number;
+};
+
+type StoredImage = {
+  hash: string;
+  blob: Blob;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const runs = db.createObjectStore(RUNS_STORE, { keyPath: "id" });
+      runs.createIndex("createdAt", "createdAt");
+      runs.createIndex("imageHash", "imageHash");
+      db.createObjectStore(IMAGES_STORE, { keyPath: "hash" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Records a run along with its image. Images are stored once per content
+ * hash, so repeated runs on the same image do not duplicate the bytes.
+ * Remote images are not stored; the run keeps their URL instead.
+ */
+export async function saveRun(run: HistoryRun, image?: Blob): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([RUNS_STORE, IMAGES_STORE], "readwrite");
+  tx.objectStore(RUNS_STORE).put(run);
+  if (image) {
+    tx.objectStore(IMAGES_STORE).put({ hash: run.imageHash, blob: image });
+  }
+  await completion(tx);
+  await pruneRuns();
+}
+
+/** Most recent runs first. */
+export async function listRuns(): Promise<HistoryRun[]> {
+  const db = await openDb();
+  const index = db
+    .transaction(RUNS_STORE)
+    .objectStore(RUNS_STORE)
+    .index("createdAt");
+  const runs = await promisify(index.getAll() as IDBRequest<HistoryRun[]>);
+  return runs.reverse();
+}
+
+export async function getImage(hash: string): Promise<Blob | null> {
+  const db = await openDb();
+  const stored = await promisify(
+    db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).get(hash) as IDBRequest<
+      StoredImage | undefined
+    >
+  );
+  return stored?.blob ?? null;
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(RUNS_STORE, "readwrite");
+  tx.objectStore(RUNS_STORE).delete(id);
+  await completion(tx);
+  await pruneImages();
+}
+
+/** Drops the oldest runs beyond HISTORY_LIMIT. */
+async function pruneRuns(): Promise<void> {
+  const runs = await listRuns();
+  if (runs.length <= HISTORY_LIMIT) return;
+
+  const db = await openDb();
+  const tx = db.transaction(RUNS_STORE, "readwrite");
+  for (const run of runs.slice(HISTORY_LIMIT)) {
+    tx.objectStore(RUNS_STORE).delete(run.id);
+  }
+  await completion(tx);
+  await pruneImages();
+}
+
+/** Removes images no remaining run refers to. */
+async function pruneImages(): Promise<void> {
+  const db = await openDb();
+  const used = new Set((await listRuns()).map((r) => r.imageHash));
+  const hashes = await promisify(
+    db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).getAllKeys()
+  );
+
+  const tx = db.transaction(IMAGES_STORE, "readwrite");
+  for (const hash of hashes) {
+    if (!used.has(hash as string)) tx.objectStore(IMAGES_STORE).delete(hash);
+  }
+  await completion(tx);
+}
@@ -0,0 +1,313 @@
+import { lookup } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import sharp from "sharp";
+import type { PreprocessOptions, PreprocessStats } from "@/lib/preprocess";
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const FETCH_TIMEOUT_MS = 10_000;
+export const MAX_REDIRECTS = 3;
+
+export type ImageBytesResult =
+  | { success: true; bytes: Uint8Array }
+  | { success: false; error: string };
+
+const DATA_URL_PATTERN = /^data:(image\/[a-z0-9.+-]+);base64,([\s\S]*)$/i;
+const BASE64_PATTERN = /^[A-Za-z0-9+/_-]+={0,2}$/;
+
+/** Decodes a base64 string or `data:image/...;base64,` URL into bytes. */
+export function decodeBase64Image(value: string): ImageBytesResult {
+  const trimmed = value.trim();
+  const dataUrl = DATA_URL_PATTERN.exec(trimmed);
+  if (trimmed.startsWith("data:") && !dataUrl) {
+    return { success: false, error: "Data URLs must be base64 encoded images" };
+  }
+
+  const base64 = (dataUrl ? dataUrl[2] : trimmed).replace(/\s+/g, "");
+  if (!BASE64_PATTERN.test(base64)) {
+    return { success: false, error: "Image is not valid base64" };
+  }
+
+  // Check the decoded size before allocating it
+  if (Math.floor((base64.length * 3) / 4) > MAX_IMAGE_BYTES) {
+    return { success: false, error: "Image exceeds the 10MB limit" };
+  }
+
+  return {
+    success: true,
+    bytes: new Uint8Array(Buffer.from(base64, "base64")),
+  };
+}
+
+// ── Remote images ────────────────────────────────────────────────────
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+/** Magic-byte signatures of the formats the vision models accept. */
+const IMAGE_SIGNATURES: { type: string; test: (b: Uint8Array) => boolean }[] = [
+  {
+    type: "image/jpeg",
+    test: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+  },
+  { type: "image/png", test: (b) => ascii(b, 1, 4) === "PNG" && b[0] === 0x89 },
+  { type: "image/gif", test: (b) => ascii(b, 0, 4) === "GIF8" },
+  {
+    type: "image/webp",
+    test: (b) => ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 12) === "WEBP",
+  },
+];
+
+/** Detects the image format from its leading bytes, ignoring any declared type. */
+export function sniffImageType(bytes: Uint8Array): string | null {
+  return IMAGE_SIGNATURES.find((s) => s.test(bytes))?.type ?? null;
+}
+
+/** Loopback, private, link-local, CGNAT, multicast and reserved ranges. */
+const BLOCKED_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+/** IPv4-mapped IPv6 addresses are checked against the IPv4 ranges too. */
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolves like `dns.lookup` but refuses private addresses. Validating the
+ * address the socket actually connects to, rather than resolving up front,
+ * also defeats DNS rebinding.
+ */
+const safeLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 4);
+    if (
+      addresses.length === 0 ||
+      addresses.some((a) => isBlockedAddress(a.address))
+    ) {
+      return callback(
+        new Error(`${hostname} resolves to a private address`),
+        "",
+        4
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/** Rejects URLs the fetcher must never request, before any connection. */
+function checkUrl(url: URL): string | null {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "Image URL must use http or https";
+  }
+  if (url.username || url.password) {
+    return "Image URL must not contain credentials";
+  }
+  // Literal IPs skip DNS, so the lookup hook never sees them
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && isBlockedAddress(host)) {
+    return "Image URL points to a private address";
+  }
+  return null;
+}
+
+type Download =
+  { redirect: string } | { bytes: Uint8Array; contentType: string };
+
+function download(url: URL, timeoutMs: number): Promise<Download> {
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.get(
+      url,
+      {
+        lookup: safeLookup,
+        headers: { accept: "image/*", "user-agent": "meta-playground" },
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        if (status >= 300 && status < 400 && res.headers.location) {
+          res.resume();
+          return resolve({ redirect: res.headers.location });
+        }
+        if (status !== 200) {
+          res.resume();
+          return reject(new Error(`Image URL returned HTTP ${status}`));
+        }
+        if (Number(res.headers["content-length"]) > MAX_IMAGE_BYTES) {
+          req.destroy();
+          return reject(new Error("Image exceeds the 10MB limit"));
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        res.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_IMAGE_BYTES) {
+            req.destroy();
+            reject(new Error("Image exceeds the 10MB limit"));
+          } else {
+            chunks.push(chunk);
+          }
+        });
+        res.on("end", () =>
+          resolve({
+            bytes: new Uint8Array(Buffer.concat(chunks)),
+            contentType: res.headers["content-type"] ?? "",
+          })
+        );
+        res.on("error", reject);
+      }
+    );
+
+    const timer = setTimeout(
+      () => req.destroy(new Error("Timed out fetching the image")),
+      timeoutMs
+    );
+    req.on("error", reject);
+    req.on("close", () => {
+      clearTimeout(timer);
+      reject(new Error("Connection closed before the image downloaded"));
+    });
+  });
+}
+
+/**
+ * Downloads an image for extraction. Only public http(s) hosts are reached,
+ * redirects are followed up to MAX_REDIRECTS, the whole fetch is bounded by
+ * FETCH_TIMEOUT_MS and MAX_IMAGE_BYTES, and the bytes must sniff as an image.
+ */
+export async function fetchImage(rawUrl: string): Promise<ImageBytesResult> {
+  const deadline = Date.now() + FETCH_TIMEOUT_MS;
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { success: false, error: "Invalid image URL" };
+  }
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const invalid = checkUrl(url);
+      if (invalid) return { success: false, error: invalid };
+
+      const result = await download(url, deadline - Date.now());
+      if ("redirect" in result) {
+        if (redirects >= MAX_REDIRECTS) {
+          return {
+            success: false,
+            error: "Image URL redirected too many times",
+          };
+        }
+        url = new URL(result.redirect, url);
+        continue;
+      }
+
+      const declared = result.contentType.split(";")[0].trim().toLowerCase();
+      if (
+        declared &&
+        !declared.startsWith("image/") &&
+        declared !== "application/octet-stream"
+      ) {
+        return { success: false, error: `Image URL returned ${declared}` };
+      }
+      if (!sniffImageType(result.bytes)) {
+        return {
+          success: false,
+          error: "Image URL is not a PNG, JPEG, GIF or WebP image",
+        };
+      }
+      return { success: true, bytes: result.bytes };
+    }
+  } catch (error: unknown) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch image",
+    };
+  }
+}
+
+// ── Preprocessing ────────────────────────────────────────────────────
+
+/**
+ * Downscales and re-encodes an image before it is sent to the models.
+ * Input tokens scale with pixel dimensions, so capping the longest edge is
+ * what saves cost; re-encoding mostly shrinks the upload itself.
+ */
+export async function preprocessImage(
+  bytes: Uint8Array,
+  options: PreprocessOptions
+): Promise<{ bytes: Uint8Array; stats: PreprocessStats }> {
+  const metadata = await sharp(bytes).metadata();
+  const original = options.autoOrient ? metadata.autoOrient : metadata;
+
+  let pipeline = sharp(bytes, { autoOrient: options.autoOrient }).resize({
+    width: options.maxDimension,
+    height: options.maxDimension,
+    fit: "inside",
+    withoutEnlargement: true,
+  });
+  // sharp drops EXIF, XMP and ICC data unless asked to keep it
+  if (!options.stripMetadata) pipeline = pipeline.keepMetadata();
+
+  if (options.format === "webp") {
+    pipeline = pipeline.webp({ quality: options.quality });
+  } else if (options.format === "jpeg") {
+    pipeline = pipeline.jpeg({ quality: options.quality, mozjpeg: true });
+  } else {
+    pipeline = pipeline.toFormat(metadata.format);
+  }
+
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+
+  return {
+    bytes: new Uint8Array(data),
+    stats: {
+      originalBytes: bytes.byteLength,
+      originalWidth: original.width,
+      originalHeight: original.height,
+      bytes: data.byteLength,
+      width: info.width,
+      height: info.height,
+      format: info.format,
+    },
+  };
+}
+
+/** Pixel dimensions of an image, or null when sharp cannot decode it. */
+export async function readImageSize(
+  bytes: Uint8Array
+): Promise<{ width: number; height: number } | null> {
+  try {
+    const { width, height } = await sharp(bytes).metadata();
+    return width && height ? { width, height } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,154 @@
+import type {
+  ExtractionSchema,
+  JsonSchemaProperty,
+  MetadataResult,
+} from "@/lib/schema";
+
+/** Output languages, as BCP 47 primary tags. */
+export const LOCALES = [
+  { code: "en", name: "English" },
+  { code: "es", name: "Spanish" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "it", name: "Italian" },
+  { code: "pt", name: "Portuguese" },
+  { code: "nl", name: "Dutch" },
+  { code: "pl", name: "Polish" },
+  { code: "ja", name: "Japanese" },
+  { code: "zh", name: "Chinese" },
+  { code: "ko", name: "Korean" },
+  { code: "ar", name: "Arabic" },
+  { code: "hi", name: "Hindi" },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]["code"];
+
+/** Each extra locale repeats the text fields, so requests are capped. */
+export const MAX_LOCALES = 4;
+
+/** Property holding the extra locales' text fields, keyed by locale. */
+export const TRANSLATIONS_FIELD = "translations";
+
+export function localeName(code: string): string {
+  return LOCALES.find((l) => l.code === code)?.name ?? code;
+}
+
+function isLocale(code: string): code is Locale {
+  return LOCALES.some((l) => l.code === code);
+}
+
+export type ParseLocalesResult =
+  { success: true; locales: Locale[] } | { success: false; error: string };
+
+/** Reads locale codes, primary first, de-duplicated. */
+export function parseLocales(codes: string[]): ParseLocalesResult {
+  const locales = [
+    ...new Set(codes.map((c) => c.trim().toLowerCase()).filter(Boolean)),
+  ];
+  const unknown = locales.find((c) => !isLocale(c));
+  if (unknown) return { success: false, error: `Unknown locale "${unknown}"` };
+  if (locales.length > MAX_LOCALES) {
+    return { success: false, error: `At most ${MAX_LOCALES} locales` };
+  }
+  return { success: true, locales: locales as Locale[] };
+}
+
+function isText(property: JsonSchemaProperty): boolean {
+  const type = Array.isArray(property.type) ? property.type[0] : property.type;
+  if (property.enum) return false;
+  if (type === "string") return true;
+  return type === "array" && !!property.items && isText(property.items);
+}
+
+/**
+ * Top-level free-text fields, e.g. title, description, tags and alt text.
+ * Enums and nested objects keep their values across locales.
+ */
+export function translatableFields(schema: ExtractionSchema): string[] {
+  return Object.entries(schema.properties)
+    .filter(([name, p]) => name !== TRANSLATIONS_FIELD && isText(p))
+    .map(([name]) => name);
+}
+
+export type LocalizeResult =
+  | { success: true; prompt: string; schema: ExtractionSchema }
+  | { success: false; error: string };
+
+/**
+ * Asks for every text value in the first locale and adds a
+ * `translations` object with the text fields in each further locale.
+ */
+export function localizeExtraction(
+  prompt: string,
+  schema: ExtractionSchema,
+  locales: Locale[]
+): LocalizeResult {
+  if (locales.length === 0) return { success: true, prompt, schema };
+
+  const [primary, ...extra] = locales;
+  const fields = translatableFields(schema);
+  let localizedPrompt = `${prompt}\n\nWrite every text value in ${localeName(primary)}.`;
+  if (extra.length === 0 || fields.length === 0) {
+    return { success: true, prompt: localizedPrompt, schema };
+  }
+  if (TRANSLATIONS_FIELD in schema.properties) {
+    return {
+      success: false,
+      error: `The "${TRANSLATIONS_FIELD}" field is reserved when requesting several locales`,
+    };
+  }
+
+  const translated: ExtractionSchema = {
+    type: "object",
+    properties: Object.fromEntries(
+      fields.map((name) => [name, schema.properties[name]])
+    ),
+    required: fields,
+    additionalProperties: false,
+  };
+  localizedPrompt += ` Under "${TRANSLATIONS_FIELD}", give ${fields.join(", ")} again in ${extra
+    .map((code) => `${localeName(code)} ("${code}")`)
+    .join(", ")}, translated from your ${localeName(primary)} values.`;
+
+  return {
+    success: true,
+    prompt: localizedPrompt,
+    schema: {
+      ...schema,
+      properties: {
+        ...schema.properties,
+        [TRANSLATIONS_FIELD]: {
+          type: "object",
+          properties: Object.fromEntries(
+            extra.map((code) => [code, translated])
+          ),
+          required: extra,
+          additionalProperties: false,
+        },
+      },
+      required: [...(schema.required ?? []), TRANSLATIONS_FIELD],
+    },
+  };
+}
+
+/**
+ * A result as seen in one locale: the first locale is the result itself,
+ * others overlay their translated fields. Missing translations fall back
+ * to the first locale's values.
+ */
+export function localizedMetadata(
+  metadata: MetadataResult,
+  locales: string[],
+  locale: string
+): MetadataResult {
+  const { [TRANSLATIONS_FIELD]: translations, ...primary } = metadata;
+  if (locale === locales[0] || !isRecord(translations)) return primary;
+  const translated = translations[locale];
+  return isRecord(translated) ? { ...primary, ...translated } : primary;
+}
+
+function isRecord(
+  value: unknown
+): value is Record<string, MetadataResult[string]> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,202 @@
+import type {
+  JSONSchema7,
+  JSONSchema7Definition,
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3StreamPart,
+  LanguageModelV3Usage,
+} from "@ai-sdk/provider";
+
+const ARRAY_ITEMS = 3;
+const STREAM_CHUNK_CHARS = 24;
+const STREAM_CHUNK_DELAY_MS = 15;
+/** Flat per-image input cost, roughly one high-detail tile set. */
+const IMAGE_TOKENS = 765;
+
+/** FNV-1a, enough to turn the request into a stable seed. */
+function fnv1a(bytes: Uint8Array, hash = 0x811c9dc5): number {
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32: small seeded PRNG, so the same input gives the same fixture. */
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seeds from the model id, the image and any sampling seed, so fixtures
+ * differ per model and image.
+ */
+function requestSeed(modelId: string, options: LanguageModelV3CallOptions) {
+  const encoder = new TextEncoder();
+  let hash = fnv1a(encoder.encode(modelId));
+  // A seed picks a different fixture, so repeated samples can be compared
+  if (options.seed !== undefined) {
+    hash = fnv1a(encoder.encode(String(options.seed)), hash);
+  }
+  for (const message of options.prompt) {
+    if (message.role !== "user") continue;
+    for (const part of message.content) {
+      if (part.type !== "file") continue;
+      const data = part.data;
+      hash = fnv1a(
+        data instanceof Uint8Array ? data : encoder.encode(String(data)),
+        hash
+      );
+    }
+  }
+  return hash;
+}
+
+function fixtureValue(
+  definition: JSONSchema7Definition | undefined,
+  name: string,
+  random: () => number
+): unknown {
+  if (!definition || typeof definition === "boolean") return null;
+  const schema: JSONSchema7 = definition;
+
+  if (schema.enum) {
+    const options = schema.enum.filter((v) => v !== null);
+    return options[Math.floor(random() * options.length)] ?? null;
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const type = types.find((t) => t !== "null");
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          fixtureValue(value, key, random),
+        ])
+      );
+    case "array":
+      return Array.from({ length: ARRAY_ITEMS }, () =>
+        fixtureValue(
+          Array.isArray(schema.items) ? schema.items[0] : schema.items,
+          name,
+          random
+        )
+      );
+    case "number":
+    case "integer":
+      return Math.floor(random() * 10);
+    case "boolean":
+      return random() < 0.5;
+    case "string":
+      if (name === "hex") {
+        const rgb = Math.floor(random() * 0xffffff);
+        return `#${rgb.toString(16).padStart(6, "0")}`;
+      }
+      return `mock ${name} ${Math.floor(random() * 5) + 1}`;
+    default:
+      return null;
+  }
+}
+
+function fixtureText(modelId: string, options: LanguageModelV3CallOptions) {
+  const random = seededRandom(requestSeed(modelId, options));
+  const schema =
+    options.responseFormat?.type === "json"
+      ? options.responseFormat.schema
+      : undefined;
+  return JSON.stringify(
+    schema ? fixtureValue(schema, "root", random) : { text: "mock" }
+  );
+}
+
+/** Text is counted at 4 characters per token, images at a flat rate. */
+function mockUsage(
+  options: LanguageModelV3CallOptions,
+  text: string
+): LanguageModelV3Usage {
+  let input = 0;
+  for (const message of options.prompt) {
+    if (typeof message.content === "string") {
+      input += Math.ceil(message.content.length / 4);
+      continue;
+    }
+    for (const part of message.content) {
+      if (part.type === "text") input += Math.ceil(part.text.length / 4);
+      if (part.type === "file") input += IMAGE_TOKENS;
+    }
+  }
+  const output = Math.ceil(text.length / 4);
+  return {
+    inputTokens: {
+      total: input,
+      noCache: input,
+      cacheRead: undefined,
+      cacheWrite: undefined,
+    },
+    outputTokens: { total: output, text: output, reasoning: undefined },
+  };
+}
+
+const FINISH = { unified: "stop", raw: "stop" } as const;
+
+/**
+ * A model that answers every extraction with deterministic fixture data
+ * shaped by the requested schema, for offline development and tests.
+ * Streaming emits the JSON in small delayed chunks so partials render.
+ */
+export function createMockModel(modelId: string): LanguageModelV3 {
+  return {
+    specificationVersion: "v3",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const text = fixtureText(modelId, options);
+      return {
+        content: [{ type: "text", text }],
+        finishReason: FINISH,
+        usage: mockUsage(options, text),
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const text = fixtureText(modelId, options);
+      const stream = new ReadableStream<LanguageModelV3StreamPart>({
+        async start(controller) {
+          controller.enqueue({ type: "stream-start", warnings: [] });
+          controller.enqueue({ type: "text-start", id: "0" });
+          for (let i = 0; i < text.length; i += STREAM_CHUNK_CHARS) {
+            await new Promise((r) => setTimeout(r, STREAM_CHUNK_DELAY_MS));
+            // Honour timeouts like a real provider's aborted fetch would
+            if (options.abortSignal?.aborted) {
+              controller.error(options.abortSignal.reason);
+              return;
+            }
+            controller.enqueue({
+              type: "text-delta",
+              id: "0",
+              delta: text.slice(i, i + STREAM_CHUNK_CHARS),
+            });
+          }
+          controller.enqueue({ type: "text-end", id: "0" });
+          controller.enqueue({
+            type: "finish",
+            usage: mockUsage(options, text),
+            finishReason: FINISH,
+          });
+          controller.close();
+        },
+      });
+      return { stream };
+    },
+  };
+}
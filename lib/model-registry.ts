@@ -0,0 +1,40 @@
+import {
+  MODELS,
+  mergeModels,
+  modelConfigSchema,
+  type ModelConfig,
+} from "@/lib/models";
+
+const STORAGE_KEY = "meta-playground:models";
+
+/**
+ * Models added or edited in the UI. An entry with the id of a default model
+ * overrides it, which is how pricing is adjusted without touching the code.
+ */
+export function loadCustomModels(): ModelConfig[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    // Skip entries left invalid mid-edit rather than losing the whole list
+    return (JSON.parse(raw) as unknown[]).flatMap((entry) => {
+      const parsed = modelConfigSchema.safeParse(entry);
+      return parsed.success ? [parsed.data] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomModels(models: ModelConfig[]): void {
+  if (models.length === 0) localStorage.removeItem(STORAGE_KEY);
+  else localStorage.setItem(STORAGE_KEY, JSON.stringify(models));
+}
+
+/** The registry the playground runs with: defaults plus UI entries. */
+export function buildRegistry(custom: ModelConfig[]): ModelConfig[] {
+  return mergeModels(MODELS, custom);
+}
+
+export function isDefaultModel(id: string): boolean {
+  return MODELS.some((m) => m.id === id);
+}
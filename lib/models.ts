@@ -1,18 +1,79 @@
+import { z } from "zod";
+import modelsConfig from "@/models.config.json";
+
+export const KNOWN_PROVIDERS = ["OpenAI", "Anthropic", "Google"] as const;
+
+/** Any gateway provider; the known ones get brand colors. */
+export type Provider = (typeof KNOWN_PROVIDERS)[number] | (string & {});
+
+/**
+ * Where a model runs. Backends are read on the server from this file and
+ * `models.config.json` only; API keys always come from env vars.
+ * - gateway: the Vercel AI Gateway (default)
+ * - direct: the provider's own SDK, for `openai/`, `anthropic/` and `google/`
+ *   ids, keyed by OPENAI_API_KEY, ANTHROPIC_API_KEY or
+ *   GOOGLE_GENERATIVE_AI_API_KEY
+ * - openai-compatible: any OpenAI-style endpoint, e.g. Ollama, vLLM or
+ *   LM Studio
+ * - mock: deterministic fixture metadata, no network
+ */
+export const modelBackendSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("gateway") }),
+  z.object({ type: z.literal("direct") }),
+  z.object({
+    type: z.literal("openai-compatible"),
+    baseURL: z.string().url(),
+    /** Name of the env var holding the API key, if the server needs one. */
+    apiKeyEnv: z.string().optional(),
+    /** Model name sent to the server; defaults to the id after the slash. */
+    model: z.string().optional(),
+    /** Whether the server accepts `json_schema` response formats. */
+    structuredOutputs: z.boolean().default(true),
+  }),
+  z.object({ type: z.literal("mock") }),
+]);
+
+export type ModelBackend = z.infer<typeof modelBackendSchema>;
+
+export const modelConfigSchema = z.object({
+  /** Gateway model id, e.g. `mistral/pixtral-large`. */
+  id: z.string().regex(/^[\w.-]+\/[\w.:-]+$/, "Use the provider/model form"),
+  name: z.string().min(1),
+  provider: z.string().min(1),
+  inputCostPer1MTokens: z.number().nonnegative(),
+  outputCostPer1MTokens: z.number().nonnegative(),
+  capabilities: z
+    .object({ vision: z.boolean(), structuredOutput: z.boolean() })
+    .default({ vision: true, structuredOutput: true }),
+  backend: modelBackendSchema.optional(),
+});
+
+export type ModelCapabilities = { vision: boolean; structuredOutput: boolean };
+
 export type ModelConfig = {
   id: string;
   name: string;
-  provider: "OpenAI" | "Anthropic" | "Google";
+  provider: Provider;
   inputCostPer1MTokens: number;
   outputCostPer1MTokens: number;
+  capabilities: ModelCapabilities;
+  /** Defaults to the AI Gateway. */
+  backend?: ModelBackend;
+};
+
+const FULL_CAPABILITIES: ModelCapabilities = {
+  vision: true,
+  structuredOutput: true,
 };
 
-export const MODELS: ModelConfig[] = [
+export const BUILT_IN_MODELS: ModelConfig[] = [
   {
     id: "openai/gpt-4o",
     name: "GPT-4o",
     provider: "OpenAI",
     inputCostPer1MTokens: 2.5,
     outputCostPer1MTokens: 10.0,
+    capabilities: FULL_CAPABILITIES,
   },
   {
     id: "openai/gpt-4o-mini",
@@ -20,6 +81,7 @@ export const MODELS: ModelConfig[] = [
     provider: "OpenAI",
     inputCostPer1MTokens: 0.15,
     outputCostPer1MTokens: 0.6,
+    capabilities: FULL_CAPABILITIES,
   },
   {
     id: "openai/gpt-5-mini",
@@ -27,6 +89,7 @@ export const MODELS: ModelConfig[] = [
     provider: "OpenAI",
     inputCostPer1MTokens: 0.3,
     outputCostPer1MTokens: 1.2,
+    capabilities: FULL_CAPABILITIES,
   },
   {
     id: "anthropic/claude-sonnet-4-5-20250929",
@@ -34,6 +97,7 @@ export const MODELS: ModelConfig[] = [
     provider: "Anthropic",
     inputCostPer1MTokens: 3.0,
     outputCostPer1MTokens: 15.0,
+    capabilities: FULL_CAPABILITIES,
   },
   {
     id: "google/gemini-2.0-flash",
@@ -41,6 +105,7 @@ export const MODELS: ModelConfig[] = [
     provider: "Google",
     inputCostPer1MTokens: 0.1,
     outputCostPer1MTokens: 0.4,
+    capabilities: FULL_CAPABILITIES,
   },
   {
     id: "google/gemini-2.5-pro",
@@ -48,15 +113,57 @@ export const MODELS: ModelConfig[] = [
     provider: "Google",
     inputCostPer1MTokens: 1.25,
     outputCostPer1MTokens: 5.0,
+    capabilities: FULL_CAPABILITIES,
   },
 ];
 
-export const PROVIDER_COLORS: Record<string, string> = {
+/** Entries in later lists replace earlier ones with the same id. */
+export function mergeModels(...lists: ModelConfig[][]): ModelConfig[] {
+  const byId = new Map<string, ModelConfig>();
+  for (const model of lists.flat()) byId.set(model.id, model);
+  return [...byId.values()];
+}
+
+function loadConfigModels(): ModelConfig[] {
+  const parsed = z.array(modelConfigSchema).safeParse(modelsConfig);
+  if (parsed.success) return parsed.data;
+  console.error("[models] Ignoring invalid models.config.json:", parsed.error);
+  return [];
+}
+
+/**
+ * The default registry: built-in models plus those declared in
+ * `models.config.json`, which may also override built-in pricing.
+ */
+export const MODELS: ModelConfig[] = mergeModels(
+  BUILT_IN_MODELS,
+  loadConfigModels()
+);
+
+/** Models the playground can run: they must accept images and a schema. */
+export function isExtractable(model: ModelConfig): boolean {
+  return model.capabilities.vision && model.capabilities.structuredOutput;
+}
+
+const PROVIDER_COLORS: Record<string, string> = {
   OpenAI: "#10a37f",
   Anthropic: "#d97757",
   Google: "#4285f4",
 };
 
+/** Brand color for known providers, a stable hue from the name otherwise. */
+export function providerColor(provider: Provider): string {
+  if (PROVIDER_COLORS[provider]) return PROVIDER_COLORS[provider];
+  let hash = 0;
+  for (const char of provider) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return `hsl(${Math.abs(hash) % 360} 55% 55%)`;
+}
+
+/** Provider names of a registry, known providers first. */
+export function registryProviders(models: ModelConfig[]): string[] {
+  return [...new Set([...KNOWN_PROVIDERS, ...models.map((m) => m.provider)])];
+}
+
 export function calculateCost(
   model: ModelConfig,
   promptTokens: number,
@@ -74,3 +181,7 @@ export function formatCost(cost: number): string {
   if (cost < 1) return `$${cost.toFixed(4)}`;
   return `$${cost.toFixed(2)}`;
 }
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,247 @@
+import { EXTRACT_ERROR_CODES } from "@/lib/extract-errors";
+import { LOCALES, MAX_LOCALES } from "@/lib/locales";
+import { MODELS, isExtractable } from "@/lib/models";
+import { DEFAULT_PREPROCESS, OUTPUT_FORMATS } from "@/lib/preprocess";
+import { DEFAULT_SCHEMA } from "@/lib/schema";
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": {
+      schema: { $ref: "#/components/schemas/Error" },
+    },
+  },
+});
+
+const rateLimitHeaders = {
+  "X-RateLimit-Limit": { schema: { type: "integer" } },
+  "X-RateLimit-Remaining": { schema: { type: "integer" } },
+  "X-RateLimit-Reset": {
+    description: "Unix timestamp (ms) when the quota resets",
+    schema: { type: "integer" },
+  },
+};
+
+/** OpenAPI 3.1 description of the versioned public API. */
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "Meta Playground API",
+    version: "1.0.0",
+    description:
+      "Extract structured metadata from images with one or more vision models. Each model in a request counts as one unit against the API key's quota, or its estimated tokens or cost for keys whose quota is measured in those.",
+  },
+  servers: [{ url: "/" }],
+  security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+  paths: {
+    "/api/v1/extract": {
+      post: {
+        operationId: "extract",
+        summary: "Extract metadata from an image",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ExtractRequest" },
+            },
+            "multipart/form-data": {
+              schema: {
+                type: "object",
+                required: ["models"],
+                properties: {
+                  image: { type: "string", format: "binary" },
+                  imageUrl: {
+                    type: "string",
+                    format: "uri",
+                    description: "Public image URL, instead of image",
+                  },
+                  models: {
+                    type: "string",
+                    description: "Comma-separated model ids, or repeat the field",
+                  },
+                  prompt: { type: "string" },
+                  schema: {
+                    type: "string",
+                    description: "Extraction JSON Schema, serialized",
+                  },
+                  preprocess: {
+                    type: "string",
+                    description: "PreprocessOptions, serialized",
+                  },
+                  locales: {
+                    type: "string",
+                    description: "Comma-separated output locales, e.g. en,es",
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "One result per requested model",
+            headers: rateLimitHeaders,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ExtractResponse" },
+              },
+            },
+          },
+          "400": errorResponse("Invalid request body"),
+          "401": errorResponse("Missing or invalid API key"),
+          "402": errorResponse(
+            "The estimated cost would pass a per-run, daily or per-key spend cap"
+          ),
+          "429": {
+            ...errorResponse("Quota exceeded for this API key"),
+            headers: rateLimitHeaders,
+          },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer" },
+      apiKeyHeader: { type: "apiKey", in: "header", name: "x-api-key" },
+    },
+    schemas: {
+      ExtractRequest: {
+        type: "object",
+        required: ["models"],
+        properties: {
+          image: {
+            type: "string",
+            description: "Base64 image or data:image/...;base64, URL (max 10MB)",
+          },
+          imageUrl: {
+            type: "string",
+            format: "uri",
+            description:
+              "Public http(s) image URL fetched by the server, instead of image",
+          },
+          models: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "string",
+              enum: MODELS.filter(isExtractable).map((m) => m.id),
+            },
+          },
+          prompt: { type: "string", maxLength: 4000 },
+          schema: {
+            type: "object",
+            description:
+              "JSON Schema of the fields to extract. Defaults to the playground schema.",
+            default: DEFAULT_SCHEMA,
+          },
+          preprocess: { $ref: "#/components/schemas/PreprocessOptions" },
+          locales: {
+            type: "array",
+            maxItems: MAX_LOCALES,
+            items: { type: "string", enum: LOCALES.map((l) => l.code) },
+            description:
+              "Output languages. Text is written in the first; the text fields are repeated under metadata.translations for each further locale.",
+          },
+        },
+      },
+      PreprocessOptions: {
+        type: "object",
+        description:
+          "Resize and re-encode the image before extraction. Omit to send it as-is.",
+        required: [
+          "enabled",
+          "maxDimension",
+          "format",
+          "quality",
+          "stripMetadata",
+          "autoOrient",
+        ],
+        properties: {
+          enabled: { type: "boolean" },
+          maxDimension: { type: "integer", minimum: 64, maximum: 4096 },
+          format: { type: "string", enum: [...OUTPUT_FORMATS] },
+          quality: { type: "integer", minimum: 1, maximum: 100 },
+          stripMetadata: { type: "boolean" },
+          autoOrient: { type: "boolean" },
+        },
+        example: DEFAULT_PREPROCESS,
+      },
+      PreprocessStats: {
+        type: "object",
+        properties: {
+          originalBytes: { type: "integer" },
+          originalWidth: { type: "integer" },
+          originalHeight: { type: "integer" },
+          bytes: { type: "integer" },
+          width: { type: "integer" },
+          height: { type: "integer" },
+          format: { type: "string" },
+        },
+      },
+      ExtractResponse: {
+        type: "object",
+        required: ["results"],
+        properties: {
+          results: {
+            type: "array",
+            items: {
+              oneOf: [
+                { $ref: "#/components/schemas/ExtractSuccess" },
+                { $ref: "#/components/schemas/ExtractFailure" },
+              ],
+            },
+          },
+        },
+      },
+      ExtractSuccess: {
+        type: "object",
+        required: ["model", "status", "metadata", "usage", "duration", "cost"],
+        properties: {
+          model: { type: "string" },
+          status: { const: "success" },
+          metadata: { type: "object" },
+          usage: {
+            type: "object",
+            properties: {
+              promptTokens: { type: "integer" },
+              completionTokens: { type: "integer" },
+              totalTokens: { type: "integer" },
+            },
+          },
+          duration: { type: "number", description: "Milliseconds" },
+          cost: { type: "number", description: "USD" },
+          preprocess: { $ref: "#/components/schemas/PreprocessStats" },
+        },
+      },
+      ExtractFailure: {
+        type: "object",
+        required: ["model", "status", "error", "code"],
+        properties: {
+          model: { type: "string" },
+          status: { const: "error" },
+          error: { type: "string" },
+          code: {
+            type: "string",
+            enum: [...EXTRACT_ERROR_CODES],
+            description:
+              "Failure class. Transient errors are retried before failing.",
+          },
+        },
+      },
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: { type: "string" },
+          code: {
+            type: "string",
+            enum: ["budget_exceeded", "rate_limited"],
+            description:
+              "budget_exceeded on 402 responses, rate_limited on 429 responses",
+          },
+        },
+      },
+    },
+  },
+};
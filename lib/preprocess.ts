@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { calculateCost, type ModelConfig } from "@/lib/models";
+
+export const OUTPUT_FORMATS = ["webp", "jpeg", "original"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const MAX_DIMENSION_OPTIONS = [512, 768, 1024, 1568, 2048] as const;
+
+export const preprocessOptionsSchema = z.object({
+  enabled: z.boolean(),
+  /** Longest edge in pixels; smaller images are never upscaled. */
+  maxDimension: z.number().int().min(64).max(4096),
+  format: z.enum(OUTPUT_FORMATS),
+  quality: z.number().int().min(1).max(100),
+  stripMetadata: z.boolean(),
+  autoOrient: z.boolean(),
+});
+
+export type PreprocessOptions = z.infer<typeof preprocessOptionsSchema>;
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = {
+  enabled: true,
+  maxDimension: 1568,
+  format: "webp",
+  quality: 85,
+  stripMetadata: true,
+  autoOrient: true,
+};
+
+/** Before/after sizes of a preprocessed image, as reported by the server. */
+export type PreprocessStats = {
+  originalBytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  bytes: number;
+  width: number;
+  height: number;
+  format: string;
+};
+
+export type ParsePreprocessResult =
+  | { success: true; options: PreprocessOptions }
+  | { success: false; error: string };
+
+export function parsePreprocessOptions(raw: string): ParsePreprocessResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { success: false, error: "Preprocess options are not valid JSON" };
+  }
+
+  const parsed = preprocessOptionsSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {
+      success: false,
+      error: `preprocess.${issue.path.join(".")}: ${issue.message}`,
+    };
+  }
+  return { success: true, options: parsed.data };
+}
+
+function fitWithin(width: number, height: number, max: number) {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: width * scale, height: height * scale };
+}
+
+/**
+ * Approximate input tokens an image costs, from each provider's published
+ * sizing rules. Tokens depend on dimensions only, not on bytes or format.
+ */
+export function estimateImageTokens(
+  provider: ModelConfig["provider"],
+  width: number,
+  height: number
+): number {
+  switch (provider) {
+    case "OpenAI": {
+      // High detail: fit 2048², shortest side to 768, then 512px tiles
+      const fitted = fitWithin(width, height, 2048);
+      const scale = Math.min(1, 768 / Math.min(fitted.width, fitted.height));
+      const tiles =
+        Math.ceil((fitted.width * scale) / 512) *
+        Math.ceil((fitted.height * scale) / 512);
+      return 85 + 170 * tiles;
+    }
+    case "Google":
+      if (width <= 384 && height <= 384) return 258;
+      return Math.ceil(width / 768) * Math.ceil(height / 768) * 258;
+    default: {
+      // Anthropic: long edge capped at 1568px, about 750 pixels per token
+      const fitted = fitWithin(width, height, 1568);
+      return Math.ceil((fitted.width * fitted.height) / 750);
+    }
+  }
+}
+
+export type PreprocessSavings = {
+  tokensBefore: number;
+  tokensAfter: number;
+  /** Input cost saved per image (USD); negative if preprocessing cost more. */
+  costSaved: number;
+};
+
+export function preprocessSavings(
+  model: ModelConfig,
+  stats: PreprocessStats
+): PreprocessSavings {
+  const tokensBefore = estimateImageTokens(
+    model.provider,
+    stats.originalWidth,
+    stats.originalHeight
+  );
+  const tokensAfter = estimateImageTokens(
+    model.provider,
+    stats.width,
+    stats.height
+  );
+  return {
+    tokensBefore,
+    tokensAfter,
+    costSaved: calculateCost(model, tokensBefore - tokensAfter, 0),
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
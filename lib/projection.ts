@@ -0,0 +1,233 @@
+import { z } from "zod";
+import type { ModelConfig } from "@/lib/models";
+
+const STORAGE_KEY = "meta-playground:projection";
+
+export const CADENCES = ["once", "day", "week", "month"] as const;
+export type Cadence = (typeof CADENCES)[number];
+
+/** How often a volume repeats in a month; `once` is a one-off backfill. */
+const RUNS_PER_MONTH: Record<Cadence, number> = {
+  once: 1,
+  day: 365 / 12,
+  week: 52 / 12,
+  month: 1,
+};
+
+export const DEFAULT_VOLUMES = [1, 100, 1_000, 10_000, 100_000];
+export const MAX_VOLUMES = 8;
+/** Models in one pipeline: the first sees every image. */
+export const MAX_STAGES = 3;
+
+/** Batch APIs from OpenAI, Anthropic and Google bill half the list price. */
+export const BATCH_RATE = 0.5;
+
+/** Fraction of the input price billed for cached input tokens. */
+const CACHED_INPUT_RATES: Record<string, number> = {
+  OpenAI: 0.5,
+  Anthropic: 0.1,
+  Google: 0.25,
+};
+const DEFAULT_CACHED_INPUT_RATE = 0.5;
+
+export function cachedInputRate(provider: string): number {
+  return CACHED_INPUT_RATES[provider] ?? DEFAULT_CACHED_INPUT_RATE;
+}
+
+// ── Settings ─────────────────────────────────────────────────────────
+
+const discountSchema = z.object({
+  batch: z.boolean(),
+  /** Share of input tokens read from the provider's prompt cache. */
+  cachedInputPercent: z.number().min(0).max(100),
+});
+
+export type ProviderDiscount = z.infer<typeof discountSchema>;
+
+const stageSchema = z.object({
+  modelId: z.string(),
+  /** Percent of the previous stage's images sent on; unused for the first. */
+  escalatePercent: z.number().min(0).max(100),
+});
+
+export type PipelineStage = z.infer<typeof stageSchema>;
+
+const scenarioSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  stages: z.array(stageSchema).min(1).max(MAX_STAGES),
+  /** USD per month regardless of volume, e.g. hosting or human review. */
+  fixedMonthly: z.number().min(0),
+});
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+
+const settingsSchema = z.object({
+  volumes: z.array(z.number().int().positive()).min(1).max(MAX_VOLUMES),
+  cadence: z.enum(CADENCES),
+  discounts: z.record(z.string(), discountSchema),
+  scenarios: z.array(scenarioSchema),
+});
+
+export type ProjectionSettings = z.infer<typeof settingsSchema>;
+
+export const DEFAULT_PROJECTION: ProjectionSettings = {
+  volumes: DEFAULT_VOLUMES,
+  cadence: "once",
+  discounts: {},
+  scenarios: [],
+};
+
+export function loadProjectionSettings(): ProjectionSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw && settingsSchema.safeParse(JSON.parse(raw));
+    return parsed && parsed.success ? parsed.data : DEFAULT_PROJECTION;
+  } catch {
+    return DEFAULT_PROJECTION;
+  }
+}
+
+export function saveProjectionSettings(settings: ProjectionSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Reads a comma-separated list of image counts like `500, 2k, 1.5M`,
+ * sorted and de-duplicated, or null when any entry is invalid.
+ */
+export function parseVolumes(text: string): number[] | null {
+  const multipliers: Record<string, number> = { "": 1, k: 1e3, m: 1e6 };
+  const volumes: number[] = [];
+  for (const part of text.split(",")) {
+    const match = part.trim().match(/^(\d+(?:\.\d+)?)\s*([km]?)$/i);
+    if (!match) return null;
+    const n = Math.round(
+      Number(match[1]) * multipliers[match[2].toLowerCase()]
+    );
+    if (n <= 0) return null;
+    volumes.push(n);
+  }
+  const unique = [...new Set(volumes)].sort((a, b) => a - b);
+  return unique.length > 0 && unique.length <= MAX_VOLUMES ? unique : null;
+}
+
+export function formatVolume(n: number): string {
+  if (n >= 1e6) return `${+(n / 1e6).toFixed(1)}M`;
+  if (n >= 1e3) return `${+(n / 1e3).toFixed(1)}K`;
+  return `${n}`;
+}
+
+// ── Costs ────────────────────────────────────────────────────────────
+
+/** One model's measured usage for the current image. */
+export type MeasuredRun = {
+  modelId: string;
+  /** USD the run cost at list price. */
+  cost: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** The model whose rates priced the run, when known. */
+  pricing?: Pick<
+    ModelConfig,
+    "provider" | "inputCostPer1MTokens" | "outputCostPer1MTokens"
+  >;
+};
+
+/**
+ * Per-image cost of a measured run with the provider's batch and cached
+ * input discounts applied. Input and output are split by the pricing
+ * model's rates, so an undiscounted run keeps its measured cost.
+ */
+export function discountedCost(
+  run: MeasuredRun,
+  discounts: Record<string, ProviderDiscount>
+): number {
+  const discount = run.pricing && discounts[run.pricing.provider];
+  if (!run.pricing || !discount) return run.cost;
+
+  const input = (run.promptTokens * run.pricing.inputCostPer1MTokens) / 1e6;
+  const output =
+    (run.completionTokens * run.pricing.outputCostPer1MTokens) / 1e6;
+  if (input + output === 0) return 0;
+
+  const cached = discount.cachedInputPercent / 100;
+  const rate = cachedInputRate(run.pricing.provider);
+  const discounted = input * (1 - cached + cached * rate) + output;
+  const batch = discount.batch ? BATCH_RATE : 1;
+  return run.cost * (discounted / (input + output)) * batch;
+}
+
+/** Share of images each stage of a pipeline processes. */
+export function stageReach(stages: PipelineStage[]): number[] {
+  let reach = 1;
+  return stages.map((stage, idx) => {
+    if (idx > 0) reach *= stage.escalatePercent / 100;
+    return reach;
+  });
+}
+
+/**
+ * Expected cost per image of a pipeline, from per-image costs by model id.
+ * Null when a stage uses a model that was not measured.
+ */
+export function scenarioUnitCost(
+  scenario: Scenario,
+  unitCosts: Record<string, number>
+): number | null {
+  const reach = stageReach(scenario.stages);
+  let total = 0;
+  for (const [idx, stage] of scenario.stages.entries()) {
+    const cost = unitCosts[stage.modelId];
+    if (cost === undefined) return null;
+    total += reach[idx] * cost;
+  }
+  return total;
+}
+
+/** Images processed per month for a volume at a cadence. */
+export function monthlyImages(volume: number, cadence: Cadence): number {
+  return volume * RUNS_PER_MONTH[cadence];
+}
+
+/** A scenario reduced to a line: `fixed + unit × images` per month. */
+export type CostLine = { unit: number; fixed: number };
+
+export function monthlyCost(line: CostLine, images: number): number {
+  return line.fixed + line.unit * images;
+}
+
+/**
+ * Monthly image count at which two scenarios cost the same, or null when
+ * their lines never cross at a positive volume.
+ */
+export function breakEven(a: CostLine, b: CostLine): number | null {
+  if (a.unit === b.unit) return null;
+  const images = (b.fixed - a.fixed) / (a.unit - b.unit);
+  return images > 0 && Number.isFinite(images) ? images : null;
+}
+
+/**
+ * A starting cascade: every image through the cheapest measured model,
+ * escalating a fifth to the most expensive one.
+ */
+export function defaultScenario(
+  unitCosts: Record<string, number>
+): Scenario | null {
+  const byCost = Object.entries(unitCosts).sort((a, b) => a[1] - b[1]);
+  if (byCost.length === 0) return null;
+  const cheapest = byCost[0][0];
+  const priciest = byCost[byCost.length - 1][0];
+  return {
+    id: crypto.randomUUID(),
+    name: byCost.length > 1 ? "Cascade" : "Pipeline",
+    stages:
+      byCost.length > 1
+        ? [
+            { modelId: cheapest, escalatePercent: 100 },
+            { modelId: priciest, escalatePercent: 20 },
+          ]
+        : [{ modelId: cheapest, escalatePercent: 100 }],
+    fixedMonthly: 0,
+  };
+}
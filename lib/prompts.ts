@@ -0,0 +1,180 @@
+export const DEFAULT_PROMPT = `Analyze this image and extract comprehensive metadata. Determine facial expressions, emotional state, level of focus and attention, and body language of any subjects present. Identify dominant colors with accurate hex values, visual style, composition, mood, and all visible objects or text. Be precise and descriptive.`;
+
+export const PROMPT_TAGS = [
+  "general",
+  "e-commerce",
+  "accessibility",
+  "moderation",
+] as const;
+
+export type PromptVersion = {
+  /** 1-based, increasing with each saved edit. */
+  version: number;
+  text: string;
+  createdAt: number;
+};
+
+export type SavedPrompt = {
+  id: string;
+  name: string;
+  tags: string[];
+  /** Oldest first; the last entry is the current version. */
+  versions: PromptVersion[];
+  /** Presets ship with the app and are copied rather than edited. */
+  preset?: boolean;
+};
+
+/** Which library prompt and version a run used, recorded in history. */
+export type PromptRef = {
+  promptId: string;
+  name: string;
+  version: number;
+};
+
+export const PRESET_PROMPTS: SavedPrompt[] = [
+  {
+    id: "preset:general",
+    name: "General metadata",
+    tags: ["general"],
+    versions: [{ version: 1, text: DEFAULT_PROMPT, createdAt: 0 }],
+    preset: true,
+  },
+  {
+    id: "preset:product-listing",
+    name: "Product listing",
+    tags: ["e-commerce"],
+    versions: [
+      {
+        version: 1,
+        text: `This is a product photo for {{brand}}. Describe the product as it would appear in a store listing: product type, materials, colors with accurate hex values, style, and notable details. Write the description in {{language}} and keep it factual; do not invent features that are not visible.`,
+        createdAt: 0,
+      },
+    ],
+    preset: true,
+  },
+  {
+    id: "preset:alt-text",
+    name: "Alt text",
+    tags: ["accessibility"],
+    versions: [
+      {
+        version: 1,
+        text: `Describe this image for someone who cannot see it. Lead with the subject and the most important details, transcribe any visible text exactly, and mention colors and layout only where they matter to the meaning. Write in {{language}}.`,
+        createdAt: 0,
+      },
+    ],
+    preset: true,
+  },
+  {
+    id: "preset:moderation",
+    name: "Content moderation",
+    tags: ["moderation"],
+    versions: [
+      {
+        version: 1,
+        text: `Review this image for a platform with the following policy: {{policy}}. List all visible objects and text, describe the subjects and their actions neutrally, and note anything that may violate the policy. Do not speculate beyond what is visible.`,
+        createdAt: 0,
+      },
+    ],
+    preset: true,
+  },
+];
+
+const STORAGE_KEY = "meta-playground:prompts";
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][\w-]*)\s*\}\}/g;
+
+// ── Templates ────────────────────────────────────────────────────────
+
+/** Distinct `{{variable}}` names in the order they first appear. */
+export function templateVariables(text: string): string[] {
+  return [...new Set([...text.matchAll(VARIABLE_PATTERN)].map((m) => m[1]))];
+}
+
+export function missingVariables(
+  text: string,
+  values: Record<string, string>
+): string[] {
+  return templateVariables(text).filter((name) => !values[name]?.trim());
+}
+
+/** Substitutes variables; unfilled ones are left as written. */
+export function renderPrompt(
+  text: string,
+  values: Record<string, string>
+): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) =>
+    values[name]?.trim() ? values[name].trim() : match
+  );
+}
+
+// ── Library ──────────────────────────────────────────────────────────
+
+export function currentVersion(prompt: SavedPrompt): PromptVersion {
+  return prompt.versions[prompt.versions.length - 1];
+}
+
+export function findVersion(
+  prompts: SavedPrompt[],
+  ref: PromptRef
+): PromptVersion | undefined {
+  return prompts
+    .find((p) => p.id === ref.promptId)
+    ?.versions.find((v) => v.version === ref.version);
+}
+
+/** The newest library version with exactly this text, if any. */
+export function findPromptRef(
+  prompts: SavedPrompt[],
+  text: string
+): PromptRef | undefined {
+  for (const prompt of prompts) {
+    const version = prompt.versions.findLast((v) => v.text === text);
+    if (version) {
+      const { id: promptId, name } = prompt;
+      return { promptId, name, version: version.version };
+    }
+  }
+  return undefined;
+}
+
+export function createPrompt(
+  name: string,
+  tags: string[],
+  text: string
+): SavedPrompt {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    tags,
+    versions: [{ version: 1, text, createdAt: Date.now() }],
+  };
+}
+
+/** Appends `text` as a new version, unless it matches the current one. */
+export function addVersion(prompt: SavedPrompt, text: string): SavedPrompt {
+  const current = currentVersion(prompt);
+  if (current.text === text) return prompt;
+  return {
+    ...prompt,
+    versions: [
+      ...prompt.versions,
+      { version: current.version + 1, text, createdAt: Date.now() },
+    ],
+  };
+}
+
+/** Saved prompts only; presets are always prepended from code. */
+export function loadPromptLibrary(): SavedPrompt[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as SavedPrompt[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePromptLibrary(prompts: SavedPrompt[]): void {
+  const saved = prompts.filter((p) => !p.preset);
+  if (saved.length === 0) localStorage.removeItem(STORAGE_KEY);
+  else localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+}
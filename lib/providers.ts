@@ -0,0 +1,79 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import { google } from "@ai-sdk/google";
+import { openai } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { createGateway, type LanguageModel } from "ai";
+import { createMockModel } from "@/lib/mock-model";
+import { MODELS, type ModelBackend } from "@/lib/models";
+
+const gateway = createGateway({
+  apiKey: process.env.AI_GATEWAY_API_KEY,
+});
+
+const DIRECT_PROVIDERS: Record<string, (model: string) => LanguageModel> = {
+  openai: (model) => openai(model),
+  anthropic: (model) => anthropic(model),
+  google: (model) => google(model),
+};
+
+const compatibleProviders = new Map<
+  string,
+  ReturnType<typeof createOpenAICompatible>
+>();
+
+function splitModelId(modelId: string) {
+  const slash = modelId.indexOf("/");
+  return {
+    provider: modelId.slice(0, slash),
+    model: modelId.slice(slash + 1),
+  };
+}
+
+function openAICompatibleModel(
+  modelId: string,
+  backend: Extract<ModelBackend, { type: "openai-compatible" }>
+): LanguageModel {
+  const key = `${backend.baseURL}|${backend.apiKeyEnv ?? ""}|${backend.structuredOutputs}`;
+  let provider = compatibleProviders.get(key);
+  if (!provider) {
+    provider = createOpenAICompatible({
+      name: "openai-compatible",
+      baseURL: backend.baseURL,
+      apiKey: backend.apiKeyEnv ? process.env[backend.apiKeyEnv] : undefined,
+      supportsStructuredOutputs: backend.structuredOutputs,
+    });
+    compatibleProviders.set(key, provider);
+  }
+  return provider(backend.model ?? splitModelId(modelId).model);
+}
+
+/**
+ * Resolves a model id to the backend configured for it in the server-side
+ * registry. Unknown ids, such as models added in the browser, go through
+ * the gateway. Setting `AI_PROVIDER=mock` routes every model to the mock.
+ */
+export function resolveModel(modelId: string): LanguageModel {
+  if (process.env.AI_PROVIDER === "mock") return createMockModel(modelId);
+
+  const backend: ModelBackend = MODELS.find((m) => m.id === modelId)
+    ?.backend ?? { type: "gateway" };
+
+  switch (backend.type) {
+    case "gateway":
+      return gateway(modelId);
+    case "direct": {
+      const { provider, model } = splitModelId(modelId);
+      const create = DIRECT_PROVIDERS[provider];
+      if (!create) {
+        throw new Error(
+          `No direct SDK for "${provider}"; use the gateway or an OpenAI-compatible backend`
+        );
+      }
+      return create(model);
+    }
+    case "openai-compatible":
+      return openAICompatibleModel(modelId, backend);
+    case "mock":
+      return createMockModel(modelId);
+  }
+}
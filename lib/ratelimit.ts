@@ -1,27 +1,411 @@
-import { Ratelimit } from "@upstash/ratelimit";
-import { Redis } from "@upstash/redis";
+import { Ratelimit, type Duration } from "@upstash/ratelimit";
+import { z } from "zod";
+import { getRedis } from "@/lib/redis";
 
-let _ratelimit: Ratelimit | null = null;
+export const RATE_LIMIT_ALGORITHMS = [
+  "fixed-window",
+  "sliding-window",
+  "token-bucket",
+] as const;
 
-function getRatelimit(): Ratelimit | null {
-  if (_ratelimit) return _ratelimit;
+/** What a policy's `limit` counts. `cost` limits are in USD. */
+export const RATE_LIMIT_UNITS = ["requests", "tokens", "cost"] as const;
 
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+export type RateLimitAlgorithm = (typeof RATE_LIMIT_ALGORITHMS)[number];
+export type RateLimitUnit = (typeof RATE_LIMIT_UNITS)[number];
 
-  if (!url || !token || !url.startsWith("https")) return null;
+const DURATION_PATTERN = /^(\d+) ?(ms|s|m|h|d)$/;
 
-  _ratelimit = new Ratelimit({
-    redis: new Redis({ url, token }),
-    limiter: Ratelimit.fixedWindow(5, "1 d"),
-    analytics: true,
-  });
+export const rateLimitPolicySchema = z.object({
+  limit: z.number().positive(),
+  window: z.string().regex(DURATION_PATTERN) as z.ZodType<Duration>,
+  algorithm: z.enum(RATE_LIMIT_ALGORITHMS).optional(),
+  unit: z.enum(RATE_LIMIT_UNITS).optional(),
+});
 
-  return _ratelimit;
+/**
+ * `limit` units per `window`. A token bucket holds `limit` units and
+ * refills at that rate. Defaults to a fixed window counting requests.
+ */
+export type RateLimitPolicy = z.infer<typeof rateLimitPolicySchema>;
+
+export type RateLimitResult = {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  reset: number;
+};
+
+/** What a request will consume, measured in every unit a policy may use. */
+export type RateLimitUsage = Record<RateLimitUnit, number>;
+
+/** Anonymous playground traffic, keyed by client IP. */
+export const PLAYGROUND_POLICY: RateLimitPolicy = { limit: 5, window: "1 d" };
+
+/**
+ * Any playground extract request, cached or not, keyed by client IP. It is
+ * checked before the image is read, fetched or preprocessed, so callers out
+ * of quota cannot keep the server doing that work for free.
+ */
+export const ADMISSION_POLICY: RateLimitPolicy = { limit: 120, window: "1 m" };
+
+/** Creating share links, keyed by client IP. Each one writes to disk. */
+export const SHARE_POLICY: RateLimitPolicy = { limit: 20, window: "1 h" };
+
+// ── Stores ───────────────────────────────────────────────────────────
+
+/**
+ * Applies a policy whose limit and units are already whole numbers.
+ * Rejected requests should not consume quota where the backend allows it.
+ */
+export type RateLimitStore = {
+  limit(
+    identifier: string,
+    policy: Required<RateLimitPolicy>,
+    units: number
+  ): Promise<RateLimitResult>;
+  /** Units the identifier has left, without consuming any. */
+  remaining(
+    identifier: string,
+    policy: Required<RateLimitPolicy>
+  ): Promise<number>;
+};
+
+const DURATION_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+export function durationMs(window: Duration): number {
+  const [, amount, unit] = DURATION_PATTERN.exec(window)!;
+  return Number(amount) * DURATION_MS[unit];
+}
+
+/** Upstash Redis, shared across instances. */
+export function createUpstashStore(): RateLimitStore | null {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  const ratelimits = new Map<string, Ratelimit>();
+  const limiterFor = ({
+    algorithm,
+    limit,
+    window,
+  }: Required<RateLimitPolicy>) =>
+    algorithm === "sliding-window"
+      ? Ratelimit.slidingWindow(limit, window)
+      : algorithm === "token-bucket"
+        ? Ratelimit.tokenBucket(limit, window, limit)
+        : Ratelimit.fixedWindow(limit, window);
+
+  const ratelimitFor = (policy: Required<RateLimitPolicy>) => {
+    const key = `${policy.algorithm}:${policy.limit}:${policy.window}`;
+    let ratelimit = ratelimits.get(key);
+    if (!ratelimit) {
+      ratelimit = new Ratelimit({
+        redis,
+        limiter: limiterFor(policy),
+        // Each algorithm stores different data, so they cannot share keys
+        prefix: `ratelimit:${policy.algorithm}`,
+        analytics: true,
+      });
+      ratelimits.set(key, ratelimit);
+    }
+    return ratelimit;
+  };
+
+  return {
+    async limit(identifier, policy, units) {
+      return ratelimitFor(policy).limit(identifier, { rate: units });
+    },
+    async remaining(identifier, policy) {
+      const { remaining } = await ratelimitFor(policy).getRemaining(identifier);
+      return remaining;
+    },
+  };
+}
+
+type Counter = { window: number; count: number; previous: number };
+type Bucket = { tokens: number; updatedAt: number };
+
+/** Sweep expired entries once the maps grow past this many keys. */
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+
+/** In-process counters for local development; lost on restart. */
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, Counter>();
+  const buckets = new Map<string, Bucket>();
+
+  const sweep = (now: number) => {
+    if (counters.size + buckets.size < MEMORY_SWEEP_THRESHOLD) return;
+    for (const [key, counter] of counters) {
+      const ms = Number(key.split(":")[1]);
+      if (counter.window + 2 * ms <= now) counters.delete(key);
+    }
+    for (const [key, bucket] of buckets) {
+      const ms = Number(key.split(":")[1]);
+      if (bucket.updatedAt + ms <= now) buckets.delete(key);
+    }
+  };
+
+  const windowed = (
+    key: string,
+    { algorithm, limit }: Required<RateLimitPolicy>,
+    ms: number,
+    units: number,
+    now: number
+  ): RateLimitResult => {
+    const window = Math.floor(now / ms) * ms;
+    const stored = counters.get(key);
+    const counter: Counter =
+      stored?.window === window
+        ? stored
+        : {
+            window,
+            count: 0,
+            previous: stored?.window === window - ms ? stored.count : 0,
+          };
+    // A sliding window weights the previous window by how much of it
+    // still overlaps the last `ms` milliseconds
+    const carried =
+      algorithm === "sliding-window"
+        ? Math.floor(counter.previous * (1 - (now - window) / ms))
+        : 0;
+    const used = carried + counter.count;
+    const success = used + units <= limit;
+    if (success) counter.count += units;
+    counters.set(key, counter);
+    return {
+      success,
+      limit,
+      remaining: Math.max(0, limit - used - (success ? units : 0)),
+      reset: window + ms,
+    };
+  };
+
+  const bucketed = (
+    key: string,
+    { limit }: Required<RateLimitPolicy>,
+    ms: number,
+    units: number,
+    now: number
+  ): RateLimitResult => {
+    const stored = buckets.get(key);
+    const refilled = stored
+      ? ((now - stored.updatedAt) / ms) * limit + stored.tokens
+      : limit;
+    const bucket = { tokens: Math.min(limit, refilled), updatedAt: now };
+    const success = bucket.tokens >= units;
+    if (success) bucket.tokens -= units;
+    buckets.set(key, bucket);
+    // When the bucket is full again, or holds enough for this request
+    const missing = success ? limit - bucket.tokens : units - bucket.tokens;
+    return {
+      success,
+      limit,
+      remaining: Math.floor(bucket.tokens),
+      reset: now + Math.ceil((missing / limit) * ms),
+    };
+  };
+
+  const apply = (
+    identifier: string,
+    policy: Required<RateLimitPolicy>,
+    units: number
+  ): RateLimitResult => {
+    const now = Date.now();
+    sweep(now);
+    const ms = durationMs(policy.window);
+    const key = `${policy.algorithm}:${ms}:${policy.limit}:${identifier}`;
+    return policy.algorithm === "token-bucket"
+      ? bucketed(key, policy, ms, units, now)
+      : windowed(key, policy, ms, units, now);
+  };
+
+  return {
+    async limit(identifier, policy, units) {
+      return apply(identifier, policy, units);
+    },
+    async remaining(identifier, policy) {
+      // Consuming zero units reads the counter without changing it
+      return apply(identifier, policy, 0).remaining;
+    },
+  };
+}
+
+/** Backends selectable through `RATE_LIMIT_STORE`; `off` allows everything. */
+const RATE_LIMIT_STORES: Record<string, () => RateLimitStore | null> = {
+  upstash: createUpstashStore,
+  memory: createMemoryStore,
+  off: () => null,
+};
+
+let _store: RateLimitStore | null | undefined;
+
+function getRateLimitStore(): RateLimitStore | null {
+  if (_store !== undefined) return _store;
+
+  const configured = process.env.RATE_LIMIT_STORE;
+  const backend = configured ?? "upstash";
+  _store = RATE_LIMIT_STORES[backend]?.() ?? null;
+  if (!_store && backend !== "off") {
+    console.warn(
+      configured
+        ? `[ratelimit] "${backend}" is unknown or not configured, rate limiting is off`
+        : "[ratelimit] Upstash is not configured, rate limiting is off. Set RATE_LIMIT_STORE=memory to enforce limits in-process."
+    );
+  }
+  return _store;
+}
+
+// ── Policies ─────────────────────────────────────────────────────────
+
+/** Stored cost units are micro-dollars, since stores count whole units. */
+const COST_SCALE = 1_000_000;
+
+function scaleFor(unit: RateLimitUnit): number {
+  return unit === "cost" ? COST_SCALE : 1;
+}
+
+function parsePolicyEnv<T>(name: string, schema: z.ZodType<T>): T | null {
+  const raw = process.env[name];
+  if (!raw) return null;
+  try {
+    return schema.parse(JSON.parse(raw));
+  } catch (error) {
+    console.error(`[ratelimit] Ignoring invalid ${name}:`, error);
+    return null;
+  }
+}
+
+let _playgroundPolicy: RateLimitPolicy | undefined;
+let _modelPolicies: Record<string, RateLimitPolicy> | undefined;
+
+/** The anonymous playground policy, overridable by `RATE_LIMIT_POLICY`. */
+export function playgroundPolicy(): RateLimitPolicy {
+  _playgroundPolicy ??=
+    parsePolicyEnv("RATE_LIMIT_POLICY", rateLimitPolicySchema) ??
+    PLAYGROUND_POLICY;
+  return _playgroundPolicy;
+}
+
+/**
+ * An extra limit for one model, applied per caller on top of their overall
+ * quota, from the `RATE_LIMIT_MODELS` map of model id to policy.
+ */
+export function modelPolicy(modelId: string): RateLimitPolicy | null {
+  _modelPolicies ??=
+    parsePolicyEnv(
+      "RATE_LIMIT_MODELS",
+      z.record(z.string(), rateLimitPolicySchema)
+    ) ?? {};
+  return _modelPolicies[modelId] ?? null;
+}
+
+/** The policy in whole stored units, as `RateLimitStore` expects. */
+function storedPolicy(policy: RateLimitPolicy): Required<RateLimitPolicy> {
+  const unit = policy.unit ?? "requests";
+  return {
+    limit: Math.max(1, Math.round(policy.limit * scaleFor(unit))),
+    window: policy.window,
+    algorithm: policy.algorithm ?? "fixed-window",
+    unit,
+  };
+}
+
+async function applyPolicy(
+  store: RateLimitStore,
+  identifier: string,
+  policy: RateLimitPolicy,
+  usage: RateLimitUsage
+): Promise<RateLimitResult> {
+  const stored = storedPolicy(policy);
+  const scale = scaleFor(stored.unit);
+  const result = await store.limit(
+    `${stored.unit}:${identifier}`,
+    stored,
+    Math.max(1, Math.ceil(usage[stored.unit] * scale))
+  );
+  return {
+    ...result,
+    limit: result.limit / scale,
+    remaining: result.remaining / scale,
+  };
+}
+
+/**
+ * Consumes the usage, in the policy's unit, from the identifier's quota.
+ * Always succeeds when no store is configured.
+ */
+export async function checkRateLimit(
+  identifier: string,
+  policy: RateLimitPolicy,
+  usage: RateLimitUsage
+): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  if (!store) return { success: true, limit: 0, remaining: 0, reset: 0 };
+  return applyPolicy(store, identifier, policy, usage);
+}
+
+let _spendStore: RateLimitStore | undefined;
+
+/**
+ * Spend caps are guardrails, so without a configured store they count
+ * in-process rather than switching off with the rate limits.
+ */
+function getSpendStore(): RateLimitStore {
+  _spendStore ??= getRateLimitStore() ?? createMemoryStore();
+  return _spendStore;
+}
+
+function dailySpendPolicy(cap: number): RateLimitPolicy {
+  return { limit: cap, window: "1 d", unit: "cost" };
+}
+
+/**
+ * Adds `cost` (USD) to the identifier's spend for the current UTC day,
+ * unless that would take it past `cap`.
+ */
+export async function checkDailySpend(
+  identifier: string,
+  cap: number,
+  cost: number
+): Promise<RateLimitResult> {
+  return applyPolicy(
+    getSpendStore(),
+    `spend:${identifier}`,
+    dailySpendPolicy(cap),
+    { requests: 0, tokens: 0, cost }
+  );
+}
+
+/**
+ * Whether `cost` (USD) still fits under the identifier's `cap` for the
+ * current UTC day, without counting it.
+ */
+export async function hasDailySpend(
+  identifier: string,
+  cap: number,
+  cost: number
+): Promise<boolean> {
+  const remaining = await getSpendStore().remaining(
+    `cost:spend:${identifier}`,
+    storedPolicy(dailySpendPolicy(cap))
+  );
+  return Math.max(1, Math.ceil(cost * COST_SCALE)) <= remaining;
 }
 
-export async function checkRateLimit(identifier: string) {
-  const rl = getRatelimit();
-  if (!rl) return { success: true, limit: 0, remaining: 0, reset: 0 };
-  return rl.limit(identifier);
+export function rateLimitHeaders({
+  limit,
+  remaining,
+  reset,
+}: RateLimitResult): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": limit.toString(),
+    "X-RateLimit-Remaining": remaining.toString(),
+    "X-RateLimit-Reset": reset.toString(),
+  };
 }
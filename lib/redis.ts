@@ -0,0 +1,16 @@
+import { Redis } from "@upstash/redis";
+
+let _redis: Redis | null = null;
+
+/** Shared Upstash client, or null when the REST credentials are not set. */
+export function getRedis(): Redis | null {
+  if (_redis) return _redis;
+
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (!url || !token || !url.startsWith("https")) return null;
+
+  _redis = new Redis({ url, token });
+  return _redis;
+}
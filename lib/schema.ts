@@ -0,0 +1,394 @@
+import { z } from "zod";
+
+export type FieldType = "string" | "number" | "boolean" | "enum" | "object";
+
+export const FIELD_TYPES: FieldType[] = [
+  "string",
+  "number",
+  "boolean",
+  "enum",
+  "object",
+];
+
+export type SchemaField = {
+  name: string;
+  type: FieldType;
+  description: string;
+  nullable: boolean;
+  array: boolean;
+  enumValues?: string[];
+  fields?: SchemaField[];
+};
+
+export type MetadataValue =
+  | string
+  | number
+  | boolean
+  | null
+  | MetadataValue[]
+  | { [key: string]: MetadataValue };
+
+export type MetadataResult = Record<string, MetadataValue>;
+
+/** A result still being streamed: any field or nested item may be missing. */
+export type PartialMetadataValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | PartialMetadataValue[]
+  | { [key: string]: PartialMetadataValue };
+
+export type PartialMetadata = Record<string, PartialMetadataValue>;
+
+export const MAX_FIELDS = 40;
+export const MAX_DEPTH = 3;
+
+export const DEFAULT_FIELDS: SchemaField[] = [
+  {
+    name: "title",
+    type: "string",
+    description: "A short, descriptive title for the image (5-10 words)",
+    nullable: false,
+    array: false,
+  },
+  {
+    name: "description",
+    type: "string",
+    description:
+      "A detailed description of the image content, suitable for accessibility and search (2-3 sentences)",
+    nullable: false,
+    array: false,
+  },
+  {
+    name: "category",
+    type: "string",
+    description:
+      "Primary category: product, portrait, landscape, logo, illustration, icon, photo, graphic, screenshot, document, or other",
+    nullable: false,
+    array: false,
+  },
+  {
+    name: "tags",
+    type: "string",
+    description: "5-10 relevant tags for categorization, lowercase",
+    nullable: false,
+    array: true,
+  },
+  {
+    name: "colors",
+    type: "object",
+    description: "3-5 dominant colors visible in the image",
+    nullable: false,
+    array: true,
+    fields: [
+      {
+        name: "name",
+        type: "string",
+        description: "Color name like 'navy blue' or 'warm red'",
+        nullable: false,
+        array: false,
+      },
+      {
+        name: "hex",
+        type: "string",
+        description: "Approximate hex color code like '#1a2b3c'",
+        nullable: false,
+        array: false,
+      },
+    ],
+  },
+  {
+    name: "mood",
+    type: "string",
+    description:
+      "The overall mood or feeling conveyed (e.g., professional, playful, serene)",
+    nullable: false,
+    array: false,
+  },
+  {
+    name: "style",
+    type: "string",
+    description:
+      "Visual style (e.g., minimalist, vintage, modern, flat, photorealistic)",
+    nullable: false,
+    array: false,
+  },
+  {
+    name: "expressions",
+    type: "string",
+    description:
+      "Facial expressions detected if people are present (e.g., smiling, focused, contemplative, surprised). Null if no faces visible",
+    nullable: true,
+    array: false,
+  },
+  {
+    name: "emotions",
+    type: "string",
+    description:
+      "Emotions conveyed by the image or subjects (e.g., joy, determination, serenity, tension, curiosity)",
+    nullable: false,
+    array: true,
+  },
+  {
+    name: "focusLevel",
+    type: "string",
+    description:
+      "Level of focus/attention of subjects if people are present: deep focus, casual, distracted, engaged, relaxed. Null if no people",
+    nullable: true,
+    array: false,
+  },
+  {
+    name: "bodyLanguage",
+    type: "string",
+    description:
+      "Body language and posture description if people are present. Null if no people",
+    nullable: true,
+    array: false,
+  },
+  {
+    name: "objects",
+    type: "string",
+    description: "Key objects or elements visible in the image",
+    nullable: false,
+    array: true,
+  },
+  {
+    name: "textContent",
+    type: "string",
+    description: "Any text visible in the image, or null if none",
+    nullable: true,
+    array: false,
+  },
+  {
+    name: "altText",
+    type: "string",
+    description: "Concise, accessible alt text for screen readers (one sentence)",
+    nullable: false,
+    array: false,
+  },
+];
+
+// ── JSON Schema ──────────────────────────────────────────────────────
+// Only the subset of JSON Schema the builder can produce is accepted, which
+// keeps it compatible with every provider's structured output mode.
+
+type JsonSchemaType = "string" | "number" | "boolean" | "object" | "array";
+
+export type JsonSchemaProperty = {
+  type: JsonSchemaType | [JsonSchemaType, "null"];
+  description?: string;
+  enum?: (string | null)[];
+  items?: JsonSchemaProperty;
+  properties?: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  additionalProperties?: false;
+};
+
+export type ExtractionSchema = JsonSchemaProperty & {
+  type: "object";
+  properties: Record<string, JsonSchemaProperty>;
+};
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+
+function fieldToProperty(field: SchemaField): JsonSchemaProperty {
+  let item: JsonSchemaProperty;
+  if (field.type === "object") {
+    item = objectSchema(field.fields ?? []);
+  } else if (field.type === "enum") {
+    item = { type: "string", enum: [...(field.enumValues ?? [])] };
+  } else {
+    item = { type: field.type };
+  }
+
+  const property: JsonSchemaProperty = field.array
+    ? { type: "array", items: item }
+    : item;
+
+  if (field.nullable) {
+    property.type = [property.type as JsonSchemaType, "null"];
+    if (property.enum) property.enum = [...property.enum, null];
+  }
+  if (field.description) property.description = field.description;
+  return property;
+}
+
+function objectSchema(fields: SchemaField[]): ExtractionSchema {
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      fields.map((f) => [f.name, fieldToProperty(f)])
+    ),
+    required: fields.map((f) => f.name),
+    additionalProperties: false,
+  };
+}
+
+export function fieldsToJsonSchema(fields: SchemaField[]): ExtractionSchema {
+  return objectSchema(fields);
+}
+
+export const DEFAULT_SCHEMA = fieldsToJsonSchema(DEFAULT_FIELDS);
+
+// ── Validation ───────────────────────────────────────────────────────
+
+const jsonSchemaTypeSchema = z.enum([
+  "string",
+  "number",
+  "boolean",
+  "object",
+  "array",
+]);
+
+const jsonSchemaPropertySchema: z.ZodType<JsonSchemaProperty> = z.lazy(() =>
+  z
+    .object({
+      type: z.union([
+        jsonSchemaTypeSchema,
+        z.tuple([jsonSchemaTypeSchema, z.literal("null")]),
+      ]),
+      description: z.string().max(1000).optional(),
+      enum: z.array(z.string().max(200).nullable()).min(1).max(100).optional(),
+      items: jsonSchemaPropertySchema.optional(),
+      properties: z
+        .record(z.string().regex(FIELD_NAME_PATTERN), jsonSchemaPropertySchema)
+        .optional(),
+      required: z.array(z.string()).optional(),
+      additionalProperties: z.literal(false).optional(),
+    })
+    .strict()
+    // Strict structured output rejects these shapes, so catch them up front
+    .superRefine((property, ctx) => {
+      const type = Array.isArray(property.type)
+        ? property.type[0]
+        : property.type;
+      const keys = Object.keys(property.properties ?? {});
+      if (type === "object" && keys.length === 0) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["properties"],
+          message: "Objects must define at least one property",
+        });
+      }
+      const unknown = property.required?.find((name) => !keys.includes(name));
+      if (unknown !== undefined) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["required"],
+          message: `Required field "${unknown}" is not in properties`,
+        });
+      }
+      const optional = keys.find((key) => !property.required?.includes(key));
+      if (optional !== undefined) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["required"],
+          message: `Field "${optional}" must be required; make it nullable instead`,
+        });
+      }
+    })
+);
+
+function depthOf(property: JsonSchemaProperty): number {
+  const children = [
+    ...(property.items ? [property.items] : []),
+    ...Object.values(property.properties ?? {}),
+  ];
+  const nested = property.properties ? 1 : 0;
+  return nested + Math.max(0, ...children.map(depthOf));
+}
+
+function countFields(property: JsonSchemaProperty): number {
+  const own = Object.values(property.properties ?? {});
+  return (
+    own.length +
+    own.reduce((sum, p) => sum + countFields(p), 0) +
+    (property.items ? countFields(property.items) : 0)
+  );
+}
+
+export const extractionSchemaSchema = jsonSchemaPropertySchema
+  .refine(
+    (s): s is ExtractionSchema => s.type === "object" && !!s.properties,
+    "Schema root must be an object with properties"
+  )
+  .refine(
+    (s) => Object.keys(s.properties ?? {}).length > 0,
+    "Schema must define at least one field"
+  )
+  .refine(
+    (s) => depthOf(s) <= MAX_DEPTH,
+    `Schema cannot nest objects deeper than ${MAX_DEPTH} levels`
+  )
+  .refine(
+    (s) => countFields(s) <= MAX_FIELDS,
+    `Schema cannot define more than ${MAX_FIELDS} fields`
+  ) as z.ZodType<ExtractionSchema>;
+
+export type ParseSchemaResult =
+  | { success: true; schema: ExtractionSchema }
+  | { success: false; error: string };
+
+export function parseExtractionSchema(raw: string): ParseSchemaResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { success: false, error: "Schema is not valid JSON" };
+  }
+
+  const result = extractionSchemaSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` at ${issue.path.join(".")}` : "";
+    return { success: false, error: `Invalid schema${path}: ${issue.message}` };
+  }
+  return { success: true, schema: result.data };
+}
+
+/** Builds a runtime validator for model output matching the given schema. */
+export function schemaValidator(schema: ExtractionSchema) {
+  return z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
+}
+
+/** Returns the first problem with the builder fields, or null if valid. */
+export function validateFields(
+  fields: SchemaField[],
+  depth = 1
+): string | null {
+  if (fields.length === 0) return "Add at least one field";
+  if (depth > MAX_DEPTH) {
+    return `Objects cannot be nested deeper than ${MAX_DEPTH} levels`;
+  }
+
+  const seen = new Set<string>();
+  for (const field of fields) {
+    if (!FIELD_NAME_PATTERN.test(field.name)) {
+      return `"${field.name || "(empty)"}" is not a valid field name`;
+    }
+    if (seen.has(field.name)) return `Duplicate field "${field.name}"`;
+    seen.add(field.name);
+
+    if (field.type === "enum" && (field.enumValues ?? []).length === 0) {
+      return `Enum field "${field.name}" needs at least one value`;
+    }
+    if (field.type === "object") {
+      const nested = validateFields(field.fields ?? [], depth + 1);
+      if (nested) return `${field.name}: ${nested}`;
+    }
+  }
+  return depth === 1 && countFields(fieldsToJsonSchema(fields)) > MAX_FIELDS
+    ? `Schemas are limited to ${MAX_FIELDS} fields`
+    : null;
+}
+
+export function humanizeFieldName(name: string): string {
+  const words = name
+    .replace(/_/g, " ")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,151 @@
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { SHARE_ID_PATTERN, type ShareSnapshot } from "@/lib/share";
+
+export type SharedImage = {
+  bytes: Uint8Array;
+  type: string;
+};
+
+/**
+ * Where shared runs live. Implementations only see ids that already match
+ * `SHARE_ID_PATTERN`, and `save` must fail rather than overwrite an id.
+ * Stores should stay bounded, e.g. by evicting their oldest runs.
+ */
+export type ShareStore = {
+  save(snapshot: ShareSnapshot, image: SharedImage | null): Promise<void>;
+  load(id: string): Promise<ShareSnapshot | null>;
+  loadImage(id: string): Promise<SharedImage | null>;
+};
+
+async function readOptional(file: string): Promise<Buffer | null> {
+  try {
+    return await readFile(file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/** Disk budget for the filesystem store, overridable by `SHARE_MAX_BYTES`. */
+const DEFAULT_MAX_BYTES = 1024 * 1024 * 1024;
+
+/**
+ * Deletes the oldest runs until `incoming` more bytes fit under `maxBytes`.
+ * A run's files share its id, so they go together.
+ */
+async function evictOldest(
+  dir: string,
+  maxBytes: number,
+  incoming: number
+): Promise<void> {
+  const runs = new Map<
+    string,
+    { files: string[]; bytes: number; mtime: number }
+  >();
+  for (const name of await readdir(dir)) {
+    const id = name.replace(/\.(json|img)$/, "");
+    if (id === name) continue;
+    // Another save may evict it between readdir and stat
+    const info = await stat(path.join(dir, name)).catch(() => null);
+    if (!info) continue;
+    const run = runs.get(id) ?? { files: [], bytes: 0, mtime: info.mtimeMs };
+    run.files.push(name);
+    run.bytes += info.size;
+    run.mtime = Math.min(run.mtime, info.mtimeMs);
+    runs.set(id, run);
+  }
+
+  let total = incoming;
+  for (const run of runs.values()) total += run.bytes;
+  const oldestFirst = [...runs.values()].sort((a, b) => a.mtime - b.mtime);
+  for (const run of oldestFirst) {
+    if (total <= maxBytes) break;
+    await Promise.all(
+      run.files.map((name) => unlink(path.join(dir, name)).catch(() => {}))
+    );
+    total -= run.bytes;
+  }
+}
+
+/**
+ * One `<id>.json` per run, plus `<id>.img` when the image was uploaded.
+ * The oldest runs are evicted to keep the directory under `maxBytes`.
+ */
+export function createFilesystemStore(
+  dir: string,
+  maxBytes = DEFAULT_MAX_BYTES
+): ShareStore {
+  const file = (id: string, ext: string) => path.join(dir, `${id}.${ext}`);
+
+  const load = async (id: string): Promise<ShareSnapshot | null> => {
+    const raw = await readOptional(file(id, "json"));
+    return raw ? (JSON.parse(raw.toString("utf8")) as ShareSnapshot) : null;
+  };
+
+  return {
+    async save(snapshot, image) {
+      await mkdir(dir, { recursive: true });
+      const json = JSON.stringify(snapshot);
+      await evictOldest(
+        dir,
+        maxBytes,
+        Buffer.byteLength(json) + (image?.bytes.byteLength ?? 0)
+      );
+      if (image) {
+        await writeFile(file(snapshot.id, "img"), image.bytes, { flag: "wx" });
+      }
+      await writeFile(file(snapshot.id, "json"), json, { flag: "wx" });
+    },
+
+    load,
+
+    async loadImage(id) {
+      const snapshot = await load(id);
+      if (!snapshot?.imageType) return null;
+      const bytes = await readOptional(file(id, "img"));
+      return bytes
+        ? { bytes: new Uint8Array(bytes), type: snapshot.imageType }
+        : null;
+    },
+  };
+}
+
+/** Backends selectable through `SHARE_STORE`; add new stores here. */
+const SHARE_STORES: Record<string, () => ShareStore> = {
+  filesystem: () =>
+    createFilesystemStore(
+      path.resolve(process.env.SHARE_DIR ?? ".data/shares"),
+      Number(process.env.SHARE_MAX_BYTES) || DEFAULT_MAX_BYTES
+    ),
+};
+
+let _store: ShareStore | null = null;
+
+function getShareStore(): ShareStore {
+  if (_store) return _store;
+
+  const backend = process.env.SHARE_STORE ?? "filesystem";
+  const create = SHARE_STORES[backend];
+  if (!create) {
+    console.error(`[share] Unknown SHARE_STORE "${backend}", using filesystem`);
+  }
+  _store = (create ?? SHARE_STORES.filesystem)();
+  return _store;
+}
+
+export async function saveShare(
+  snapshot: ShareSnapshot,
+  image: SharedImage | null
+): Promise<void> {
+  return getShareStore().save(snapshot, image);
+}
+
+/** Returns null for unknown or malformed ids. */
+export async function loadShare(id: string): Promise<ShareSnapshot | null> {
+  return SHARE_ID_PATTERN.test(id) ? getShareStore().load(id) : null;
+}
+
+export async function loadShareImage(id: string): Promise<SharedImage | null> {
+  return SHARE_ID_PATTERN.test(id) ? getShareStore().loadImage(id) : null;
+}
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import type {
+  ExtractionResult,
+  ModelExtractionState,
+} from "@/lib/extract-client";
+import { EXTRACT_ERROR_CODES } from "@/lib/extract-errors";
+import type { HistoryEntry } from "@/lib/history";
+import { MAX_LOCALES } from "@/lib/locales";
+import type { ModelConfig } from "@/lib/models";
+import type { SchemaField } from "@/lib/schema";
+
+export const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{10}$/;
+/** Upper bound on the serialized snapshot, excluding the image. */
+export const MAX_SNAPSHOT_BYTES = 1024 * 1024;
+
+/** A finished comparison, frozen so it renders the same for every viewer. */
+export type ShareSnapshot = {
+  id: string;
+  createdAt: number;
+  imageName: string;
+  /** Set for remote images, which are not stored. */
+  imageUrl?: string;
+  /** Set when the uploaded image is stored with the snapshot. */
+  imageType?: string;
+  prompt: string;
+  fields: SchemaField[];
+  /** Output locales, primary first, when the run asked for them. */
+  locales?: string[];
+  /** The run's models as priced when shared, without backend settings. */
+  models: ModelConfig[];
+  entries: HistoryEntry[];
+};
+
+/** What the browser sends; the server fills in the rest. */
+export type ShareRequest = Omit<
+  ShareSnapshot,
+  "id" | "createdAt" | "imageType"
+>;
+
+const fieldSchema: z.ZodType<SchemaField> = z.lazy(() =>
+  z.object({
+    name: z.string(),
+    type: z.enum(["string", "number", "boolean", "enum", "object"]),
+    description: z.string().max(1000),
+    nullable: z.boolean(),
+    array: z.boolean(),
+    enumValues: z.array(z.string().max(200)).optional(),
+    fields: z.array(fieldSchema).optional(),
+  })
+);
+
+const resultSchema = z.object({
+  metadata: z.record(z.string(), z.json()),
+  usage: z.object({
+    promptTokens: z.number().nonnegative(),
+    completionTokens: z.number().nonnegative(),
+    totalTokens: z.number().nonnegative(),
+  }),
+  duration: z.number().nonnegative(),
+  timeToFirstField: z.number().nonnegative().optional(),
+  preprocess: z
+    .object({
+      originalBytes: z.number(),
+      originalWidth: z.number(),
+      originalHeight: z.number(),
+      bytes: z.number(),
+      width: z.number(),
+      height: z.number(),
+      format: z.string(),
+    })
+    .optional(),
+  cachedAt: z.number().optional(),
+  model: z.string(),
+  failures: z
+    .array(
+      z.object({
+        model: z.string(),
+        code: z.enum(EXTRACT_ERROR_CODES),
+        message: z.string().max(2000),
+      })
+    )
+    .optional(),
+  cost: z.number().nonnegative(),
+}) as z.ZodType<ExtractionResult>;
+
+export const shareRequestSchema = z.object({
+  imageName: z.string().max(2000),
+  imageUrl: z.url({ protocol: /^https?$/ }).optional(),
+  prompt: z.string().max(20_000),
+  fields: z.array(fieldSchema),
+  locales: z.array(z.string().max(16)).max(MAX_LOCALES).optional(),
+  models: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        provider: z.string(),
+        inputCostPer1MTokens: z.number().nonnegative(),
+        outputCostPer1MTokens: z.number().nonnegative(),
+        capabilities: z.object({
+          vision: z.boolean(),
+          structuredOutput: z.boolean(),
+        }),
+      })
+    )
+    .min(1)
+    .max(50),
+  entries: z
+    .array(
+      z.object({
+        modelId: z.string(),
+        status: z.enum(["success", "error"]),
+        result: resultSchema.optional(),
+        error: z.string().max(2000).optional(),
+        errorCode: z.enum(EXTRACT_ERROR_CODES).optional(),
+      })
+    )
+    .min(1)
+    .max(50),
+}) satisfies z.ZodType<ShareRequest>;
+
+/** Short URL-safe id, e.g. `Xq3_f9aK0b`. */
+export function createShareId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  const alphabet =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_-";
+  return Array.from(bytes, (b) => alphabet[b & 63]).join("");
+}
+
+export function sharePath(id: string): string {
+  return `/s/${id}`;
+}
+
+/** Builds the snapshot for every model that finished, failed or succeeded. */
+export function toShareRequest({
+  image,
+  prompt,
+  fields,
+  locales,
+  models,
+  extractions,
+}: {
+  image: File | string;
+  prompt: string;
+  fields: SchemaField[];
+  locales?: string[];
+  models: ModelConfig[];
+  extractions: Record<string, ModelExtractionState>;
+}): ShareRequest {
+  const finished = models.filter((m) => {
+    const status = extractions[m.id]?.status;
+    return status === "success" || status === "error";
+  });
+
+  return {
+    imageName: typeof image === "string" ? image : image.name,
+    ...(typeof image === "string" && { imageUrl: image }),
+    prompt,
+    fields,
+    ...(locales?.length && { locales }),
+    models: finished.map((m) => ({
+      id: m.id,
+      name: m.name,
+      provider: m.provider,
+      inputCostPer1MTokens: m.inputCostPer1MTokens,
+      outputCostPer1MTokens: m.outputCostPer1MTokens,
+      capabilities: m.capabilities,
+    })),
+    entries: finished.map((m) => {
+      const { status, result, error, errorCode } = extractions[m.id];
+      return status === "success"
+        ? { modelId: m.id, status, result }
+        : { modelId: m.id, status: "error", error, errorCode };
+    }),
+  };
+}
+
+/** Uploads a run, with the image when it was a local file. */
+export async function createShare(
+  request: ShareRequest,
+  image: File | null
+): Promise<{ id: string; url: string }> {
+  const formData = new FormData();
+  formData.append("snapshot", JSON.stringify(request));
+  if (image) formData.append("image", image);
+
+  const res = await fetch("/api/share", { method: "POST", body: formData });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
@@ -0,0 +1,41 @@
+export function normalizeText(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Jaccard index of two string sets, compared case-insensitively. */
+export function jaccard(a: string[], b: string[]): number {
+  const setA = new Set(a.map(normalizeText));
+  const setB = new Set(b.map(normalizeText));
+  if (setA.size === 0 && setB.size === 0) return 1;
+  let intersection = 0;
+  for (const item of setA) if (setB.has(item)) intersection++;
+  return intersection / (setA.size + setB.size - intersection);
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/** 1 minus the edit distance relative to the longer string. */
+export function textSimilarity(a: string, b: string): number {
+  const x = normalizeText(a);
+  const y = normalizeText(b);
+  const longest = Math.max(x.length, y.length);
+  return longest === 0 ? 1 : 1 - levenshtein(x, y) / longest;
+}
@@ -0,0 +1,204 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { appendFile, mkdir, readFile } from "fs/promises";
+import path from "path";
+import type { ExtractInput } from "@/lib/extract";
+import type { ExtractErrorCode } from "@/lib/extract-errors";
+import type { AttemptUsage } from "@/lib/extract-recovery";
+import { sha256Hex } from "@/lib/hash";
+import { MODELS, calculateCost } from "@/lib/models";
+import { getRedis } from "@/lib/redis";
+import {
+  daysIn,
+  utcDay,
+  type UsageRange,
+  type UsageRecord,
+  type UsageSource,
+} from "@/lib/usage";
+
+/** Redis keeps each day's records this long. */
+const REDIS_RETENTION_SECONDS = 400 * 24 * 60 * 60;
+const DEFAULT_MEMORY_RECORDS = 50_000;
+
+/** Append-only usage log, read back by UTC day. */
+export type UsageStore = {
+  append(record: UsageRecord): Promise<void>;
+  list(range: UsageRange): Promise<UsageRecord[]>;
+};
+
+function inRange(record: UsageRecord, { from, to }: UsageRange): boolean {
+  return record.at >= from && record.at < to;
+}
+
+/** Keeps the most recent records in process; lost on restart. */
+export function createMemoryUsageStore(maxRecords: number): UsageStore {
+  const records: UsageRecord[] = [];
+  return {
+    async append(record) {
+      records.push(record);
+      if (records.length > maxRecords) records.shift();
+    },
+    async list(range) {
+      return records.filter((r) => inRange(r, range));
+    },
+  };
+}
+
+/** One `YYYY-MM-DD.jsonl` file per UTC day. */
+export function createFilesystemUsageStore(dir: string): UsageStore {
+  const file = (day: string) => path.join(dir, `${day}.jsonl`);
+
+  return {
+    async append(record) {
+      await mkdir(dir, { recursive: true });
+      const line = JSON.stringify(record) + "\n";
+      await appendFile(file(utcDay(record.at)), line);
+    },
+
+    async list(range) {
+      const days = await Promise.all(
+        daysIn(range).map((day) => readFile(file(day), "utf8").catch(() => ""))
+      );
+      return days.flatMap((text) =>
+        text.split("\n").flatMap((line) => {
+          if (!line) return [];
+          try {
+            const record = JSON.parse(line) as UsageRecord;
+            return inRange(record, range) ? [record] : [];
+          } catch {
+            // A line cut short by a crash mid-append
+            return [];
+          }
+        })
+      );
+    },
+  };
+}
+
+/** Upstash Redis, one list per UTC day. */
+export function createRedisUsageStore(): UsageStore | null {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  const key = (day: string) => `usage:${day}`;
+  return {
+    async append(record) {
+      const day = key(utcDay(record.at));
+      await redis.rpush(day, record);
+      await redis.expire(day, REDIS_RETENTION_SECONDS);
+    },
+    async list(range) {
+      const days = await Promise.all(
+        daysIn(range).map((day) => redis.lrange<UsageRecord>(key(day), 0, -1))
+      );
+      return days.flat().filter((r) => inRange(r, range));
+    },
+  };
+}
+
+/** Backends selectable through `USAGE_STORE`; `off` records nothing. */
+const USAGE_STORES: Record<string, () => UsageStore | null> = {
+  filesystem: () =>
+    createFilesystemUsageStore(
+      path.resolve(process.env.USAGE_DIR ?? ".data/usage")
+    ),
+  memory: () => createMemoryUsageStore(DEFAULT_MEMORY_RECORDS),
+  redis: createRedisUsageStore,
+  off: () => null,
+};
+
+let _store: UsageStore | null | undefined;
+
+function getUsageStore(): UsageStore | null {
+  if (_store !== undefined) return _store;
+
+  const backend = process.env.USAGE_STORE ?? "filesystem";
+  _store = USAGE_STORES[backend]?.() ?? null;
+  if (!_store && backend !== "off") {
+    console.error(
+      `[usage] "${backend}" is unknown or not configured, using filesystem`
+    );
+    _store = USAGE_STORES.filesystem();
+  }
+  return _store;
+}
+
+export async function loadUsage(range: UsageRange): Promise<UsageRecord[]> {
+  return (await getUsageStore()?.list(range)) ?? [];
+}
+
+/** How one model's part of a request ended. */
+export type ExtractionOutcome = (
+  | {
+      status: "success";
+      /** The model that answered, possibly a fallback. */
+      model: string;
+      usage: { promptTokens: number; completionTokens: number };
+      cached?: boolean;
+    }
+  | { status: "error"; code: ExtractErrorCode }
+) & {
+  /** Tokens used by failed attempts, i.e. retries and failed fallbacks. */
+  spent?: AttemptUsage[];
+};
+
+/**
+ * Records one model's outcome for a request, with every attempt priced at
+ * its model's list price. Recording failures are logged, never thrown.
+ */
+export async function recordExtraction(
+  input: Pick<ExtractInput, "imageBytes" | "modelId">,
+  outcome: ExtractionOutcome,
+  context: { source: UsageSource; apiKey?: string; startedAt: number }
+): Promise<void> {
+  const success = outcome.status === "success" ? outcome : null;
+  const attempts: AttemptUsage[] = [
+    ...(outcome.spent ?? []),
+    ...(success ? [{ model: success.model, ...success.usage }] : []),
+  ];
+  const promptTokens = attempts.reduce((sum, a) => sum + a.promptTokens, 0);
+  const completionTokens = attempts.reduce(
+    (sum, a) => sum + a.completionTokens,
+    0
+  );
+  // A cache hit replays a stored answer, so nothing was spent on it
+  const billed = success?.cached ? [] : attempts;
+  const prices = billed.map((a) => {
+    const model = MODELS.find((m) => m.id === a.model);
+    return model && calculateCost(model, a.promptTokens, a.completionTokens);
+  });
+
+  try {
+    await getUsageStore()?.append({
+      at: context.startedAt,
+      source: context.source,
+      ...(context.apiKey && { apiKey: context.apiKey }),
+      model: input.modelId,
+      ...(success &&
+        success.model !== input.modelId && { answeredBy: success.model }),
+      outcome: outcome.status,
+      ...(outcome.status === "error" && { errorCode: outcome.code }),
+      cached: success?.cached ?? false,
+      promptTokens,
+      completionTokens,
+      cost: prices.reduce<number>((sum, price) => sum + (price ?? 0), 0),
+      ...(prices.includes(undefined) && { unpriced: true }),
+      latencyMs: Date.now() - context.startedAt,
+      imageHash: await sha256Hex(input.imageBytes as Uint8Array<ArrayBuffer>),
+    });
+  } catch (error) {
+    console.error("[usage] record error:", error);
+  }
+}
+
+/**
+ * Whether `token` opens the usage dashboard and export. With
+ * `USAGE_DASHBOARD_TOKEN` set it must match; without one they are only
+ * served in development.
+ */
+export function canViewUsage(token: string | null | undefined): boolean {
+  const expected = process.env.USAGE_DASHBOARD_TOKEN;
+  if (!expected) return process.env.NODE_ENV !== "production";
+  if (!token) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(expected));
+}
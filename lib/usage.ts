@@ -0,0 +1,262 @@
+import type { ExtractErrorCode } from "@/lib/extract-errors";
+import { csvEscape } from "@/lib/export";
+
+/** Where an extraction was requested from. */
+export type UsageSource = "playground" | "api";
+
+/** One model's outcome for one extract request, recorded server-side. */
+export type UsageRecord = {
+  at: number;
+  source: UsageSource;
+  /** API key id, for requests to the public API. */
+  apiKey?: string;
+  /** The model that was asked. */
+  model: string;
+  /** The fallback that answered, when it was not `model`. */
+  answeredBy?: string;
+  outcome: "success" | "error";
+  errorCode?: ExtractErrorCode;
+  cached: boolean;
+  /** Every attempt's tokens, including retries and failed fallbacks. */
+  promptTokens: number;
+  completionTokens: number;
+  /** USD at each attempted model's list price; 0 for cache hits. */
+  cost: number;
+  /**
+   * Set when an attempted model has no server-side price, e.g. one added
+   * in the browser. Its tokens are left out of `cost`.
+   */
+  unpriced?: true;
+  /** Wall-clock time for the request, including retries and fallbacks. */
+  latencyMs: number;
+  /** SHA-256 of the image as sent to the model. */
+  imageHash: string;
+};
+
+/** Milliseconds since the epoch; `from` inclusive, `to` exclusive. */
+export type UsageRange = { from: number; to: number };
+
+const DAY_MS = 86_400_000;
+const DEFAULT_RANGE_DAYS = 30;
+export const MAX_RANGE_DAYS = 366;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** `YYYY-MM-DD` of the UTC day containing `ms`. */
+export function utcDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function parseDay(value: string | undefined): number | null {
+  if (!value || !DAY_PATTERN.test(value)) return null;
+  const ms = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Reads `from` and `to` as inclusive UTC days, defaulting to the last 30.
+ * Ranges are clamped to a year and swapped when given backwards.
+ */
+export function parseUsageRange(
+  from: string | undefined,
+  to: string | undefined,
+  now = Date.now()
+): UsageRange {
+  const today = parseDay(utcDay(now))!;
+  let end = (parseDay(to) ?? today) + DAY_MS;
+  let start = parseDay(from) ?? end - DEFAULT_RANGE_DAYS * DAY_MS;
+  if (start >= end) [start, end] = [end - DAY_MS, start + DAY_MS];
+  start = Math.max(start, end - MAX_RANGE_DAYS * DAY_MS);
+  return { from: start, to: end };
+}
+
+/** Every UTC day in the range, oldest first. */
+export function daysIn({ from, to }: UsageRange): string[] {
+  const days: string[] = [];
+  for (let ms = from; ms < to; ms += DAY_MS) days.push(utcDay(ms));
+  return days;
+}
+
+/** Nearest-rank percentile of ascending values, or null when empty. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+// ── Summary ──────────────────────────────────────────────────────────
+
+export type DailyUsage = {
+  day: string;
+  cost: number;
+  extractions: number;
+  /** Distinct images extracted that day. */
+  images: number;
+  costPerImage: number;
+};
+
+export type ModelUsage = {
+  model: string;
+  extractions: number;
+  successes: number;
+  errors: Partial<Record<ExtractErrorCode, number>>;
+  cached: number;
+  cost: number;
+  /** Extractions whose cost leaves out unpriced tokens. */
+  unpriced: number;
+  /** Latency of uncached extractions; null without any. */
+  p50: number | null;
+  p95: number | null;
+  avgPromptTokens: number;
+  avgCompletionTokens: number;
+};
+
+export type TokenBucket = { label: string; count: number };
+
+export type UsageSummary = {
+  cost: number;
+  extractions: number;
+  successes: number;
+  cached: number;
+  unpriced: number;
+  images: number;
+  days: DailyUsage[];
+  models: ModelUsage[];
+  /** Total tokens per uncached, successful extraction. */
+  tokens: TokenBucket[];
+};
+
+/** Upper bounds (exclusive) of the token histogram buckets. */
+const TOKEN_BUCKETS = [500, 1000, 2000, 5000, 10_000, Infinity];
+
+function tokenLabel(index: number): string {
+  const fmt = (n: number) => (n >= 1000 ? `${n / 1000}K` : `${n}`);
+  const upper = TOKEN_BUCKETS[index];
+  const lower = index === 0 ? 0 : TOKEN_BUCKETS[index - 1];
+  if (upper === Infinity) return `${fmt(lower)}+`;
+  return `${fmt(lower)}–${fmt(upper)}`;
+}
+
+export function summarizeUsage(
+  records: UsageRecord[],
+  range: UsageRange
+): UsageSummary {
+  const byDay = new Map(
+    daysIn(range).map((day) => [
+      day,
+      { cost: 0, extractions: 0, images: new Set<string>() },
+    ])
+  );
+  const byModel = new Map<string, UsageRecord[]>();
+  const tokens = TOKEN_BUCKETS.map(() => 0);
+  const images = new Set<string>();
+
+  for (const record of records) {
+    const day = byDay.get(utcDay(record.at));
+    if (day) {
+      day.cost += record.cost;
+      day.extractions++;
+      day.images.add(record.imageHash);
+    }
+    images.add(record.imageHash);
+    const rows = byModel.get(record.model);
+    if (rows) rows.push(record);
+    else byModel.set(record.model, [record]);
+    if (record.outcome === "success" && !record.cached) {
+      const total = record.promptTokens + record.completionTokens;
+      tokens[TOKEN_BUCKETS.findIndex((max) => total < max)]++;
+    }
+  }
+
+  const models = [...byModel].map(([model, rows]): ModelUsage => {
+    const succeeded = rows.filter((r) => r.outcome === "success");
+    const latencies = rows
+      .filter((r) => !r.cached)
+      .map((r) => r.latencyMs)
+      .sort((a, b) => a - b);
+    const errors: ModelUsage["errors"] = {};
+    for (const r of rows) {
+      if (r.outcome === "error") {
+        const code = r.errorCode ?? "unknown";
+        errors[code] = (errors[code] ?? 0) + 1;
+      }
+    }
+    const average = (pick: (r: UsageRecord) => number) =>
+      succeeded.length > 0
+        ? succeeded.reduce((sum, r) => sum + pick(r), 0) / succeeded.length
+        : 0;
+    return {
+      model,
+      extractions: rows.length,
+      successes: succeeded.length,
+      errors,
+      cached: rows.filter((r) => r.cached).length,
+      cost: rows.reduce((sum, r) => sum + r.cost, 0),
+      unpriced: rows.filter((r) => r.unpriced).length,
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      avgPromptTokens: average((r) => r.promptTokens),
+      avgCompletionTokens: average((r) => r.completionTokens),
+    };
+  });
+
+  return {
+    cost: records.reduce((sum, r) => sum + r.cost, 0),
+    extractions: records.length,
+    successes: records.filter((r) => r.outcome === "success").length,
+    cached: records.filter((r) => r.cached).length,
+    unpriced: records.filter((r) => r.unpriced).length,
+    images: images.size,
+    days: [...byDay].map(([day, d]) => ({
+      day,
+      cost: d.cost,
+      extractions: d.extractions,
+      images: d.images.size,
+      costPerImage: d.images.size > 0 ? d.cost / d.images.size : 0,
+    })),
+    models: models.sort((a, b) => b.cost - a.cost),
+    tokens: tokens.map((count, i) => ({ label: tokenLabel(i), count })),
+  };
+}
+
+// ── CSV ──────────────────────────────────────────────────────────────
+
+/** One row per recorded extraction, oldest first. */
+export function toUsageCsv(records: UsageRecord[]): string {
+  const header = [
+    "time",
+    "source",
+    "api_key",
+    "model",
+    "answered_by",
+    "outcome",
+    "error_code",
+    "cached",
+    "input_tokens",
+    "output_tokens",
+    "cost_usd",
+    "unpriced",
+    "latency_ms",
+    "image_hash",
+  ];
+  const rows = [...records]
+    .sort((a, b) => a.at - b.at)
+    .map((r) => [
+      new Date(r.at).toISOString(),
+      r.source,
+      r.apiKey ?? "",
+      r.model,
+      r.answeredBy ?? "",
+      r.outcome,
+      r.errorCode ?? "",
+      String(r.cached),
+      String(r.promptTokens),
+      String(r.completionTokens),
+      r.cost.toFixed(6),
+      String(r.unpriced ?? false),
+      String(r.latencyMs),
+      r.imageHash,
+    ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvEscape).join(","))
+    .join("\r\n");
+}
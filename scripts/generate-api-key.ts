@@ -0,0 +1,19 @@
+import { randomBytes } from "crypto";
+import { hashApiKey } from "../lib/api-keys";
+
+// Usage: bun scripts/generate-api-key.ts <id> [limit] [window] [algorithm] [unit]
+const [id = "default", limit = "1000", window = "1 d", algorithm, unit] =
+  process.argv.slice(2);
+
+const key = `mp_${randomBytes(24).toString("base64url")}`;
+const entry = {
+  id,
+  hash: hashApiKey(key),
+  limit: Number(limit),
+  window,
+  ...(algorithm && { algorithm }),
+  ...(unit && { unit }),
+};
+
+console.log(`API key (shown once): ${key}`);
+console.log(`API_KEYS entry:       ${JSON.stringify(entry)}`);